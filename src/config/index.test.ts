@@ -0,0 +1,42 @@
+describe('config.watch.pollIntervalSeconds', () => {
+  const original = process.env.WATCH_POLL_INTERVAL_SECONDS;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.WATCH_POLL_INTERVAL_SECONDS;
+    } else {
+      process.env.WATCH_POLL_INTERVAL_SECONDS = original;
+    }
+  });
+
+  function load(value: string | undefined): number {
+    if (value === undefined) {
+      delete process.env.WATCH_POLL_INTERVAL_SECONDS;
+    } else {
+      process.env.WATCH_POLL_INTERVAL_SECONDS = value;
+    }
+    let seconds = 0;
+    jest.isolateModules(() => {
+      seconds = jest.requireActual('./index').default.watch.pollIntervalSeconds;
+    });
+    return seconds;
+  }
+
+  it('defaults to 60 seconds', () => {
+    expect(load(undefined)).toBe(60);
+  });
+
+  it('uses a valid value', () => {
+    expect(load('120')).toBe(120);
+  });
+
+  it('falls back to 60 for invalid values', () => {
+    expect(load('abc')).toBe(60);
+    expect(load('0')).toBe(60);
+    expect(load('-5')).toBe(60);
+  });
+
+  it('clamps short intervals to the minimum', () => {
+    expect(load('1')).toBe(10);
+  });
+});
@@ -8,19 +8,83 @@ interface LoggingConfig {
 
 interface ServerConfig {
   port: number;
+  publicUrl?: string; // Base URL clients reach the server at, e.g. behind a proxy
+}
+
+interface AuthConfig {
+  authorizationServer: string;
+  scopes: string[]; // Advertised in the protected resource metadata
+  // Server-managed OAuth, enabled when a client ID and secret are set
+  clientId?: string;
+  clientSecret?: string;
+  redirectUri?: string; // Defaults to <public URL>/oauth/callback
+  tokenStorePath: string;
+  tokenEncryptionKey?: string;
+}
+
+interface WatchConfig {
+  pollIntervalSeconds: number;
+  gmailLabels: string[];
+  calendarIds: string[];
 }
 
 interface Config {
   logging: LoggingConfig;
   server: ServerConfig;
+  auth: AuthConfig;
+  watch: WatchConfig;
 }
 
+const parseList = (value: string | undefined, fallback: string[]): string[] =>
+  value
+    ? value
+        .split(',')
+        .map(item => item.trim())
+        .filter(Boolean)
+    : fallback;
+
+// Polling faster than this would spend the Gmail and Calendar API quota
+const MIN_POLL_INTERVAL_SECONDS = 10;
+
+const parsePollInterval = (value: string | undefined): number => {
+  const seconds = Number(value);
+  if (!value || !Number.isFinite(seconds) || seconds <= 0) {
+    return 60;
+  }
+  return Math.max(Math.round(seconds), MIN_POLL_INTERVAL_SECONDS);
+};
+
 const config: Config = {
   logging: {
     level: process.env.LOG_LEVEL || 'info',
   },
   server: {
     port: process.env.PORT ? parseInt(process.env.PORT, 10) : 3000,
+    publicUrl: process.env.PUBLIC_URL?.replace(/\/+$/, '') || undefined,
+  },
+  auth: {
+    authorizationServer:
+      process.env.OAUTH_AUTHORIZATION_SERVER || 'https://accounts.google.com',
+    scopes: parseList(process.env.OAUTH_SCOPES, [
+      'openid',
+      'email',
+      'https://www.googleapis.com/auth/gmail.modify',
+      'https://www.googleapis.com/auth/gmail.compose',
+      'https://www.googleapis.com/auth/gmail.send',
+      'https://www.googleapis.com/auth/calendar',
+    ]),
+    clientId: process.env.GOOGLE_CLIENT_ID || undefined,
+    clientSecret: process.env.GOOGLE_CLIENT_SECRET || undefined,
+    redirectUri: process.env.OAUTH_REDIRECT_URI || undefined,
+    tokenStorePath: process.env.TOKEN_STORE_PATH || './data/tokens.json',
+    tokenEncryptionKey: process.env.TOKEN_ENCRYPTION_KEY || undefined,
+  },
+  watch: {
+    pollIntervalSeconds: parsePollInterval(
+      process.env.WATCH_POLL_INTERVAL_SECONDS
+    ),
+    gmailLabels: parseList(process.env.WATCH_GMAIL_LABELS, ['INBOX']),
+    calendarIds: parseList(process.env.WATCH_CALENDAR_IDS, ['primary']),
   },
 };
 
@@ -3,23 +3,45 @@
 // Register TypeScript path mappings for runtime resolution
 import './register-paths';
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  McpServer,
+  RegisteredTool,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import express from 'express';
 import { randomUUID } from 'node:crypto';
 import { z } from 'zod';
 import {
   TextContent,
+  ImageContent,
+  EmbeddedResource,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   isInitializeRequest,
 } from '@modelcontextprotocol/sdk/types.js';
 import dotenv from 'dotenv';
 import config from '@config/index';
-import GmailService, {
-  GmailServiceError,
-  GmailServiceOptions,
-} from '@services/gmail';
+import GmailService, { GmailServiceError } from '@services/gmail';
 import GCalendarService, { GCalendarServiceError } from '@services/gcalendar';
-import logger from './utils/logger';
+import SessionServices from '@services/session';
+import OAuthService, { isApiKey } from '@services/oauth';
+import FileTokenStore from '@services/token-store';
+import {
+  AuthServiceError,
+  buildAuthChallenge,
+  buildProtectedResourceMetadata,
+  introspectAccessToken,
+} from '@services/auth';
+import type { AccessTokenInfo, Capability } from '@services/types';
+import ResourceWatcher, {
+  calendarEventsUri,
+  gmailLabelUri,
+} from '@services/watcher';
+import logger, { logToStderr } from './utils/logger';
+import { CLI_USAGE, CliOptions, parseCliOptions } from './utils/cli';
+import { convertDateTime } from './utils/datetime';
+import { isValidTimeZone } from './utils/timezone';
 
 // Load environment variables
 dotenv.config();
@@ -29,6 +51,98 @@ const sessionHeaders: {
   [sessionId: string]: { [key: string]: string | string[] | undefined };
 } = {};
 
+// Global map to store resource watchers by session ID
+const sessionWatchers: { [sessionId: string]: ResourceWatcher } = {};
+
+// Global map to store Google service clients by session ID
+const sessionServices: { [sessionId: string]: SessionServices } = {};
+
+// Global map to store the introspected access token by session ID
+const sessionTokens: {
+  [sessionId: string]: { token: string; info: AccessTokenInfo };
+} = {};
+
+// Global map to store the token each session last checked, also when
+// introspection could not reach Google
+const sessionCheckedTokens: { [sessionId: string]: string } = {};
+
+// Global map to store each session's hook for re-applying tool access
+const sessionToolAccess: {
+  [sessionId: string]: (tokenInfo: AccessTokenInfo) => void;
+} = {};
+
+// Capabilities each tool needs, where a nested list means any one of them;
+// tools not listed work with any token
+const TOOL_CAPABILITIES: {
+  [toolName: string]: (Capability | Capability[])[];
+} = {
+  gmail_list_emails: ['gmail.read'],
+  gmail_get_details: ['gmail.read'],
+  gmail_list_changes: ['gmail.read'],
+  gmail_get_thread: ['gmail.read'],
+  gmail_get_attachment: ['gmail.read'],
+  gmail_search_emails: ['gmail.read'],
+  gmail_send_email: ['gmail.send'],
+  gmail_reply: ['gmail.read', 'gmail.send'],
+  gmail_forward: ['gmail.read', 'gmail.send'],
+  gmail_create_draft: ['gmail.compose'],
+  gmail_update_draft: ['gmail.compose'],
+  gmail_list_drafts: [['gmail.read', 'gmail.compose']],
+  gmail_get_draft: [['gmail.read', 'gmail.compose']],
+  gmail_send_draft: ['gmail.compose'],
+  gmail_delete_draft: ['gmail.compose'],
+  gmail_list_labels: [['gmail.read', 'gmail.labels']],
+  gmail_create_label: ['gmail.labels'],
+  gmail_delete_label: ['gmail.labels'],
+  gmail_modify_message: ['gmail.modify'],
+  gmail_bulk_modify: ['gmail.modify'],
+  gcalendar_list_calendars: ['calendar.list'],
+  gcalendar_list_events: ['calendar.read'],
+  gcalendar_agenda: ['calendar.read'],
+  gcalendar_sync_events: ['calendar.read'],
+  gcalendar_list_instances: ['calendar.read'],
+  gcalendar_export_ics: ['calendar.read'],
+  gcalendar_create_event: ['calendar.write'],
+  gcalendar_update_event: ['calendar.write'],
+  gcalendar_delete_event: ['calendar.write'],
+  gcalendar_respond_to_event: ['calendar.write'],
+  gcalendar_decline_event: ['calendar.write'],
+  // Reading the invite from Gmail also needs gmail.read, checked on use
+  gcalendar_import_ics: ['calendar.write'],
+  gcalendar_freebusy: ['calendar.freebusy'],
+  gcalendar_find_free_slots: ['calendar.freebusy'],
+};
+
+// Helper function to check whether a token can use a tool; without
+// introspection results every tool stays available
+function isToolAllowed(
+  toolName: string,
+  tokenInfo: AccessTokenInfo | undefined
+): boolean {
+  return (
+    !tokenInfo ||
+    (TOOL_CAPABILITIES[toolName] || []).every(required =>
+      (Array.isArray(required) ? required : [required]).some(capability =>
+        tokenInfo.capabilities.includes(capability)
+      )
+    )
+  );
+}
+
+// Helper function to answer an HTTP request with a JSON-RPC error
+function sendJsonRpcError(
+  res: express.Response,
+  status: number,
+  code: number,
+  message: string
+): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
+
 // Helper function to extract Bearer token from headers
 function extractBearerToken(headers: {
   [key: string]: string | string[] | undefined;
@@ -48,7 +162,20 @@ function extractBearerToken(headers: {
   return authValue.substring(7); // Remove "Bearer " prefix
 }
 
-// Helper function to create Gmail service from current session headers
+// Helper function to get the session's service clients, switching them to the
+// token of the latest request
+function getSessionServices(sessionId: string, token: string): SessionServices {
+  let services = sessionServices[sessionId];
+  if (services) {
+    services.updateAccessToken(token);
+  } else {
+    services = new SessionServices(token, { skipSslVerification: true });
+    sessionServices[sessionId] = services;
+  }
+  return services;
+}
+
+// Helper function to get the Gmail service for the current session headers
 function createGmailServiceFromSession(sessionId: string): GmailService {
   const headers = sessionHeaders[sessionId];
 
@@ -68,14 +195,10 @@ function createGmailServiceFromSession(sessionId: string): GmailService {
     );
   }
 
-  const options: GmailServiceOptions = {
-    skipSslVerification: true,
-  };
-
-  return GmailService.fromBearerToken(token, options);
+  return getSessionServices(sessionId, token).getGmailService();
 }
 
-// Helper function to create GCalendar service from current session headers
+// Helper function to get the GCalendar service for the current session headers
 function createGCalendarServiceFromSession(
   sessionId: string
 ): GCalendarService {
@@ -97,18 +220,35 @@ function createGCalendarServiceFromSession(
     );
   }
 
-  const options: GmailServiceOptions = {
-    skipSslVerification: true,
-  };
-
-  return GCalendarService.fromBearerToken(token, options);
+  return getSessionServices(sessionId, token).getCalendarService();
 }
 
 class McpServerApp {
-  private createServer(sessionId: string): McpServer {
-    const server = new McpServer({
-      name: 'mcp-google-assistant-server',
-      version: '1.0.0',
+  private createServer(
+    sessionId: string,
+    tokenInfo?: AccessTokenInfo
+  ): McpServer {
+    const server = new McpServer(
+      {
+        name: 'mcp-google-assistant-server',
+        version: '1.0.0',
+      },
+      { capabilities: { resources: { subscribe: true } } }
+    );
+
+    const OutgoingAttachmentSchema = z.object({
+      filename: z.string().min(1).describe('File name shown to recipients'),
+      mimeType: z
+        .string()
+        .optional()
+        .describe(
+          'MIME type, e.g. "application/pdf" (default: application/octet-stream, or text/plain for text)'
+        ),
+      data: z.string().optional().describe('Base64 encoded file content'),
+      text: z
+        .string()
+        .optional()
+        .describe('Text content, as an alternative to data (e.g. CSV)'),
     });
 
     const EventDateTimeSchema = z.object({
@@ -117,8 +257,29 @@ class McpServerApp {
       timeZone: z.string().optional(),
     });
 
+    const WorkingHoursSchema = z.object({
+      start: z
+        .string()
+        .regex(/^([01]?\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm')
+        .describe('Start of the working day, e.g. "09:00"'),
+      end: z
+        .string()
+        .regex(/^(([01]?\d|2[0-3]):[0-5]\d|24:00)$/, 'Expected HH:mm')
+        .describe('End of the working day, e.g. "17:00"'),
+      days: z
+        .array(z.number().int().min(0).max(6))
+        .optional()
+        .describe('Working weekdays, 0 = Sunday (default: [1, 2, 3, 4, 5])'),
+      timeZone: z
+        .string()
+        .optional()
+        .describe('IANA time zone of these hours, e.g. "Europe/London"'),
+    });
+
+    const tools: { [toolName: string]: RegisteredTool } = {};
+
     // Register Gmail list emails tool
-    server.tool(
+    tools.gmail_list_emails = server.tool(
       'gmail_list_emails',
       'Get a list of emails from Gmail with optional filtering and details',
       {
@@ -156,6 +317,12 @@ class McpServerApp {
           .describe(
             'If true, fetches full details for each email in the list using a single batch request.'
           ),
+        includeHistoryId: z
+          .boolean()
+          .default(false)
+          .describe(
+            'If true, also returns the mailbox historyId to pass to gmail_list_changes later (default: false)'
+          ),
       },
       async options => {
         try {
@@ -182,7 +349,7 @@ class McpServerApp {
     );
 
     // Register Gmail get email details tool
-    server.tool(
+    tools.gmail_get_details = server.tool(
       'gmail_get_details',
       'Get detailed information about a specific email',
       {
@@ -200,6 +367,12 @@ class McpServerApp {
           .max(3000)
           .default(1000)
           .describe('The maximum number of words to return (default: 300)'),
+        bodyFormat: z
+          .enum(['text', 'markdown', 'html'])
+          .default('text')
+          .describe(
+            'Format of the returned body: "text" (plain text, default), "markdown" (keeps links, lists and tables), or "html" (sanitized HTML). HTML-only emails are converted.'
+          ),
       },
       async options => {
         try {
@@ -225,91 +398,110 @@ class McpServerApp {
       }
     );
 
-    // Register tool for converting date-time strings
-    server.tool(
-      'datetime_converter',
-      'Convert a date-time string to a different format or timezone',
+    // Register Gmail list changes tool
+    tools.gmail_list_changes = server.tool(
+      'gmail_list_changes',
+      'List mailbox changes (messages added, deleted and relabeled) since a history checkpoint. Returns the new historyId to use on the next call.',
       {
-        datetime: z
+        startHistoryId: z
           .string()
+          .optional()
           .describe(
-            'The date-time string to convert (e.g., "2024-07-20T15:00:00-07:00", "July 20, 2024 3:00 PM PST")'
+            'History ID checkpoint from a previous gmail_list_changes call, or from gmail_list_emails with includeHistoryId. Omit to get the current checkpoint only.'
           ),
-        format: z
-          .enum(['iso', 'utc', 'unix'])
-          .default('iso')
+        labelId: z
+          .string()
+          .optional()
+          .describe('Only return changes for messages with this label ID'),
+        historyTypes: z
+          .array(
+            z.enum([
+              'messageAdded',
+              'messageDeleted',
+              'labelAdded',
+              'labelRemoved',
+            ])
+          )
           .optional()
+          .describe('Types of changes to return (default: all)'),
+        maxChanges: z
+          .number()
+          .min(1)
+          .max(5000)
+          .default(500)
+          .describe(
+            'Maximum number of history records to read (default: 500). If more remain, hasMore is true and historyId resumes from there.'
+          ),
+        fetchDetails: z
+          .boolean()
+          .default(true)
           .describe(
-            'The target format: "iso" (default ISO 8601), "utc" (alias for iso), or "unix" (timestamp in seconds).'
+            'If true, fetches headers and snippet for added messages (up to 100)'
           ),
       },
-      async ({ datetime, format }) => {
+      async options => {
         try {
-          const date = new Date(datetime);
-          if (isNaN(date.getTime())) {
-            throw new Error('Invalid date-time string provided.');
-          }
-
-          let result: string | number;
-          switch (format) {
-            case 'unix':
-              result = Math.floor(date.getTime() / 1000);
-              break;
-            case 'iso':
-            case 'utc':
-            default:
-              result = date.toISOString();
-              break;
-          }
-
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const changes = await gmailService.listChanges(options);
           return {
             content: [
               {
                 type: 'text',
-                text: String(result),
+                text: JSON.stringify(changes, null, 2),
               } as TextContent,
             ],
           };
         } catch (error) {
           const errorMessage =
-            error instanceof Error ? error.message : String(error);
-          throw new Error(`Error converting date-time: ${errorMessage}`);
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error listing mailbox changes: ${errorMessage}`);
         }
       }
     );
 
-    // Register Gmail search emails tool
-    server.tool(
-      'gmail_search_emails',
-      'Search emails using Gmail query syntax',
+    // Register Gmail get thread tool
+    tools.gmail_get_thread = server.tool(
+      'gmail_get_thread',
+      'Get all messages of an email conversation in order, with quoted reply history removed',
       {
-        query: z
+        threadId: z
           .string()
           .min(1)
+          .describe('The thread ID of the conversation (from threadId fields)'),
+        maxWords: z
+          .number()
+          .min(300)
+          .max(5000)
+          .default(1500)
           .describe(
-            'Gmail search query (e.g., "from:example@gmail.com", "is:unread", "subject:important")'
+            'The maximum number of words shared by all messages (default: 1500)'
           ),
-        maxResults: z
-          .number()
-          .min(1)
-          .max(20)
-          .default(10)
+        bodyFormat: z
+          .enum(['text', 'markdown', 'html'])
+          .default('text')
           .describe(
-            'Maximum number of emails to return (default: 10, max: 20)'
+            'Format of the message bodies: "text" (default), "markdown", or "html" (sanitized, quotes are not stripped)'
+          ),
+        stripQuotes: z
+          .boolean()
+          .default(true)
+          .describe(
+            'Whether to remove quoted history ("On ... wrote:", ">" lines, Outlook separators) from each message (default: true)'
           ),
       },
-      async ({ query, maxResults }) => {
+      async options => {
         try {
           const gmailService = createGmailServiceFromSession(sessionId);
-          const searchResults = await gmailService.searchEmails(
-            query,
-            maxResults
-          );
+          const thread = await gmailService.getThread(options);
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(searchResults, null, 2),
+                text: JSON.stringify(thread, null, 2),
               } as TextContent,
             ],
           };
@@ -320,198 +512,2018 @@ class McpServerApp {
               : error instanceof Error
                 ? error.message
                 : String(error);
-          throw new Error(`Error searching emails: ${errorMessage}`);
+          throw new Error(`Error fetching thread: ${errorMessage}`);
         }
       }
     );
 
-    // Register GCalendar list calendars tool
-    server.tool(
-      'gcalendar_list_calendars',
-      'Get a list of all calendars in the user calendar list',
-      {},
-      async () => {
+    // Register Gmail get attachment tool
+    tools.gmail_get_attachment = server.tool(
+      'gmail_get_attachment',
+      'Download an email attachment. Text-like files (CSV, TXT, JSON, ICS) are returned as text, images as image content and other small files as embedded base64 resources.',
+      {
+        messageId: z
+          .string()
+          .min(1)
+          .describe('The ID of the email message containing the attachment'),
+        attachmentId: z
+          .string()
+          .min(1)
+          .describe(
+            'The attachment ID from the attachments list of gmail_get_details'
+          ),
+        partId: z
+          .string()
+          .optional()
+          .describe(
+            'The part ID from the attachments list of gmail_get_details. Recommended: attachment IDs change every time the email is fetched, part IDs do not.'
+          ),
+        filename: z
+          .string()
+          .optional()
+          .describe(
+            'The attachment filename, used to locate the attachment if its ID has changed'
+          ),
+        maxBytes: z
+          .number()
+          .min(1)
+          .max(10 * 1024 * 1024)
+          .default(1024 * 1024)
+          .describe(
+            'Maximum size in bytes of a binary attachment to return (default: 1 MB, max: 10 MB)'
+          ),
+        maxChars: z
+          .number()
+          .min(100)
+          .max(200000)
+          .default(20000)
+          .describe(
+            'Maximum number of characters of extracted text to return (default: 20000)'
+          ),
+      },
+      async options => {
         try {
-          const gcalService = createGCalendarServiceFromSession(sessionId);
-          const calendars = await gcalService.listCalendars();
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const attachment = await gmailService.getAttachment(options);
+          const { data, ...metadata } = attachment;
+
+          const content: (TextContent | ImageContent | EmbeddedResource)[] = [
+            {
+              type: 'text',
+              text: JSON.stringify(metadata, null, 2),
+            } as TextContent,
+          ];
+
+          if (data && attachment.mimeType.startsWith('image/')) {
+            content.push({
+              type: 'image',
+              data,
+              mimeType: attachment.mimeType,
+            } as ImageContent);
+          } else if (data) {
+            content.push({
+              type: 'resource',
+              resource: {
+                uri: `gmail://messages/${attachment.messageId}/attachments/${encodeURIComponent(attachment.filename)}`,
+                mimeType: attachment.mimeType,
+                blob: data,
+              },
+            } as EmbeddedResource);
+          }
+
+          return { content };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error fetching attachment: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register Gmail send email tool
+    tools.gmail_send_email = server.tool(
+      'gmail_send_email',
+      'Send an email with optional CC/BCC, HTML body and attachments',
+      {
+        to: z
+          .array(z.string().min(1))
+          .min(1)
+          .describe(
+            'Recipient addresses, e.g. ["jane@example.com", "John Doe <john@example.com>"]'
+          ),
+        cc: z.array(z.string().min(1)).optional().describe('CC addresses'),
+        bcc: z.array(z.string().min(1)).optional().describe('BCC addresses'),
+        subject: z.string().describe('The email subject'),
+        textBody: z.string().optional().describe('Plain text body'),
+        htmlBody: z
+          .string()
+          .optional()
+          .describe(
+            'HTML body. A plain text alternative is generated if textBody is omitted.'
+          ),
+        attachments: z
+          .array(OutgoingAttachmentSchema)
+          .optional()
+          .describe('Files to attach'),
+      },
+      async options => {
+        try {
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const sentEmail = await gmailService.sendEmail(options);
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(calendars, null, 2),
+                text: JSON.stringify(sentEmail, null, 2),
               } as TextContent,
             ],
           };
         } catch (error) {
           const errorMessage =
-            error instanceof GCalendarServiceError
-              ? `GCalendar API Error [${error.code}]: ${error.message}`
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
               : error instanceof Error
                 ? error.message
                 : String(error);
-          throw new Error(`Error listing calendars: ${errorMessage}`);
+          throw new Error(`Error sending email: ${errorMessage}`);
         }
       }
     );
 
-    // Register GCalendar list events tool
-    server.tool(
-      'gcalendar_list_events',
-      'Get a list of events from a specified calendar',
+    // Register Gmail reply tool
+    tools.gmail_reply = server.tool(
+      'gmail_reply',
+      'Reply (or reply all) to an email so the reply stays in the original thread',
       {
-        calendarId: z
+        messageId: z
           .string()
-          .default('primary')
-          .describe(
-            `Calendar identifier. Use 'primary' for the primary calendar.`
-          ),
-        maxResults: z
-          .number()
           .min(1)
-          .max(50)
-          .default(20)
-          .describe(`Maximum number of events to return.`),
-        timeMin: z
-          .string()
-          .optional()
-          .transform(val => (val ? new Date(val).toISOString() : val))
+          .describe('The ID of the email message to reply to'),
+        replyAll: z
+          .boolean()
+          .default(false)
           .describe(
-            `Start of time range (e.g., "2025-07-07T00:00:00+08:00"). It will be automatically converted to UTC. If not set, will list future events.`
+            'Whether to also reply to the original To and Cc recipients (default: false)'
           ),
-        timeMax: z
+        textBody: z.string().optional().describe('Plain text reply body'),
+        htmlBody: z
           .string()
           .optional()
-          .transform(val => (val ? new Date(val).toISOString() : val))
           .describe(
-            `End of time range (e.g., "2025-07-07T00:00:00+08:00"). It will be automatically converted to UTC.`
+            'HTML reply body. A plain text alternative is generated if textBody is omitted.'
           ),
-        query: z.string().optional().describe(`Text search query.`),
+        cc: z
+          .array(z.string().min(1))
+          .optional()
+          .describe('Additional CC addresses'),
+        bcc: z.array(z.string().min(1)).optional().describe('BCC addresses'),
+        attachments: z
+          .array(OutgoingAttachmentSchema)
+          .optional()
+          .describe('Files to attach'),
       },
       async options => {
         try {
-          const gcalService = createGCalendarServiceFromSession(sessionId);
-          const events = await gcalService.listEvents(options);
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const sentEmail = await gmailService.replyToEmail(options);
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(events, null, 2),
+                text: JSON.stringify(sentEmail, null, 2),
               } as TextContent,
             ],
           };
         } catch (error) {
           const errorMessage =
-            error instanceof GCalendarServiceError
-              ? `GCalendar API Error [${error.code}]: ${error.message}`
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
               : error instanceof Error
                 ? error.message
                 : String(error);
-          throw new Error(`Error listing events: ${errorMessage}`);
+          throw new Error(`Error replying to email: ${errorMessage}`);
         }
       }
     );
 
-    // Register GCalendar create event tool
-    server.tool(
-      'gcalendar_create_event',
-      'Create a new event in a calendar',
+    // Register Gmail forward tool
+    tools.gmail_forward = server.tool(
+      'gmail_forward',
+      'Forward an email with its original body quoted and its attachments included',
       {
-        calendarId: z
+        messageId: z
           .string()
-          .default('primary')
-          .describe(
-            `Calendar identifier. Use 'primary' for the primary calendar.`
-          ),
-        summary: z.string().describe(`The summary or title of the event.`),
-        description: z
+          .min(1)
+          .describe('The ID of the email message to forward'),
+        to: z.array(z.string().min(1)).min(1).describe('Recipient addresses'),
+        cc: z.array(z.string().min(1)).optional().describe('CC addresses'),
+        bcc: z.array(z.string().min(1)).optional().describe('BCC addresses'),
+        textBody: z
           .string()
           .optional()
-          .describe(`The description of the event.`),
-        location: z.string().optional().describe(`The location of the event.`),
-        start: EventDateTimeSchema.describe(
-          `The start time of the event. e.g. { "dateTime": "2024-07-20T15:00:00-07:00", "timeZone": "America/Los_Angeles" }`
-        ),
-        end: EventDateTimeSchema.describe(
-          `The end time of the event. e.g. { "dateTime": "2024-07-20T16:00:00-07:00", "timeZone": "America/Los_Angeles" }`
-        ),
-        attendees: z
-          .array(z.string().email())
+          .describe('Note to place above the forwarded message'),
+        htmlBody: z
+          .string()
           .optional()
-          .describe(`A list of attendee email addresses.`),
-        sendNotifications: z
+          .describe('HTML note to place above the forwarded message'),
+        includeAttachments: z
           .boolean()
           .default(true)
           .describe(
-            `Whether to send notifications about the creation of the new event.`
+            'Whether to include the original attachments (default: true)'
           ),
+        attachments: z
+          .array(OutgoingAttachmentSchema)
+          .optional()
+          .describe('Additional files to attach'),
       },
       async options => {
         try {
-          const gcalService = createGCalendarServiceFromSession(sessionId);
-          const newEvent = await gcalService.createEvent(options);
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const sentEmail = await gmailService.forwardEmail(options);
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(newEvent, null, 2),
+                text: JSON.stringify(sentEmail, null, 2),
               } as TextContent,
             ],
           };
         } catch (error) {
           const errorMessage =
-            error instanceof GCalendarServiceError
-              ? `GCalendar API Error [${error.code}]: ${error.message}`
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
               : error instanceof Error
                 ? error.message
                 : String(error);
-          throw new Error(`Error creating event: ${errorMessage}`);
+          throw new Error(`Error forwarding email: ${errorMessage}`);
         }
       }
     );
 
-    // Register GCalendar decline event tool
-    server.tool(
-      'gcalendar_decline_event',
-      'Decline an invitation to a calendar event.',
+    // Register Gmail create draft tool
+    tools.gmail_create_draft = server.tool(
+      'gmail_create_draft',
+      'Create an email draft for a human to review before sending. Set replyToMessageId to draft a threaded reply.',
       {
-        calendarId: z
+        to: z
+          .array(z.string().min(1))
+          .optional()
+          .describe('Recipient addresses'),
+        cc: z.array(z.string().min(1)).optional().describe('CC addresses'),
+        bcc: z.array(z.string().min(1)).optional().describe('BCC addresses'),
+        subject: z.string().optional().describe('The email subject'),
+        textBody: z.string().optional().describe('Plain text body'),
+        htmlBody: z.string().optional().describe('HTML body'),
+        attachments: z
+          .array(OutgoingAttachmentSchema)
+          .optional()
+          .describe('Files to attach'),
+        replyToMessageId: z
           .string()
-          .default('primary')
-          .describe(`Calendar identifier. Defaults to 'primary'.`),
-        eventId: z.string().describe(`The ID of the event to decline.`),
+          .min(1)
+          .optional()
+          .describe(
+            'ID of the message to reply to. Recipients and subject default to those of the reply.'
+          ),
+        replyAll: z
+          .boolean()
+          .default(false)
+          .describe('Whether a reply draft includes all original recipients'),
       },
       async options => {
         try {
-          const gcalService = createGCalendarServiceFromSession(sessionId);
-          const updatedEvent = await gcalService.declineEvent(options);
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const draft = await gmailService.createDraft(options);
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(updatedEvent, null, 2),
+                text: JSON.stringify(draft, null, 2),
               } as TextContent,
             ],
           };
         } catch (error) {
           const errorMessage =
-            error instanceof GCalendarServiceError
-              ? `GCalendar API Error [${error.code}]: ${error.message}`
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
               : error instanceof Error
                 ? error.message
                 : String(error);
-          throw new Error(`Error declining event: ${errorMessage}`);
+          throw new Error(`Error creating draft: ${errorMessage}`);
         }
       }
     );
 
-    return server;
-  }
-
-  async run() {
-    const app = express();
-    app.use(express.json());
-
-    // Map to store transports by session ID for stateful connections
+    // Register Gmail update draft tool
+    tools.gmail_update_draft = server.tool(
+      'gmail_update_draft',
+      'Update an existing draft. Omitted fields keep their current values.',
+      {
+        draftId: z.string().min(1).describe('The ID of the draft to update'),
+        to: z
+          .array(z.string().min(1))
+          .optional()
+          .describe('Recipient addresses'),
+        cc: z.array(z.string().min(1)).optional().describe('CC addresses'),
+        bcc: z.array(z.string().min(1)).optional().describe('BCC addresses'),
+        subject: z.string().optional().describe('The email subject'),
+        textBody: z.string().optional().describe('Plain text body'),
+        htmlBody: z.string().optional().describe('HTML body'),
+        attachments: z
+          .array(OutgoingAttachmentSchema)
+          .optional()
+          .describe('Files to attach'),
+      },
+      async options => {
+        try {
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const draft = await gmailService.updateDraft(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(draft, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error updating draft: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register Gmail list drafts tool
+    tools.gmail_list_drafts = server.tool(
+      'gmail_list_drafts',
+      'List email drafts with their recipients, subject and snippet',
+      {
+        maxResults: z
+          .number()
+          .min(1)
+          .max(30)
+          .default(10)
+          .describe(
+            'Maximum number of drafts to return (default: 10, max: 30)'
+          ),
+        pageToken: z
+          .string()
+          .optional()
+          .describe('Token for pagination to get next page of results'),
+        query: z
+          .string()
+          .optional()
+          .describe('Gmail search query to filter drafts'),
+      },
+      async options => {
+        try {
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const drafts = await gmailService.listDrafts(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(drafts, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error listing drafts: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register Gmail get draft tool
+    tools.gmail_get_draft = server.tool(
+      'gmail_get_draft',
+      'Get a draft with its full body, recipients and attachments',
+      {
+        draftId: z.string().min(1).describe('The ID of the draft to retrieve'),
+        maxWords: z
+          .number()
+          .min(300)
+          .max(3000)
+          .default(1000)
+          .describe('The maximum number of words to return (default: 1000)'),
+        bodyFormat: z
+          .enum(['text', 'markdown', 'html'])
+          .default('text')
+          .describe(
+            'Format of the returned body: "text" (default), "markdown", or "html" (sanitized)'
+          ),
+      },
+      async options => {
+        try {
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const draft = await gmailService.getDraft(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(draft, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error fetching draft: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register Gmail send draft tool
+    tools.gmail_send_draft = server.tool(
+      'gmail_send_draft',
+      'Send an existing draft',
+      {
+        draftId: z.string().min(1).describe('The ID of the draft to send'),
+      },
+      async ({ draftId }) => {
+        try {
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const sentEmail = await gmailService.sendDraft(draftId);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(sentEmail, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error sending draft: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register Gmail delete draft tool
+    tools.gmail_delete_draft = server.tool(
+      'gmail_delete_draft',
+      'Permanently delete a draft',
+      {
+        draftId: z.string().min(1).describe('The ID of the draft to delete'),
+      },
+      async ({ draftId }) => {
+        try {
+          const gmailService = createGmailServiceFromSession(sessionId);
+          await gmailService.deleteDraft(draftId);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ id: draftId, deleted: true }, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error deleting draft: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register Gmail list labels tool
+    tools.gmail_list_labels = server.tool(
+      'gmail_list_labels',
+      'List Gmail labels with their colors and total/unread message counts',
+      {},
+      async () => {
+        try {
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const labels = await gmailService.listLabels();
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(labels, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error listing labels: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register Gmail create label tool
+    tools.gmail_create_label = server.tool(
+      'gmail_create_label',
+      'Create a Gmail label',
+      {
+        name: z
+          .string()
+          .min(1)
+          .describe(
+            'The label name. Use "/" to nest labels, e.g. "Clients/Acme"'
+          ),
+        textColor: z
+          .string()
+          .optional()
+          .describe(
+            'Text color as a hex value from the Gmail label palette, e.g. "#ffffff"'
+          ),
+        backgroundColor: z
+          .string()
+          .optional()
+          .describe(
+            'Background color as a hex value from the Gmail label palette, e.g. "#4a86e8"'
+          ),
+        showInLabelList: z
+          .boolean()
+          .default(true)
+          .describe('Whether to show the label in the label list'),
+        showInMessageList: z
+          .boolean()
+          .default(true)
+          .describe('Whether to show the label on messages in the list'),
+      },
+      async options => {
+        try {
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const label = await gmailService.createLabel(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(label, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error creating label: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register Gmail delete label tool
+    tools.gmail_delete_label = server.tool(
+      'gmail_delete_label',
+      'Delete a user label. Messages are kept but lose the label.',
+      {
+        label: z.string().min(1).describe('The label name or ID to delete'),
+      },
+      async ({ label }) => {
+        try {
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const labelId = await gmailService.deleteLabel(label);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ id: labelId, deleted: true }, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error deleting label: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register Gmail modify message tool
+    tools.gmail_modify_message = server.tool(
+      'gmail_modify_message',
+      'Triage an email: add or remove labels, mark read/unread, star, mark important, archive or trash',
+      {
+        messageId: z
+          .string()
+          .min(1)
+          .describe('The ID of the email message to modify'),
+        addLabels: z
+          .array(z.string().min(1))
+          .optional()
+          .describe('Label names or IDs to add'),
+        removeLabels: z
+          .array(z.string().min(1))
+          .optional()
+          .describe('Label names or IDs to remove'),
+        markRead: z
+          .boolean()
+          .optional()
+          .describe('true marks the email read, false marks it unread'),
+        starred: z
+          .boolean()
+          .optional()
+          .describe('true stars the email, false removes the star'),
+        important: z
+          .boolean()
+          .optional()
+          .describe('true marks the email important, false unmarks it'),
+        archive: z
+          .boolean()
+          .optional()
+          .describe(
+            'true archives the email (removes it from the inbox), false moves it back to the inbox'
+          ),
+        trash: z
+          .boolean()
+          .optional()
+          .describe(
+            'true moves the email to trash, false restores it from trash'
+          ),
+      },
+      async options => {
+        try {
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const message = await gmailService.modifyMessage(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(message, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error modifying email: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register Gmail bulk modify tool
+    tools.gmail_bulk_modify = server.tool(
+      'gmail_bulk_modify',
+      'Apply label changes, mark read, archive or trash to every email matching a Gmail query. Runs as a dry-run preview unless dryRun is false. Reports the total number of matches (estimated when more than maxMessages match) and how many are processed.',
+      {
+        query: z
+          .string()
+          .min(1)
+          .describe(
+            'Gmail search query selecting the emails (e.g., "from:newsletter@example.com older_than:30d")'
+          ),
+        addLabels: z
+          .array(z.string().min(1))
+          .optional()
+          .describe('Label names or IDs to add'),
+        removeLabels: z
+          .array(z.string().min(1))
+          .optional()
+          .describe('Label names or IDs to remove'),
+        markRead: z
+          .boolean()
+          .optional()
+          .describe('true marks the emails read, false marks them unread'),
+        starred: z
+          .boolean()
+          .optional()
+          .describe('true stars the emails, false removes the star'),
+        archive: z
+          .boolean()
+          .optional()
+          .describe('true removes the emails from the inbox'),
+        trash: z
+          .boolean()
+          .optional()
+          .describe(
+            'true moves the emails to trash, false restores them from trash'
+          ),
+        includeSpamTrash: z
+          .boolean()
+          .default(false)
+          .describe('Whether to include spam and trash emails in the query'),
+        dryRun: z
+          .boolean()
+          .default(true)
+          .describe(
+            'If true (default), only returns the matched count and a sample of subjects and senders without changing anything'
+          ),
+        maxMessages: z
+          .number()
+          .min(1)
+          .max(10000)
+          .default(500)
+          .describe(
+            'Hard cap on the number of emails that can be modified (default: 500, max: 10000)'
+          ),
+        sampleSize: z
+          .number()
+          .min(0)
+          .max(50)
+          .default(10)
+          .describe('Number of matched emails to describe in the result'),
+      },
+      async options => {
+        try {
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const result = await gmailService.bulkModify(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error bulk modifying emails: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register tool for converting date-time strings
+    tools.datetime_converter = server.tool(
+      'datetime_converter',
+      'Resolve an absolute, relative or natural-language date-time (e.g. "next Tuesday 3pm", "in 2 hours", "tomorrow morning PST") in the user\'s time zone. Returns RFC 3339 with offset, UTC, Unix seconds, and start/end objects that can be passed unchanged to the calendar tools.',
+      {
+        datetime: z
+          .string()
+          .min(1)
+          .describe(
+            'The date-time to resolve (e.g., "2024-07-20T15:00:00-07:00", "July 20, 2024 3:00 PM PST", "next Tuesday 3pm", "in 2 hours", "tomorrow morning", "friday at noon Europe/London")'
+          ),
+        timeZone: z
+          .string()
+          .optional()
+          .describe(
+            "IANA time zone used for input without one (e.g. 'America/New_York'). Defaults to the primary calendar's time zone."
+          ),
+        targetTimeZone: z
+          .string()
+          .optional()
+          .describe('IANA time zone for the output. Defaults to timeZone.'),
+        now: z
+          .string()
+          .optional()
+          .describe(
+            'Reference time for relative input, in RFC 3339 format. Defaults to the current time.'
+          ),
+        durationMinutes: z
+          .number()
+          .positive()
+          .optional()
+          .describe(
+            'Also return an end time this many minutes after the start'
+          ),
+      },
+      async ({ datetime, timeZone, targetTimeZone, now, durationMinutes }) => {
+        try {
+          if (timeZone && !isValidTimeZone(timeZone)) {
+            throw new Error(`Unknown time zone: ${timeZone}`);
+          }
+          const referenceNow = now ? Date.parse(now) : Date.now();
+          if (isNaN(referenceNow)) {
+            throw new Error(`Invalid reference time: ${now}`);
+          }
+
+          let userTimeZone = timeZone;
+          if (!userTimeZone) {
+            try {
+              const gcalService = createGCalendarServiceFromSession(sessionId);
+              userTimeZone = await gcalService.getPrimaryTimeZone();
+            } catch (error) {
+              logger.warn('Could not read the calendar time zone, using UTC', {
+                error: error instanceof Error ? error.message : String(error),
+              });
+              userTimeZone = 'UTC';
+            }
+          }
+
+          const result = convertDateTime(datetime, {
+            now: referenceNow,
+            timeZone: userTimeZone,
+            targetTimeZone,
+            durationMinutes,
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          throw new Error(`Error converting date-time: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register Gmail search emails tool
+    tools.gmail_search_emails = server.tool(
+      'gmail_search_emails',
+      'Search emails using Gmail query syntax',
+      {
+        query: z
+          .string()
+          .min(1)
+          .describe(
+            'Gmail search query (e.g., "from:example@gmail.com", "is:unread", "subject:important")'
+          ),
+        maxResults: z
+          .number()
+          .min(1)
+          .max(20)
+          .default(10)
+          .describe(
+            'Maximum number of emails to return (default: 10, max: 20)'
+          ),
+      },
+      async ({ query, maxResults }) => {
+        try {
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const searchResults = await gmailService.searchEmails(
+            query,
+            maxResults
+          );
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(searchResults, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GmailServiceError
+              ? `Gmail API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error searching emails: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register GCalendar list calendars tool
+    tools.gcalendar_list_calendars = server.tool(
+      'gcalendar_list_calendars',
+      'Get a list of all calendars in the user calendar list',
+      {},
+      async () => {
+        try {
+          const gcalService = createGCalendarServiceFromSession(sessionId);
+          const calendars = await gcalService.listCalendars();
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(calendars, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GCalendarServiceError
+              ? `GCalendar API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error listing calendars: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register GCalendar list events tool
+    tools.gcalendar_list_events = server.tool(
+      'gcalendar_list_events',
+      'Get a list of events from a specified calendar',
+      {
+        calendarId: z
+          .string()
+          .default('primary')
+          .describe(
+            `Calendar identifier. Use 'primary' for the primary calendar.`
+          ),
+        maxResults: z
+          .number()
+          .min(1)
+          .max(50)
+          .default(20)
+          .describe(`Maximum number of events to return.`),
+        timeMin: z
+          .string()
+          .optional()
+          .transform(val => (val ? new Date(val).toISOString() : val))
+          .describe(
+            `Start of time range (e.g., "2025-07-07T00:00:00+08:00"). It will be automatically converted to UTC. If not set, will list future events.`
+          ),
+        timeMax: z
+          .string()
+          .optional()
+          .transform(val => (val ? new Date(val).toISOString() : val))
+          .describe(
+            `End of time range (e.g., "2025-07-07T00:00:00+08:00"). It will be automatically converted to UTC.`
+          ),
+        query: z.string().optional().describe(`Text search query.`),
+        pageToken: z
+          .string()
+          .optional()
+          .describe(
+            `nextPageToken from a previous call, to get the next page of events.`
+          ),
+        singleEvents: z
+          .boolean()
+          .default(true)
+          .describe(
+            `Expand recurring events into individual occurrences (default: true). Set to false to get each series once, with its recurrence rules.`
+          ),
+      },
+      async options => {
+        try {
+          const gcalService = createGCalendarServiceFromSession(sessionId);
+          const events = await gcalService.listEvents(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(events, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GCalendarServiceError
+              ? `GCalendar API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error listing events: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register GCalendar agenda tool
+    tools.gcalendar_agenda = server.tool(
+      'gcalendar_agenda',
+      'Get a merged day-by-day agenda across several calendars in one time zone, with duplicates removed and overlapping events flagged as conflicts.',
+      {
+        calendarIds: z
+          .array(z.string())
+          .min(1)
+          .max(50)
+          .optional()
+          .describe(
+            `Calendars to include. Defaults to every calendar in your calendar list.`
+          ),
+        timeMin: z
+          .string()
+          .describe(
+            `Start of the agenda in RFC3339 format, e.g. "2025-07-07T00:00:00+08:00".`
+          ),
+        timeMax: z.string().describe(`End of the agenda in RFC3339 format.`),
+        timeZone: z
+          .string()
+          .optional()
+          .describe(
+            `IANA time zone to display events in (default: your primary calendar's time zone).`
+          ),
+        includeDeclined: z
+          .boolean()
+          .default(false)
+          .describe(`Include events you have declined.`),
+        maxEventsPerCalendar: z
+          .number()
+          .min(1)
+          .max(2500)
+          .default(250)
+          .describe(`Maximum number of events to read from each calendar.`),
+      },
+      async options => {
+        try {
+          const gcalService = createGCalendarServiceFromSession(sessionId);
+          const agenda = await gcalService.getAgenda(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(agenda, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GCalendarServiceError
+              ? `GCalendar API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error building agenda: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register GCalendar sync events tool
+    tools.gcalendar_sync_events = server.tool(
+      'gcalendar_sync_events',
+      'Get the events that changed or were cancelled on a calendar since the last sync. Without a syncToken, performs a full sync and returns a token for next time.',
+      {
+        calendarId: z
+          .string()
+          .default('primary')
+          .describe(
+            `Calendar identifier. Use 'primary' for the primary calendar.`
+          ),
+        syncToken: z
+          .string()
+          .optional()
+          .describe(
+            `nextSyncToken from the previous sync. Omit for a full sync. If the token has expired, a full sync is performed and fullSync is true.`
+          ),
+        maxEvents: z
+          .number()
+          .min(1)
+          .max(2500)
+          .default(250)
+          .describe(
+            `Maximum number of changed events to return (default: 250). The sync token still covers every change.`
+          ),
+      },
+      async options => {
+        try {
+          const gcalService = createGCalendarServiceFromSession(sessionId);
+          const changes = await gcalService.syncEvents(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(changes, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GCalendarServiceError
+              ? `GCalendar API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error syncing events: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register GCalendar list instances tool
+    tools.gcalendar_list_instances = server.tool(
+      'gcalendar_list_instances',
+      'List the occurrences of a recurring event. Each occurrence has its own ID, recurringEventId and originalStartTime.',
+      {
+        calendarId: z
+          .string()
+          .default('primary')
+          .describe(
+            `Calendar identifier. Use 'primary' for the primary calendar.`
+          ),
+        eventId: z.string().describe(`The ID of the recurring series.`),
+        timeMin: z
+          .string()
+          .optional()
+          .describe(
+            `Only occurrences ending after this time (RFC3339, e.g. "2025-07-07T00:00:00+08:00").`
+          ),
+        timeMax: z
+          .string()
+          .optional()
+          .describe(`Only occurrences starting before this time (RFC3339).`),
+        maxResults: z
+          .number()
+          .min(1)
+          .max(250)
+          .default(25)
+          .describe(`Maximum number of occurrences to return.`),
+        pageToken: z
+          .string()
+          .optional()
+          .describe(`nextPageToken from a previous call.`),
+        showDeleted: z
+          .boolean()
+          .default(false)
+          .describe(`Include cancelled occurrences.`),
+      },
+      async options => {
+        try {
+          const gcalService = createGCalendarServiceFromSession(sessionId);
+          const instances = await gcalService.listInstances(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(instances, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GCalendarServiceError
+              ? `GCalendar API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error listing instances: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register GCalendar create event tool
+    tools.gcalendar_create_event = server.tool(
+      'gcalendar_create_event',
+      'Create a new event in a calendar',
+      {
+        calendarId: z
+          .string()
+          .default('primary')
+          .describe(
+            `Calendar identifier. Use 'primary' for the primary calendar.`
+          ),
+        summary: z.string().describe(`The summary or title of the event.`),
+        description: z
+          .string()
+          .optional()
+          .describe(`The description of the event.`),
+        location: z.string().optional().describe(`The location of the event.`),
+        start: EventDateTimeSchema.describe(
+          `The start time of the event. e.g. { "dateTime": "2024-07-20T15:00:00-07:00", "timeZone": "America/Los_Angeles" }`
+        ),
+        end: EventDateTimeSchema.describe(
+          `The end time of the event. e.g. { "dateTime": "2024-07-20T16:00:00-07:00", "timeZone": "America/Los_Angeles" }`
+        ),
+        attendees: z
+          .array(z.string().email())
+          .optional()
+          .describe(`A list of attendee email addresses.`),
+        sendNotifications: z
+          .boolean()
+          .default(true)
+          .describe(
+            `Whether to send notifications about the creation of the new event.`
+          ),
+        recurrence: z
+          .array(z.string())
+          .min(1)
+          .optional()
+          .describe(
+            `Recurrence lines for a recurring event (RRULE, EXDATE, RDATE), e.g. ["RRULE:FREQ=WEEKLY;BYDAY=MO"]. Timed recurring events need start.timeZone.`
+          ),
+        optionalAttendees: z
+          .array(z.string().email())
+          .optional()
+          .describe(`Email addresses of attendees invited as optional.`),
+        createMeetLink: z
+          .boolean()
+          .default(false)
+          .describe(
+            `Attach a new Google Meet video conference. The link is in the returned conference entry points.`
+          ),
+        reminders: z
+          .object({
+            useDefault: z
+              .boolean()
+              .describe(`Use the calendar's default reminders.`),
+            overrides: z
+              .array(
+                z.object({
+                  method: z.enum(['email', 'popup']),
+                  minutes: z
+                    .number()
+                    .int()
+                    .min(0)
+                    .max(40320)
+                    .describe(`Minutes before the start.`),
+                })
+              )
+              .max(5)
+              .optional()
+              .describe(`Custom reminders, used when useDefault is false.`),
+          })
+          .optional()
+          .describe(
+            `Reminders, e.g. { "useDefault": false, "overrides": [{ "method": "popup", "minutes": 10 }] }.`
+          ),
+        colorId: z
+          .string()
+          .regex(/^([1-9]|1[01])$/)
+          .optional()
+          .describe(`Event color, "1" to "11".`),
+        visibility: z
+          .enum(['default', 'public', 'private', 'confidential'])
+          .optional()
+          .describe(`Who can see the event details.`),
+        transparency: z
+          .enum(['opaque', 'transparent'])
+          .optional()
+          .describe(
+            `"opaque" blocks time on the calendar (default), "transparent" shows you as available.`
+          ),
+        guestsCanModify: z
+          .boolean()
+          .optional()
+          .describe(`Whether guests can edit the event.`),
+        guestsCanInviteOthers: z
+          .boolean()
+          .optional()
+          .describe(`Whether guests can invite other people.`),
+        guestsCanSeeOtherGuests: z
+          .boolean()
+          .optional()
+          .describe(`Whether guests can see the guest list.`),
+      },
+      async options => {
+        try {
+          const gcalService = createGCalendarServiceFromSession(sessionId);
+          const newEvent = await gcalService.createEvent(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(newEvent, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GCalendarServiceError
+              ? `GCalendar API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error creating event: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register GCalendar update event tool
+    tools.gcalendar_update_event = server.tool(
+      'gcalendar_update_event',
+      'Update an existing event. Only the fields provided are changed; everything else is kept.',
+      {
+        calendarId: z
+          .string()
+          .default('primary')
+          .describe(
+            `Calendar identifier. Use 'primary' for the primary calendar.`
+          ),
+        eventId: z
+          .string()
+          .describe(
+            `The ID of the event to update. For a recurring event, an instance ID changes only that occurrence and the series ID changes every occurrence.`
+          ),
+        summary: z.string().optional().describe(`New title of the event.`),
+        description: z
+          .string()
+          .optional()
+          .describe(`New description of the event.`),
+        location: z.string().optional().describe(`New location of the event.`),
+        start: EventDateTimeSchema.optional().describe(
+          `New start time. If end is omitted, the event keeps its duration. e.g. { "dateTime": "2024-07-20T15:00:00-07:00", "timeZone": "America/Los_Angeles" }`
+        ),
+        end: EventDateTimeSchema.optional().describe(`New end time.`),
+        attendees: z
+          .array(z.string().email())
+          .optional()
+          .describe(
+            `Replaces the attendee list. Attendees that remain keep their responses.`
+          ),
+        addAttendees: z
+          .array(z.string().email())
+          .optional()
+          .describe(`Attendee email addresses to add.`),
+        removeAttendees: z
+          .array(z.string().email())
+          .optional()
+          .describe(`Attendee email addresses to remove.`),
+        recurrence: z
+          .array(z.string())
+          .min(1)
+          .optional()
+          .describe(
+            `Replaces the recurrence lines of a series (RRULE, EXDATE, RDATE). Pass the series ID; to change one occurrence, pass its instance ID without recurrence.`
+          ),
+        sendUpdates: z
+          .enum(['all', 'externalOnly', 'none'])
+          .default('all')
+          .describe(
+            `Who receives update notifications: 'all', 'externalOnly' (non-Google Calendar guests), or 'none'.`
+          ),
+      },
+      async options => {
+        try {
+          const gcalService = createGCalendarServiceFromSession(sessionId);
+          const updatedEvent = await gcalService.updateEvent(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(updatedEvent, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GCalendarServiceError
+              ? `GCalendar API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error updating event: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register GCalendar delete event tool
+    tools.gcalendar_delete_event = server.tool(
+      'gcalendar_delete_event',
+      'Cancel an event. For recurring events, choose whether to cancel one instance, this and following instances, or the whole series.',
+      {
+        calendarId: z
+          .string()
+          .default('primary')
+          .describe(
+            `Calendar identifier. Use 'primary' for the primary calendar.`
+          ),
+        eventId: z
+          .string()
+          .describe(
+            `The ID of the event to cancel. For recurring events, the ID of an instance (see gcalendar_list_events with singleEvents) or of the series.`
+          ),
+        scope: z
+          .enum(['instance', 'following', 'series'])
+          .optional()
+          .describe(
+            `Required for recurring events: 'instance' cancels only this occurrence, 'following' ends the series before this occurrence, 'series' cancels every occurrence. Ignored for single events.`
+          ),
+        sendUpdates: z
+          .enum(['all', 'externalOnly', 'none'])
+          .default('all')
+          .describe(
+            `Who receives cancellation notifications: 'all', 'externalOnly' (non-Google Calendar guests), or 'none'.`
+          ),
+      },
+      async options => {
+        try {
+          const gcalService = createGCalendarServiceFromSession(sessionId);
+          const result = await gcalService.deleteEvent(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GCalendarServiceError
+              ? `GCalendar API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error deleting event: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register GCalendar respond to event tool
+    tools.gcalendar_respond_to_event = server.tool(
+      'gcalendar_respond_to_event',
+      'Respond to an event invitation: accept, tentatively accept or decline, optionally with a note to the organizer.',
+      {
+        calendarId: z
+          .string()
+          .default('primary')
+          .describe(
+            `Calendar identifier. Use 'primary' for the primary calendar.`
+          ),
+        eventId: z.string().describe(`The ID of the event to respond to.`),
+        response: z
+          .enum(['accepted', 'tentative', 'declined'])
+          .describe(`Your response to the invitation.`),
+        comment: z
+          .string()
+          .optional()
+          .describe(`Optional note to the organizer shown with your response.`),
+        allInstances: z
+          .boolean()
+          .default(false)
+          .describe(
+            `For recurring invites, respond to every instance of the series instead of just this one.`
+          ),
+      },
+      async options => {
+        try {
+          const gcalService = createGCalendarServiceFromSession(sessionId);
+          const updatedEvent = await gcalService.respondToEvent(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(updatedEvent, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GCalendarServiceError
+              ? `GCalendar API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error responding to event: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register GCalendar export ICS tool
+    tools.gcalendar_export_ics = server.tool(
+      'gcalendar_export_ics',
+      'Export events as an iCalendar (.ics) file: a single event, or every event in a time range with recurring series kept as RRULEs.',
+      {
+        calendarId: z
+          .string()
+          .default('primary')
+          .describe(
+            `Calendar identifier. Use 'primary' for the primary calendar.`
+          ),
+        eventId: z
+          .string()
+          .optional()
+          .describe(`Export only this event instead of a time range.`),
+        timeMin: z
+          .string()
+          .optional()
+          .describe(
+            `Start of the range in RFC3339 format (default: now). Ignored with eventId.`
+          ),
+        timeMax: z
+          .string()
+          .optional()
+          .describe(`End of the range in RFC3339 format.`),
+        maxEvents: z
+          .number()
+          .min(1)
+          .max(2500)
+          .default(250)
+          .describe(`Maximum number of events to export.`),
+      },
+      async options => {
+        try {
+          const gcalService = createGCalendarServiceFromSession(sessionId);
+          const exported = await gcalService.exportIcs(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(exported, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GCalendarServiceError
+              ? `GCalendar API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error exporting events: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register GCalendar import ICS tool
+    tools.gcalendar_import_ics = server.tool(
+      'gcalendar_import_ics',
+      'Import events from iCalendar (.ics) data, given as text or as a Gmail message with a meeting invite. Events are imported with their iCalUID, so importing again updates them.',
+      {
+        calendarId: z
+          .string()
+          .default('primary')
+          .describe(
+            `Calendar identifier. Use 'primary' for the primary calendar.`
+          ),
+        ics: z
+          .string()
+          .optional()
+          .describe(`iCalendar text beginning with BEGIN:VCALENDAR.`),
+        messageId: z
+          .string()
+          .optional()
+          .describe(
+            `ID of a Gmail message whose text/calendar part or .ics attachment holds the invite.`
+          ),
+        attachmentId: z
+          .string()
+          .optional()
+          .describe(
+            `Attachment ID of the .ics file within messageId, if the message has several.`
+          ),
+      },
+      async ({ calendarId, ics, messageId, attachmentId }) => {
+        try {
+          const tokenInfo = sessionTokens[sessionId]?.info;
+          if (
+            (messageId || attachmentId) &&
+            tokenInfo &&
+            !tokenInfo.capabilities.includes('gmail.read')
+          ) {
+            throw new Error(
+              'Reading an invite from Gmail needs a token with Gmail read access. Pass the invite as ics text instead.'
+            );
+          }
+
+          const icsTexts = ics ? [ics] : [];
+          if (messageId) {
+            const gmailService = createGmailServiceFromSession(sessionId);
+            icsTexts.push(
+              ...(await gmailService.getCalendarInvites(
+                messageId,
+                attachmentId
+              ))
+            );
+          }
+          if (icsTexts.length === 0) {
+            throw new Error(
+              messageId
+                ? 'The email does not contain a calendar invite.'
+                : 'Either ics or messageId is required.'
+            );
+          }
+
+          const gcalService = createGCalendarServiceFromSession(sessionId);
+          const result = await gcalService.importIcs({
+            calendarId,
+            ics: icsTexts.join('\r\n'),
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GCalendarServiceError
+              ? `GCalendar API Error [${error.code}]: ${error.message}`
+              : error instanceof GmailServiceError
+                ? `Gmail API Error [${error.code}]: ${error.message}`
+                : error instanceof Error
+                  ? error.message
+                  : String(error);
+          throw new Error(`Error importing events: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register GCalendar decline event tool
+    tools.gcalendar_decline_event = server.tool(
+      'gcalendar_decline_event',
+      'Decline an invitation to a calendar event.',
+      {
+        calendarId: z
+          .string()
+          .default('primary')
+          .describe(`Calendar identifier. Defaults to 'primary'.`),
+        eventId: z.string().describe(`The ID of the event to decline.`),
+      },
+      async options => {
+        try {
+          const gcalService = createGCalendarServiceFromSession(sessionId);
+          const updatedEvent = await gcalService.declineEvent(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(updatedEvent, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GCalendarServiceError
+              ? `GCalendar API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error declining event: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register GCalendar free/busy tool
+    tools.gcalendar_freebusy = server.tool(
+      'gcalendar_freebusy',
+      'Get the busy time blocks of one or more calendars or attendees in a time range.',
+      {
+        calendarIds: z
+          .array(z.string())
+          .min(1)
+          .max(50)
+          .describe(
+            `Calendar IDs or attendee email addresses, e.g. ["primary", "jane@example.com"].`
+          ),
+        timeMin: z
+          .string()
+          .describe(
+            `Start of the range in RFC3339 format, e.g. "2024-07-22T00:00:00-07:00".`
+          ),
+        timeMax: z.string().describe(`End of the range in RFC3339 format.`),
+        timeZone: z
+          .string()
+          .optional()
+          .describe(
+            `IANA time zone for the returned busy blocks (default: UTC).`
+          ),
+      },
+      async options => {
+        try {
+          const gcalService = createGCalendarServiceFromSession(sessionId);
+          const freeBusy = await gcalService.getFreeBusy(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(freeBusy, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GCalendarServiceError
+              ? `GCalendar API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error querying free/busy: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register GCalendar find free slots tool
+    tools.gcalendar_find_free_slots = server.tool(
+      'gcalendar_find_free_slots',
+      'Find meeting times when all attendees are free within their working hours, ranked best first.',
+      {
+        attendees: z
+          .array(z.string())
+          .max(49)
+          .describe(`Attendee email addresses or calendar IDs.`),
+        includeSelf: z
+          .boolean()
+          .default(true)
+          .describe(`Also check your own primary calendar (default: true).`),
+        timeMin: z
+          .string()
+          .describe(
+            `Start of the search range in RFC3339 format, e.g. "2024-07-22T00:00:00-07:00".`
+          ),
+        timeMax: z
+          .string()
+          .describe(`End of the search range in RFC3339 format.`),
+        durationMinutes: z
+          .number()
+          .int()
+          .min(5)
+          .max(1440)
+          .describe(`Meeting length in minutes.`),
+        timeZone: z
+          .string()
+          .optional()
+          .describe(
+            `IANA time zone for the results and default working hours (default: your primary calendar's time zone).`
+          ),
+        workingHours: WorkingHoursSchema.optional().describe(
+          `Working hours that apply to everyone (default: Monday to Friday, 09:00-17:00).`
+        ),
+        attendeeWorkingHours: z
+          .record(WorkingHoursSchema)
+          .optional()
+          .describe(
+            `Working hours per attendee, keyed by email address (use "primary" for yourself).`
+          ),
+        bufferBeforeMinutes: z
+          .number()
+          .int()
+          .min(0)
+          .max(240)
+          .optional()
+          .describe(`Free time required after the previous event.`),
+        bufferAfterMinutes: z
+          .number()
+          .int()
+          .min(0)
+          .max(240)
+          .optional()
+          .describe(`Free time required before the next event.`),
+        stepMinutes: z
+          .number()
+          .int()
+          .min(5)
+          .max(240)
+          .default(30)
+          .describe(`Granularity of slot start times (default: 30).`),
+        maxSlots: z
+          .number()
+          .int()
+          .min(1)
+          .max(50)
+          .default(10)
+          .describe(`Maximum number of slots to return (default: 10).`),
+      },
+      async options => {
+        try {
+          const gcalService = createGCalendarServiceFromSession(sessionId);
+          const freeSlots = await gcalService.findFreeSlots(options);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(freeSlots, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof GCalendarServiceError
+              ? `GCalendar API Error [${error.code}]: ${error.message}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          throw new Error(`Error finding free slots: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Register tool for reporting the account behind the access token
+    tools.whoami = server.tool(
+      'whoami',
+      'Show the Google account behind the access token, when the token expires, its granted scopes and which tools they make available',
+      {},
+      async () => {
+        try {
+          const headers = sessionHeaders[sessionId];
+          const token = headers ? extractBearerToken(headers) : null;
+          if (!token) {
+            throw new AuthServiceError(
+              'Missing or invalid Authorization header. Expected format: "Authorization: Bearer <access_token>"',
+              'MISSING_AUTHORIZATION',
+              401
+            );
+          }
+
+          // The client may have switched tokens since the session started
+          let cached = sessionTokens[sessionId];
+          if (!cached || cached.token !== token) {
+            cached = { token, info: await introspectAccessToken(token) };
+            sessionTokens[sessionId] = cached;
+            sessionCheckedTokens[sessionId] = token;
+            applyToolAccess(cached.info);
+          }
+          const { info } = cached;
+
+          let email = info.email;
+          if (!email && info.capabilities.includes('gmail.read')) {
+            // Without the email scope, the mailbox profile names the account
+            try {
+              const gmailService = createGmailServiceFromSession(sessionId);
+              email = (await gmailService.getProfile()).emailAddress;
+            } catch (error) {
+              logger.warn('Could not read the mailbox profile', {
+                error: error instanceof Error ? error.message : String(error),
+              });
+            }
+          }
+
+          const toolNames = Object.keys(tools).sort();
+          const result = {
+            email: email || null,
+            expiresAt: new Date(info.expiresAt).toISOString(),
+            expiresInSeconds: Math.max(
+              0,
+              Math.round((info.expiresAt - Date.now()) / 1000)
+            ),
+            refreshedAutomatically: !!info.refreshable,
+            scopes: info.scopes,
+            capabilities: info.capabilities,
+            availableTools: toolNames.filter(name => tools[name].enabled),
+            unavailableTools: toolNames.filter(name => !tools[name].enabled),
+          };
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              } as TextContent,
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof AuthServiceError
+              ? `Auth Error [${error.code}]: ${error.message}`
+              : error instanceof GmailServiceError
+                ? `Gmail API Error [${error.code}]: ${error.message}`
+                : error instanceof Error
+                  ? error.message
+                  : String(error);
+          throw new Error(`Error checking access token: ${errorMessage}`);
+        }
+      }
+    );
+
+    // Only offer the tools the token's scopes allow
+    const applyToolAccess = (info: AccessTokenInfo | undefined): void => {
+      for (const [name, tool] of Object.entries(tools)) {
+        if (isToolAllowed(name, info) !== tool.enabled) {
+          if (tool.enabled) {
+            tool.disable();
+          } else {
+            tool.enable();
+          }
+        }
+      }
+    };
+    applyToolAccess(tokenInfo);
+    sessionToolAccess[sessionId] = applyToolAccess;
+
+    // Register Gmail label resources that clients can subscribe to
+    const gmailLabels = isToolAllowed('gmail_list_emails', tokenInfo)
+      ? config.watch.gmailLabels
+      : [];
+    for (const labelId of gmailLabels) {
+      server.resource(
+        `gmail-label-${labelId}`,
+        gmailLabelUri(labelId),
+        {
+          description: `Latest emails with the ${labelId} label. Subscribe to be notified when new mail arrives.`,
+          mimeType: 'application/json',
+        },
+        async uri => {
+          const gmailService = createGmailServiceFromSession(sessionId);
+          const emailList = await gmailService.getEmailList({
+            labelIds: [labelId],
+            maxResults: 20,
+            fetchDetails: true,
+          });
+          return {
+            contents: [
+              {
+                uri: uri.href,
+                mimeType: 'application/json',
+                text: JSON.stringify(emailList, null, 2),
+              },
+            ],
+          };
+        }
+      );
+    }
+
+    // Register calendar resources that clients can subscribe to
+    const calendarIds = isToolAllowed('gcalendar_list_events', tokenInfo)
+      ? config.watch.calendarIds
+      : [];
+    for (const calendarId of calendarIds) {
+      server.resource(
+        `gcalendar-events-${calendarId}`,
+        calendarEventsUri(calendarId),
+        {
+          description: `Events on the ${calendarId} calendar for the next 7 days. Subscribe to be notified when events change.`,
+          mimeType: 'application/json',
+        },
+        async uri => {
+          const gcalService = createGCalendarServiceFromSession(sessionId);
+          const now = new Date();
+          const events = await gcalService.listEvents({
+            calendarId,
+            timeMin: now.toISOString(),
+            timeMax: new Date(
+              now.getTime() + 7 * 24 * 60 * 60 * 1000
+            ).toISOString(),
+            maxResults: 50,
+          });
+          return {
+            contents: [
+              {
+                uri: uri.href,
+                mimeType: 'application/json',
+                text: JSON.stringify(events, null, 2),
+              },
+            ],
+          };
+        }
+      );
+    }
+
+    // Poll subscribed resources in the background and notify on changes
+    const watcher = new ResourceWatcher({
+      pollIntervalSeconds: config.watch.pollIntervalSeconds,
+      resourceUris: [
+        ...gmailLabels.map(gmailLabelUri),
+        ...calendarIds.map(calendarEventsUri),
+      ],
+      getGmailService: () => createGmailServiceFromSession(sessionId),
+      getCalendarService: () => createGCalendarServiceFromSession(sessionId),
+      notify: uri => server.server.sendResourceUpdated({ uri }),
+    });
+    sessionWatchers[sessionId] = watcher;
+
+    server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+      await watcher.subscribe(request.params.uri);
+      return {};
+    });
+
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+      watcher.unsubscribe(request.params.uri);
+      return {};
+    });
+
+    return server;
+  }
+
+  // Server-managed OAuth, enabled when a Google OAuth client is configured
+  private createOAuthService(
+    port: number,
+    tokenStorePath = config.auth.tokenStorePath
+  ): OAuthService | undefined {
+    const { auth } = config;
+    if (!auth.clientId || !auth.clientSecret) {
+      return undefined;
+    }
+    if (!auth.tokenEncryptionKey) {
+      throw new Error(
+        'TOKEN_ENCRYPTION_KEY is required when GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET are set'
+      );
+    }
+    return new OAuthService({
+      clientId: auth.clientId,
+      clientSecret: auth.clientSecret,
+      redirectUri:
+        auth.redirectUri ||
+        `${config.server.publicUrl || `http://localhost:${port}`}/oauth/callback`,
+      scopes: auth.scopes,
+      tokenStore: new FileTokenStore(tokenStorePath, auth.tokenEncryptionKey),
+    });
+  }
+
+  async run(port = config.server.port) {
+    const app = express();
+    app.use(express.json());
+
+    // Map to store transports by session ID for stateful connections
     const transports: { [sessionId: string]: StreamableHTTPServerTransport } =
       {};
 
@@ -520,8 +2532,186 @@ class McpServerApp {
       res.json({ status: 'ok', service: 'mcp-google-assistant-server' });
     });
 
+    const oauthService = this.createOAuthService(port);
+
+    // Base URL that clients reach the server at
+    const baseUrl = (req: express.Request): string =>
+      config.server.publicUrl || `${req.protocol}://${req.get('host')}`;
+
+    // Answer with 401 and a challenge pointing to the resource metadata
+    const sendUnauthorized = (
+      req: express.Request,
+      res: express.Response,
+      message: string,
+      error?: 'invalid_token'
+    ): void => {
+      res.setHeader(
+        'WWW-Authenticate',
+        buildAuthChallenge(
+          `${baseUrl(req)}/.well-known/oauth-protected-resource`,
+          error,
+          error ? message : undefined
+        )
+      );
+      sendJsonRpcError(res, 401, -32001, `Unauthorized: ${message}`);
+    };
+
+    // Introspect a token. Resolves to null after answering 401 when the token
+    // is invalid or expired, and to undefined when Google could not be
+    // reached, which should not block the session.
+    const checkToken = async (
+      req: express.Request,
+      res: express.Response,
+      token: string
+    ): Promise<AccessTokenInfo | null | undefined> => {
+      if (isApiKey(token)) {
+        const info = await oauthService?.describe(token);
+        if (!info) {
+          sendUnauthorized(req, res, 'Unknown API key', 'invalid_token');
+          return null;
+        }
+        return info;
+      }
+      try {
+        return await introspectAccessToken(token);
+      } catch (error) {
+        if (error instanceof AuthServiceError && error.statusCode === 401) {
+          sendUnauthorized(req, res, error.message, 'invalid_token');
+          return null;
+        }
+        logger.warn('Token introspection failed, offering all tools', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return undefined;
+      }
+    };
+
+    // Sessions that authenticate with an API key use its stored refresh
+    // token; other sessions build their clients from the access token
+    const useSessionCredentials = async (
+      sessionId: string,
+      token: string
+    ): Promise<void> => {
+      const authClient = isApiKey(token)
+        ? await oauthService?.getClient(token)
+        : undefined;
+      const services = sessionServices[sessionId];
+      if (services) {
+        services.useCredentials(token, authClient);
+      } else if (authClient) {
+        sessionServices[sessionId] = new SessionServices('', {
+          skipSslVerification: true,
+          authClient,
+        });
+      }
+    };
+
+    // OAuth 2.0 Protected Resource Metadata (RFC 9728), at the well-known
+    // root and at the path of the MCP endpoint
+    const sendResourceMetadata = (
+      req: express.Request,
+      res: express.Response
+    ) => {
+      res.json(
+        buildProtectedResourceMetadata(
+          `${baseUrl(req)}/mcp`,
+          config.auth.authorizationServer,
+          config.auth.scopes
+        )
+      );
+    };
+    app.get('/.well-known/oauth-protected-resource', sendResourceMetadata);
+    app.get('/.well-known/oauth-protected-resource/mcp', sendResourceMetadata);
+
+    if (oauthService) {
+      // Send the user to Google's consent screen
+      app.get('/oauth/start', async (req, res) => {
+        try {
+          res.redirect(await oauthService.startAuthorization());
+        } catch (error) {
+          res.status(500).json({
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      });
+
+      // Exchange the code and issue an API key for the stored refresh token
+      app.get('/oauth/callback', async (req, res) => {
+        res.setHeader('Cache-Control', 'no-store');
+        const { code, state, error } = req.query;
+        if (typeof error === 'string') {
+          res.status(400).json({ error: `Authorization failed: ${error}` });
+          return;
+        }
+        if (typeof code !== 'string' || typeof state !== 'string') {
+          res.status(400).json({ error: 'Missing code or state parameter' });
+          return;
+        }
+
+        try {
+          const result = await oauthService.completeAuthorization(code, state);
+          res.json({
+            ...result,
+            usage: `Send "Authorization: Bearer ${result.apiKey}" to /mcp. The key is shown only once.`,
+          });
+        } catch (error) {
+          if (error instanceof AuthServiceError) {
+            res
+              .status(error.statusCode || 400)
+              .json({ error: error.message, code: error.code });
+            return;
+          }
+          res.status(500).json({
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      });
+
+      // Revoke the API key sent as Bearer token and end its sessions
+      app.post('/oauth/revoke', async (req, res) => {
+        const token = extractBearerToken(req.headers);
+        if (!token || !isApiKey(token)) {
+          res.status(400).json({
+            error:
+              'Send the API key to revoke as "Authorization: Bearer <apiKey>"',
+          });
+          return;
+        }
+
+        try {
+          if (!(await oauthService.revoke(token))) {
+            res.status(404).json({ error: 'Unknown API key' });
+            return;
+          }
+          for (const [sessionId, cached] of Object.entries(sessionTokens)) {
+            if (cached.token === token) {
+              await transports[sessionId]?.close();
+            }
+          }
+          res.json({ revoked: true });
+        } catch (error) {
+          res.status(500).json({
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      });
+    }
+
+    // Every MCP request must carry a Bearer token
+    const requireBearerToken: express.RequestHandler = (req, res, next) => {
+      if (!extractBearerToken(req.headers)) {
+        sendUnauthorized(
+          req,
+          res,
+          'Missing or invalid Authorization header. Expected format: "Authorization: Bearer <access_token>"'
+        );
+        return;
+      }
+      next();
+    };
+
     // Handle POST requests for client-to-server communication
-    app.post('/mcp', async (req, res) => {
+    app.post('/mcp', requireBearerToken, async (req, res) => {
       try {
         // Check for existing session ID
         const sessionId = req.headers['mcp-session-id'] as string | undefined;
@@ -531,12 +2721,51 @@ class McpServerApp {
         if (sessionId && transports[sessionId]) {
           // Reuse existing transport
           transport = transports[sessionId];
+
+          // Tokens are introspected again when the client switches tokens
+          const token = extractBearerToken(req.headers)!;
+          if (sessionCheckedTokens[sessionId] !== token) {
+            const tokenInfo = await checkToken(req, res, token);
+            if (tokenInfo === null) {
+              return;
+            }
+            sessionCheckedTokens[sessionId] = token;
+            if (tokenInfo) {
+              sessionTokens[sessionId] = { token, info: tokenInfo };
+              sessionToolAccess[sessionId]?.(tokenInfo);
+            }
+            await useSessionCredentials(sessionId, token);
+          } else {
+            const cached = sessionTokens[sessionId];
+            if (
+              cached?.token === token &&
+              !cached.info.refreshable &&
+              cached.info.expiresAt <= Date.now()
+            ) {
+              sendUnauthorized(
+                req,
+                res,
+                'The access token has expired',
+                'invalid_token'
+              );
+              return;
+            }
+          }
           // Update session headers with current request headers
           sessionHeaders[sessionId] = req.headers;
         } else if (!sessionId && isInitializeRequest(req.body)) {
           // New initialization request
           const newSessionId = randomUUID();
 
+          // Introspect the token once, so that invalid or expired tokens are
+          // rejected and only the tools its scopes allow are offered
+          const token = extractBearerToken(req.headers)!;
+          const tokenInfo = await checkToken(req, res, token);
+          if (tokenInfo === null) {
+            return;
+          }
+          await useSessionCredentials(newSessionId, token);
+
           transport = new StreamableHTTPServerTransport({
             sessionIdGenerator: () => newSessionId,
             onsessioninitialized: sessionId => {
@@ -544,19 +2773,30 @@ class McpServerApp {
               transports[sessionId] = transport;
               // Store headers for this session
               sessionHeaders[sessionId] = req.headers;
+              sessionCheckedTokens[sessionId] = token;
+              if (tokenInfo) {
+                sessionTokens[sessionId] = { token, info: tokenInfo };
+              }
             },
           });
 
           // Clean up transport when closed
           transport.onclose = () => {
             if (transport.sessionId) {
+              sessionWatchers[transport.sessionId]?.stop();
+              delete sessionWatchers[transport.sessionId];
+              sessionServices[transport.sessionId]?.close();
+              delete sessionServices[transport.sessionId];
+              delete sessionTokens[transport.sessionId];
+              delete sessionCheckedTokens[transport.sessionId];
+              delete sessionToolAccess[transport.sessionId];
               delete transports[transport.sessionId];
               delete sessionHeaders[transport.sessionId];
             }
           };
 
           // Create new server instance with session ID
-          server = this.createServer(newSessionId);
+          server = this.createServer(newSessionId, tokenInfo);
 
           // Connect to the MCP server
           await server.connect(transport);
@@ -609,22 +2849,26 @@ class McpServerApp {
     };
 
     // Handle GET requests for server-to-client notifications via SSE
-    app.get('/mcp', handleSessionRequest);
+    app.get('/mcp', requireBearerToken, handleSessionRequest);
 
     // Handle DELETE requests for session termination
-    app.delete('/mcp', handleSessionRequest);
+    app.delete('/mcp', requireBearerToken, handleSessionRequest);
 
     // Start the server
-    app.listen(config.server.port, '0.0.0.0', () => {
-      logger.info(
-        `MCP Google Assistant Server running on http://0.0.0.0:${config.server.port}`
-      );
+    app.listen(port, '0.0.0.0', () => {
       logger.info(
-        `Health check available at http://0.0.0.0:${config.server.port}/health`
+        `MCP Google Assistant Server running on http://0.0.0.0:${port}`
       );
+      logger.info(`Health check available at http://0.0.0.0:${port}/health`);
+      logger.info(`MCP endpoint available at http://0.0.0.0:${port}/mcp`);
       logger.info(
-        `MCP endpoint available at http://0.0.0.0:${config.server.port}/mcp`
+        `OAuth resource metadata available at http://0.0.0.0:${port}/.well-known/oauth-protected-resource`
       );
+      if (oauthService) {
+        logger.info(
+          `Server-managed OAuth available at http://0.0.0.0:${port}/oauth/start`
+        );
+      }
       logger.info('');
       logger.info('📧 Gmail MCP Server ready!');
       logger.info('');
@@ -639,18 +2883,75 @@ class McpServerApp {
         '  - gmail-search-emails: Search emails using Gmail query syntax'
       );
       logger.info(
-        '  - datetime_converter: Convert date-time strings to different formats'
+        '  - gmail-list-changes: List mailbox changes since a history checkpoint'
+      );
+      logger.info(
+        '  - gmail-get-thread: Get a conversation with quoted history removed'
+      );
+      logger.info(
+        '  - gmail-get-attachment: Download an email attachment or extract its text'
+      );
+      logger.info('  - gmail-send-email: Send an email with attachments');
+      logger.info('  - gmail-reply: Reply or reply all within the thread');
+      logger.info('  - gmail-forward: Forward an email with its attachments');
+      logger.info(
+        '  - gmail-create-draft / gmail-update-draft / gmail-list-drafts / gmail-get-draft / gmail-send-draft / gmail-delete-draft: Manage drafts'
+      );
+      logger.info(
+        '  - gmail-list-labels / gmail-create-label / gmail-delete-label: Manage labels'
+      );
+      logger.info(
+        '  - gmail-modify-message: Label, mark read, star, archive or trash an email'
+      );
+      logger.info(
+        '  - gmail-bulk-modify: Modify all emails matching a query, with dry-run preview'
+      );
+      logger.info(
+        '  - whoami: Show the signed-in account, token expiry and available tools'
+      );
+      logger.info(
+        '  - datetime_converter: Resolve natural-language and relative date-times in a time zone'
       );
       logger.info('  - gcalendar-list-calendars: Get a list of all calendars');
       logger.info(
         '  - gcalendar-list-events: Get a list of events from a calendar'
       );
+      logger.info(
+        '  - gcalendar-agenda: Merged agenda across calendars with conflict flags'
+      );
+      logger.info(
+        '  - gcalendar-sync-events: Get events changed since the last sync'
+      );
+      logger.info(
+        '  - gcalendar-list-instances: List the occurrences of a recurring event'
+      );
       logger.info(
         '  - gcalendar-create-event: Create a new event in a calendar'
       );
+      logger.info(
+        '  - gcalendar-update-event: Update only the given fields of an event'
+      );
+      logger.info(
+        '  - gcalendar-delete-event: Cancel an event or part of a recurring series'
+      );
+      logger.info(
+        '  - gcalendar-respond-to-event: Accept, tentatively accept or decline an invitation'
+      );
+      logger.info(
+        '  - gcalendar-export-ics: Export events as an iCalendar file'
+      );
+      logger.info(
+        '  - gcalendar-import-ics: Import events from iCalendar text or an emailed invite'
+      );
       logger.info(
         '  - gcalendar-decline-event: Decline an invitation to an event'
       );
+      logger.info(
+        '  - gcalendar-freebusy: Get busy blocks for calendars or attendees'
+      );
+      logger.info(
+        '  - gcalendar-find-free-slots: Find ranked meeting slots across attendees'
+      );
       logger.info('');
       logger.info(
         'Authentication: Include "Authorization: Bearer <access_token>" header'
@@ -660,17 +2961,111 @@ class McpServerApp {
       );
     });
   }
+
+  /**
+   * Serve a single session over stdin/stdout for desktop clients that start
+   * the server as a subprocess. The token comes from the environment instead
+   * of request headers: a Google access token, or an API key whose refresh
+   * token is read from the token store.
+   */
+  async runStdio(options: { tokenEnv: string; tokenStore?: string }) {
+    const token = process.env[options.tokenEnv];
+    if (!token) {
+      throw new Error(
+        `Set ${options.tokenEnv} to a Google OAuth2 access token or a server-issued API key`
+      );
+    }
+
+    const sessionId = randomUUID();
+    sessionHeaders[sessionId] = { authorization: `Bearer ${token}` };
+
+    let tokenInfo: AccessTokenInfo | undefined;
+    if (isApiKey(token)) {
+      const oauthService = this.createOAuthService(
+        config.server.port,
+        options.tokenStore
+      );
+      if (!oauthService) {
+        throw new Error(
+          'API keys need GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET and TOKEN_ENCRYPTION_KEY to refresh access tokens'
+        );
+      }
+      const authClient = await oauthService.getClient(token);
+      tokenInfo = await oauthService.describe(token);
+      if (!authClient || !tokenInfo) {
+        throw new Error(
+          `The API key in ${options.tokenEnv} is not in the token store`
+        );
+      }
+      sessionServices[sessionId] = new SessionServices('', {
+        skipSslVerification: true,
+        authClient,
+      });
+    } else {
+      try {
+        tokenInfo = await introspectAccessToken(token);
+      } catch (error) {
+        if (error instanceof AuthServiceError && error.statusCode === 401) {
+          throw error;
+        }
+        logger.warn('Token introspection failed, offering all tools', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    if (tokenInfo) {
+      sessionTokens[sessionId] = { token, info: tokenInfo };
+    }
+
+    const server = this.createServer(sessionId, tokenInfo);
+    const transport = new StdioServerTransport();
+    transport.onclose = () => {
+      sessionWatchers[sessionId]?.stop();
+      delete sessionWatchers[sessionId];
+      sessionServices[sessionId]?.close();
+      delete sessionServices[sessionId];
+    };
+    await server.connect(transport);
+
+    // The client ends the session by closing stdin
+    process.stdin.on('end', () => void server.close());
+    logger.info('MCP Google Assistant Server running on stdio');
+  }
+}
+
+// Parse command line options
+let cliOptions: CliOptions;
+try {
+  cliOptions = parseCliOptions(process.argv.slice(2));
+} catch (error) {
+  console.error(
+    `${error instanceof Error ? error.message : String(error)}\n\n${CLI_USAGE}`
+  );
+  process.exit(1);
+}
+if (cliOptions.help) {
+  console.log(CLI_USAGE);
+  process.exit(0);
+}
+
+// Keep stdout free for protocol messages in stdio mode
+if (cliOptions.transport === 'stdio') {
+  logToStderr();
 }
 
 // Start the server
 const server = new McpServerApp();
-server.run().catch(error => {
+const started =
+  cliOptions.transport === 'stdio'
+    ? server.runStdio(cliOptions)
+    : server.run(cliOptions.port);
+started.catch(error => {
   console.error('Failed to start server:', error);
   process.exit(1);
 });
 
 // Handle server shutdown
 process.on('SIGINT', async () => {
-  console.log('Shutting down server...');
+  logger.info('Shutting down server...');
   process.exit(0);
 });
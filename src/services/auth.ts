@@ -0,0 +1,159 @@
+import { OAuth2Client } from 'google-auth-library';
+import type { AccessTokenInfo, Capability } from '@services/types';
+
+const GMAIL_SCOPE = 'https://www.googleapis.com/auth/gmail';
+const CALENDAR_SCOPE = 'https://www.googleapis.com/auth/calendar';
+const FULL_MAIL_SCOPE = 'https://mail.google.com/';
+
+// Scopes that grant each capability; any one of them is enough
+export const CAPABILITY_SCOPES: Record<Capability, string[]> = {
+  'gmail.read': [
+    FULL_MAIL_SCOPE,
+    `${GMAIL_SCOPE}.modify`,
+    `${GMAIL_SCOPE}.readonly`,
+  ],
+  'gmail.send': [
+    FULL_MAIL_SCOPE,
+    `${GMAIL_SCOPE}.modify`,
+    `${GMAIL_SCOPE}.compose`,
+    `${GMAIL_SCOPE}.send`,
+  ],
+  'gmail.compose': [
+    FULL_MAIL_SCOPE,
+    `${GMAIL_SCOPE}.modify`,
+    `${GMAIL_SCOPE}.compose`,
+  ],
+  'gmail.modify': [FULL_MAIL_SCOPE, `${GMAIL_SCOPE}.modify`],
+  'gmail.labels': [
+    FULL_MAIL_SCOPE,
+    `${GMAIL_SCOPE}.modify`,
+    `${GMAIL_SCOPE}.labels`,
+  ],
+  'calendar.read': [
+    CALENDAR_SCOPE,
+    `${CALENDAR_SCOPE}.readonly`,
+    `${CALENDAR_SCOPE}.events`,
+    `${CALENDAR_SCOPE}.events.readonly`,
+  ],
+  'calendar.write': [CALENDAR_SCOPE, `${CALENDAR_SCOPE}.events`],
+  'calendar.list': [
+    CALENDAR_SCOPE,
+    `${CALENDAR_SCOPE}.readonly`,
+    `${CALENDAR_SCOPE}.calendarlist`,
+    `${CALENDAR_SCOPE}.calendarlist.readonly`,
+  ],
+  'calendar.freebusy': [
+    CALENDAR_SCOPE,
+    `${CALENDAR_SCOPE}.readonly`,
+    `${CALENDAR_SCOPE}.freebusy`,
+    `${CALENDAR_SCOPE}.events.freebusy`,
+  ],
+};
+
+export class AuthServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly statusCode?: number
+  ) {
+    super(message);
+    this.name = 'AuthServiceError';
+  }
+}
+
+/**
+ * Work out which capabilities a set of OAuth scopes grants
+ * @param scopes - Granted scope URLs
+ */
+export function capabilitiesForScopes(scopes: string[]): Capability[] {
+  return (Object.keys(CAPABILITY_SCOPES) as Capability[]).filter(capability =>
+    CAPABILITY_SCOPES[capability].some(scope => scopes.includes(scope))
+  );
+}
+
+/**
+ * Look up an access token with Google's tokeninfo endpoint
+ * @param accessToken - Google OAuth2 access token
+ * @returns Promise containing the token's expiry, scopes and capabilities
+ * @throws AuthServiceError with status 401 when the token is invalid or
+ *   expired, or 502 when Google could not be reached
+ */
+export async function introspectAccessToken(
+  accessToken: string
+): Promise<AccessTokenInfo> {
+  let info;
+  try {
+    info = await new OAuth2Client().getTokenInfo(accessToken);
+  } catch (error: any) {
+    const status = error?.response?.status;
+    if (status === 400 || status === 401) {
+      throw new AuthServiceError(
+        'The access token is invalid or has expired',
+        'INVALID_TOKEN',
+        401
+      );
+    }
+    throw new AuthServiceError(
+      `Failed to introspect the access token: ${error?.message || 'Unknown error'}`,
+      'INTROSPECTION_FAILED',
+      502
+    );
+  }
+
+  if (info.expiry_date <= Date.now()) {
+    throw new AuthServiceError(
+      'The access token has expired',
+      'TOKEN_EXPIRED',
+      401
+    );
+  }
+
+  return {
+    email: info.email,
+    scopes: info.scopes,
+    expiresAt: info.expiry_date,
+    capabilities: capabilitiesForScopes(info.scopes),
+  };
+}
+
+/**
+ * Build OAuth 2.0 Protected Resource Metadata (RFC 9728) for the MCP endpoint
+ * @param resource - URL of the protected resource, e.g. "https://host/mcp"
+ * @param authorizationServer - Issuer URL of the authorization server
+ * @param scopes - Scopes clients should request
+ */
+export function buildProtectedResourceMetadata(
+  resource: string,
+  authorizationServer: string,
+  scopes: string[]
+): Record<string, unknown> {
+  return {
+    resource,
+    authorization_servers: [authorizationServer],
+    scopes_supported: scopes,
+    bearer_methods_supported: ['header'],
+    resource_name: 'MCP Google Assistant',
+  };
+}
+
+/**
+ * Build a WWW-Authenticate challenge (RFC 6750) pointing to the resource
+ * metadata
+ * @param resourceMetadataUrl - URL of the protected resource metadata
+ * @param error - OAuth error code, omitted when no token was sent
+ * @param description - Human-readable error description
+ */
+export function buildAuthChallenge(
+  resourceMetadataUrl: string,
+  error?: 'invalid_token' | 'insufficient_scope',
+  description?: string
+): string {
+  const params = [`resource_metadata="${resourceMetadataUrl}"`];
+  if (error) {
+    params.push(`error="${error}"`);
+  }
+  if (description) {
+    params.push(`error_description="${description.replace(/["\\]/g, '')}"`);
+  }
+  return `Bearer ${params.join(', ')}`;
+}
@@ -0,0 +1,93 @@
+import { GCalendarService } from './gcalendar';
+
+// GCalendarService with its Calendar client replaced by stubs
+function createService(events: Record<string, jest.Mock>): GCalendarService {
+  const service = new GCalendarService('test-token');
+  (service as any).calendar = { events };
+  return service;
+}
+
+describe('GCalendarService.updateEvent', () => {
+  const current = {
+    id: 'event1',
+    summary: 'Planning',
+    start: {
+      dateTime: '2026-03-06T09:00:00-05:00',
+      timeZone: 'America/New_York',
+    },
+    end: {
+      dateTime: '2026-03-06T10:30:00-05:00',
+      timeZone: 'America/New_York',
+    },
+  };
+
+  function setup() {
+    const patch = jest.fn(async ({ requestBody }) => ({
+      data: { ...current, ...requestBody },
+    }));
+    const service = createService({
+      get: jest.fn().mockResolvedValue({ data: current }),
+      patch,
+    });
+    return { service, patch };
+  }
+
+  it('keeps the duration when a start without offset moves', async () => {
+    const { service, patch } = setup();
+    await service.updateEvent({
+      eventId: 'event1',
+      // Wall-clock time in the event's time zone, after the DST change
+      start: { dateTime: '2026-03-09T09:00:00', timeZone: 'America/New_York' },
+    });
+
+    expect(patch.mock.calls[0][0].requestBody.end).toEqual({
+      dateTime: '2026-03-09T10:30:00-04:00',
+      timeZone: 'America/New_York',
+    });
+  });
+
+  it('keeps the duration when a start with offset moves', async () => {
+    const { service, patch } = setup();
+    await service.updateEvent({
+      eventId: 'event1',
+      start: { dateTime: '2026-03-10T15:00:00Z' },
+    });
+
+    expect(patch.mock.calls[0][0].requestBody.end).toEqual({
+      dateTime: '2026-03-10T12:30:00-04:00',
+      timeZone: 'America/New_York',
+    });
+  });
+});
+
+describe('GCalendarService.hasEventChanges', () => {
+  it('asks for a single event changed since the given time', async () => {
+    const list = jest.fn().mockResolvedValue({ data: { items: [] } });
+    const service = createService({ list });
+
+    await expect(
+      service.hasEventChanges({
+        calendarId: 'primary',
+        updatedMin: '2026-10-19T12:00:00.000Z',
+      })
+    ).resolves.toBe(false);
+    expect(list.mock.calls[0][0]).toEqual({
+      calendarId: 'primary',
+      updatedMin: '2026-10-19T12:00:00.000Z',
+      showDeleted: true,
+      maxResults: 1,
+    });
+  });
+
+  it('reports a change when the time is too far back to check', async () => {
+    const service = createService({
+      list: jest.fn().mockRejectedValue({ response: { status: 410 } }),
+    });
+    await expect(
+      service.hasEventChanges({
+        calendarId: 'primary',
+        updatedMin: '2026-01-01T00:00:00.000Z',
+      })
+    ).resolves.toBe(true);
+  });
+});
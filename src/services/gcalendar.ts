@@ -4,12 +4,44 @@ import { z } from 'zod';
 import type {
   CalendarListEntry,
   EventListOptions,
+  EventListResponse,
   CreateEventOptions,
+  UpdateEventOptions,
+  EventInstancesOptions,
+  DeleteEventOptions,
+  DeleteEventResult,
+  RespondToEventOptions,
+  FreeBusyOptions,
+  FreeBusyResponse,
+  FindFreeSlotsOptions,
+  FreeSlotsResponse,
   CalendarEvent,
+  ConferenceInfo,
+  ConferenceEntryPoint,
+  EventSyncOptions,
+  EventSyncResponse,
+  EventChangesOptions,
+  AgendaOptions,
+  AgendaResponse,
+  ExportIcsOptions,
+  IcsExport,
+  ImportIcsOptions,
+  IcsImportResult,
 } from '@services/types';
 import { GaxiosOptions } from 'gaxios';
 import https from 'https';
+import { randomUUID } from 'node:crypto';
 import logger from '@/utils/logger';
+import { findRecurrenceErrors, normalizeRecurrence } from '@/utils/recurrence';
+import { AgendaSource, buildAgenda } from '@/utils/agenda';
+import { IcsEvent, parseIcs } from '@/utils/ics-parser';
+import { serializeIcs } from '@/utils/ics-serializer';
+import { findFreeSlots } from '@/utils/slots';
+import {
+  formatRfc3339,
+  isValidTimeZone,
+  parseZonedDateTime,
+} from '@/utils/timezone';
 import { GmailServiceOptions } from './gmail';
 
 // Validation schemas
@@ -39,11 +71,136 @@ export const CreateEventOptionsSchema = z.object({
   end: EventDateTimeSchema,
   attendees: z.array(z.string().email()).optional(),
   sendNotifications: z.boolean().optional(),
+  recurrence: z.array(z.string()).min(1).optional(),
+  optionalAttendees: z.array(z.string().email()).optional(),
+  createMeetLink: z.boolean().optional(),
+  reminders: z
+    .object({
+      useDefault: z.boolean(),
+      overrides: z
+        .array(
+          z.object({
+            method: z.enum(['email', 'popup']),
+            minutes: z.number().int().min(0).max(40320),
+          })
+        )
+        .max(5)
+        .optional(),
+    })
+    .optional(),
+  colorId: z
+    .string()
+    .regex(/^([1-9]|1[01])$/)
+    .optional(),
+  visibility: z
+    .enum(['default', 'public', 'private', 'confidential'])
+    .optional(),
+  transparency: z.enum(['opaque', 'transparent']).optional(),
+  guestsCanModify: z.boolean().optional(),
+  guestsCanInviteOthers: z.boolean().optional(),
+  guestsCanSeeOtherGuests: z.boolean().optional(),
 });
 
-export const DeclineEventOptionsSchema = z.object({
+export const UpdateEventOptionsSchema = z.object({
   calendarId: z.string().default('primary'),
   eventId: z.string(),
+  summary: z.string().optional(),
+  description: z.string().optional(),
+  location: z.string().optional(),
+  start: EventDateTimeSchema.optional(),
+  end: EventDateTimeSchema.optional(),
+  attendees: z.array(z.string().email()).optional(),
+  addAttendees: z.array(z.string().email()).optional(),
+  removeAttendees: z.array(z.string().email()).optional(),
+  recurrence: z.array(z.string()).min(1).optional(),
+  sendUpdates: z.enum(['all', 'externalOnly', 'none']).optional(),
+});
+
+export const EventInstancesOptionsSchema = z.object({
+  calendarId: z.string().default('primary'),
+  eventId: z.string(),
+  timeMin: z.string().optional(),
+  timeMax: z.string().optional(),
+  maxResults: z.number().min(1).max(2500).optional(),
+  pageToken: z.string().optional(),
+  showDeleted: z.boolean().optional(),
+});
+
+export const DeleteEventOptionsSchema = z.object({
+  calendarId: z.string().default('primary'),
+  eventId: z.string(),
+  scope: z.enum(['instance', 'following', 'series']).optional(),
+  sendUpdates: z.enum(['all', 'externalOnly', 'none']).optional(),
+});
+
+export const RespondToEventOptionsSchema = z.object({
+  calendarId: z.string().default('primary'),
+  eventId: z.string(),
+  response: z.enum(['accepted', 'tentative', 'declined']),
+  comment: z.string().optional(),
+  allInstances: z.boolean().optional(),
+});
+
+export const FreeBusyOptionsSchema = z.object({
+  calendarIds: z.array(z.string()).min(1).max(50),
+  timeMin: z.string(),
+  timeMax: z.string(),
+  timeZone: z.string().optional(),
+});
+
+export const WorkingHoursSchema = z.object({
+  start: z.string().regex(/^([01]?\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm'),
+  end: z.string().regex(/^(([01]?\d|2[0-3]):[0-5]\d|24:00)$/, 'Expected HH:mm'),
+  days: z.array(z.number().int().min(0).max(6)).optional(),
+  timeZone: z.string().optional(),
+});
+
+export const FindFreeSlotsOptionsSchema = z.object({
+  attendees: z.array(z.string()).max(49),
+  includeSelf: z.boolean().optional(),
+  timeMin: z.string(),
+  timeMax: z.string(),
+  durationMinutes: z.number().int().min(5).max(1440),
+  timeZone: z.string().optional(),
+  workingHours: WorkingHoursSchema.optional(),
+  attendeeWorkingHours: z.record(WorkingHoursSchema).optional(),
+  bufferBeforeMinutes: z.number().int().min(0).max(240).optional(),
+  bufferAfterMinutes: z.number().int().min(0).max(240).optional(),
+  stepMinutes: z.number().int().min(5).max(240).optional(),
+  maxSlots: z.number().int().min(1).max(50).optional(),
+});
+
+export const AgendaOptionsSchema = z.object({
+  calendarIds: z.array(z.string()).min(1).max(50).optional(),
+  timeMin: z.string(),
+  timeMax: z.string(),
+  timeZone: z.string().optional(),
+  includeDeclined: z.boolean().optional(),
+  maxEventsPerCalendar: z.number().min(1).max(2500).optional(),
+});
+
+export const ExportIcsOptionsSchema = z.object({
+  calendarId: z.string().default('primary'),
+  eventId: z.string().optional(),
+  timeMin: z.string().optional(),
+  timeMax: z.string().optional(),
+  maxEvents: z.number().min(1).max(2500).optional(),
+});
+
+export const ImportIcsOptionsSchema = z.object({
+  calendarId: z.string().default('primary'),
+  ics: z.string().min(1),
+});
+
+export const EventSyncOptionsSchema = z.object({
+  calendarId: z.string().default('primary'),
+  syncToken: z.string().optional(),
+  maxEvents: z.number().min(1).max(2500).optional(),
+});
+
+export const EventChangesOptionsSchema = z.object({
+  calendarId: z.string().default('primary'),
+  updatedMin: z.string(),
 });
 
 export class GCalendarServiceError extends Error {
@@ -62,24 +219,37 @@ export class GCalendarService {
   private oauth2Client!: OAuth2Client;
   private accessToken: string;
   private skipSslVerification: boolean;
+  private agent?: https.Agent;
+  private authClient?: OAuth2Client;
 
   constructor(accessToken: string, options: GmailServiceOptions = {}) {
-    if (!accessToken) {
+    if (!accessToken && !options.authClient) {
       throw new GCalendarServiceError(
         'Access token is required',
         'MISSING_ACCESS_TOKEN'
       );
     }
     this.accessToken = accessToken;
+    this.authClient = options.authClient;
     this.skipSslVerification = options.skipSslVerification ?? false;
+    this.agent =
+      options.agent ??
+      (this.skipSslVerification
+        ? new https.Agent({ rejectUnauthorized: false })
+        : undefined);
     this.initializeCalendarClient();
   }
 
   private initializeCalendarClient(): void {
-    this.oauth2Client = new OAuth2Client();
-    this.oauth2Client.setCredentials({
-      access_token: this.accessToken,
-    });
+    // A client with a refresh token renews its access token on its own
+    if (this.authClient) {
+      this.oauth2Client = this.authClient;
+    } else {
+      this.oauth2Client = new OAuth2Client();
+      this.oauth2Client.setCredentials({
+        access_token: this.accessToken,
+      });
+    }
 
     if (this.skipSslVerification) {
       logger.warn(
@@ -90,6 +260,7 @@ export class GCalendarService {
     this.calendar = google.calendar({
       version: 'v3',
       auth: this.oauth2Client,
+      agent: this.agent,
     });
   }
 
@@ -100,8 +271,9 @@ export class GCalendarService {
         'MISSING_ACCESS_TOKEN'
       );
     }
+    // Only the credentials change; the client and its connections are kept
     this.accessToken = accessToken;
-    this.initializeCalendarClient();
+    this.oauth2Client.setCredentials({ access_token: accessToken });
   }
 
   static fromBearerToken(
@@ -126,10 +298,17 @@ export class GCalendarService {
     return new GCalendarService(token, options);
   }
 
+  static fromAuthClient(
+    authClient: OAuth2Client,
+    options: GmailServiceOptions = {}
+  ): GCalendarService {
+    return new GCalendarService('', { ...options, authClient });
+  }
+
   private getRequestOptions(): GaxiosOptions {
     const options: GaxiosOptions = {};
-    if (this.skipSslVerification) {
-      options.agent = new https.Agent({ rejectUnauthorized: false });
+    if (this.agent) {
+      options.agent = this.agent;
     }
     return options;
   }
@@ -155,11 +334,10 @@ export class GCalendarService {
     }
   }
 
-  async listEvents(
-    options: EventListOptions
-  ): Promise<{ events: CalendarEvent[]; nextPageToken?: string }> {
+  async listEvents(options: EventListOptions): Promise<EventListResponse> {
     try {
       EventListOptionsSchema.parse(options);
+      const singleEvents = options.singleEvents ?? true;
       const requestParams = {
         calendarId: options.calendarId,
         maxResults: options.maxResults,
@@ -167,8 +345,9 @@ export class GCalendarService {
         timeMin: options.timeMin,
         timeMax: options.timeMax,
         q: options.query,
-        singleEvents: options.singleEvents ?? true,
-        orderBy: options.orderBy ?? 'startTime',
+        singleEvents,
+        // Ordering by start time is only supported for expanded events
+        orderBy: options.orderBy ?? (singleEvents ? 'startTime' : undefined),
       };
 
       const response = await this.calendar.events.list(
@@ -193,22 +372,185 @@ export class GCalendarService {
     }
   }
 
+  async listInstances(
+    options: EventInstancesOptions
+  ): Promise<EventListResponse> {
+    try {
+      EventInstancesOptionsSchema.parse(options);
+      const response = await this.calendar.events.instances(
+        {
+          calendarId: options.calendarId || 'primary',
+          eventId: options.eventId,
+          timeMin: options.timeMin,
+          timeMax: options.timeMax,
+          maxResults: options.maxResults,
+          pageToken: options.pageToken,
+          showDeleted: options.showDeleted,
+        },
+        this.getRequestOptions()
+      );
+
+      return {
+        events: (response.data.items || []).map(item =>
+          this.parseCalendarEvent(item)
+        ),
+        nextPageToken: response.data.nextPageToken || undefined,
+      };
+    } catch (error: any) {
+      return this.handleCalendarError(error, 'Failed to list instances');
+    }
+  }
+
+  async syncEvents(options: EventSyncOptions): Promise<EventSyncResponse> {
+    try {
+      EventSyncOptionsSchema.parse(options);
+      const maxEvents = options.maxEvents ?? 250;
+
+      const runSync = async (
+        syncToken?: string
+      ): Promise<EventSyncResponse> => {
+        const events: CalendarEvent[] = [];
+        const cancelledEventIds: string[] = [];
+        let pageToken: string | undefined;
+        let nextSyncToken: string | undefined;
+        let truncated = false;
+
+        // A sync token is only returned on the last page, so read them all
+        do {
+          const response = await this.calendar.events.list(
+            {
+              calendarId: options.calendarId,
+              syncToken,
+              pageToken,
+              maxResults: 2500,
+              singleEvents: true,
+              showDeleted: syncToken !== undefined,
+            },
+            this.getRequestOptions()
+          );
+
+          for (const item of response.data.items || []) {
+            if (item.status === 'cancelled') {
+              cancelledEventIds.push(item.id!);
+            } else if (events.length < maxEvents) {
+              events.push(this.parseCalendarEvent(item));
+            } else {
+              truncated = true;
+            }
+          }
+
+          pageToken = response.data.nextPageToken || undefined;
+          nextSyncToken = response.data.nextSyncToken || nextSyncToken;
+        } while (pageToken);
+
+        return {
+          events,
+          cancelledEventIds,
+          nextSyncToken: nextSyncToken || '',
+          fullSync: syncToken === undefined,
+          truncated,
+        };
+      };
+
+      try {
+        return await runSync(options.syncToken);
+      } catch (error: any) {
+        // An expired sync token means the client has to start over
+        if (error?.response?.status === 410 && options.syncToken) {
+          logger.info(
+            `Sync token for calendar ${options.calendarId} expired, performing a full sync`
+          );
+          return await runSync();
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      return this.handleCalendarError(error, 'Failed to sync events');
+    }
+  }
+
+  /**
+   * Check with a single small request whether any event of a calendar was
+   * created, changed or deleted since a point in time
+   * @param options - Calendar and the time to look back to
+   * @returns True if at least one event changed
+   */
+  async hasEventChanges(options: EventChangesOptions): Promise<boolean> {
+    try {
+      EventChangesOptionsSchema.parse(options);
+      const response = await this.calendar.events.list(
+        {
+          calendarId: options.calendarId,
+          updatedMin: options.updatedMin,
+          showDeleted: true,
+          maxResults: 1,
+        },
+        this.getRequestOptions()
+      );
+      return (
+        (response.data.items || []).length > 0 || !!response.data.nextPageToken
+      );
+    } catch (error: any) {
+      // Google refuses to look back too far; assume something changed
+      if (error?.response?.status === 410) {
+        return true;
+      }
+      return this.handleCalendarError(error, 'Failed to check for changes');
+    }
+  }
+
   async createEvent(options: CreateEventOptions): Promise<CalendarEvent> {
     try {
       CreateEventOptionsSchema.parse(options);
+      const attendees: calendar_v3.Schema$EventAttendee[] = [
+        ...(options.attendees || []).map(email => ({ email })),
+        ...(options.optionalAttendees || []).map(email => ({
+          email,
+          optional: true,
+        })),
+      ];
       const requestBody: calendar_v3.Schema$Event = {
         summary: options.summary,
         description: options.description,
         location: options.location,
         start: options.start,
         end: options.end,
-        attendees: options.attendees?.map(email => ({ email })),
+        attendees: attendees.length > 0 ? attendees : undefined,
+        reminders: options.reminders && {
+          useDefault: options.reminders.useDefault,
+          overrides: options.reminders.useDefault
+            ? undefined
+            : options.reminders.overrides || [],
+        },
+        colorId: options.colorId,
+        visibility: options.visibility,
+        transparency: options.transparency,
+        guestsCanModify: options.guestsCanModify,
+        guestsCanInviteOthers: options.guestsCanInviteOthers,
+        guestsCanSeeOtherGuests: options.guestsCanSeeOtherGuests,
       };
+      if (options.createMeetLink) {
+        // Meet links are created asynchronously, keyed by a unique request ID
+        requestBody.conferenceData = {
+          createRequest: {
+            requestId: randomUUID(),
+            conferenceSolutionKey: { type: 'hangoutsMeet' },
+          },
+        };
+      }
+      if (options.recurrence) {
+        requestBody.recurrence = this.prepareRecurrence(
+          options.recurrence,
+          options.start
+        );
+      }
 
       const requestParams = {
         calendarId: options.calendarId || 'primary',
         requestBody,
         sendNotifications: options.sendNotifications,
+        // Required for the API to read or write conferenceData
+        conferenceDataVersion: 1,
       };
 
       const response = await this.calendar.events.insert(
@@ -225,71 +567,808 @@ export class GCalendarService {
     }
   }
 
-  async declineEvent(options: {
-    calendarId?: string;
-    eventId: string;
-  }): Promise<CalendarEvent> {
+  async updateEvent(options: UpdateEventOptions): Promise<CalendarEvent> {
     try {
-      DeclineEventOptionsSchema.parse(options);
-      const { eventId } = options;
+      UpdateEventOptionsSchema.parse(options);
       const calendarId = options.calendarId || 'primary';
+      const { eventId } = options;
 
-      // Get user's email from the access token to identify the attendee
-      const tokenInfo = await this.oauth2Client.getTokenInfo(this.accessToken);
-      if (!tokenInfo.email) {
+      // Only fields that were provided are sent, so everything else is kept
+      const requestBody: calendar_v3.Schema$Event = {};
+      if (options.summary !== undefined) {
+        requestBody.summary = options.summary;
+      }
+      if (options.description !== undefined) {
+        requestBody.description = options.description;
+      }
+      if (options.location !== undefined) {
+        requestBody.location = options.location;
+      }
+      if (options.start !== undefined) {
+        requestBody.start = options.start;
+      }
+      if (options.end !== undefined) {
+        requestBody.end = options.end;
+      }
+      if (options.recurrence !== undefined) {
+        requestBody.recurrence = this.prepareRecurrence(
+          options.recurrence,
+          options.start
+        );
+      }
+
+      const changesAttendees =
+        options.attendees !== undefined ||
+        options.addAttendees !== undefined ||
+        options.removeAttendees !== undefined;
+      const movesStartOnly =
+        options.start !== undefined && options.end === undefined;
+
+      if (changesAttendees || movesStartOnly) {
+        const { data: current } = await this.calendar.events.get(
+          { calendarId, eventId },
+          this.getRequestOptions()
+        );
+
+        if (changesAttendees) {
+          requestBody.attendees = this.mergeAttendees(
+            current.attendees || [],
+            options
+          );
+        }
+
+        // Moving the start keeps the event's original duration
+        if (movesStartOnly && current.start && current.end) {
+          requestBody.end = this.shiftEnd(
+            current.start,
+            current.end,
+            options.start!
+          );
+        }
+      }
+
+      if (Object.keys(requestBody).length === 0) {
         throw new GCalendarServiceError(
-          'Could not determine user email from token.',
-          'USER_EMAIL_NOT_FOUND'
+          'No fields to update were provided.',
+          'VALIDATION_ERROR'
         );
       }
-      const userEmail = tokenInfo.email;
 
-      // Get the current event to preserve other attendees' statuses
-      const { data: event } = await this.calendar.events.get(
+      const response = await this.calendar.events.patch(
         {
           calendarId,
           eventId,
+          requestBody,
+          sendUpdates: options.sendUpdates ?? 'all',
+        },
+        this.getRequestOptions()
+      );
+
+      return this.parseCalendarEvent(response.data);
+    } catch (error: any) {
+      return this.handleCalendarError(error, 'Failed to update event');
+    }
+  }
+
+  private prepareRecurrence(
+    recurrence: string[],
+    start?: calendar_v3.Schema$EventDateTime
+  ): string[] {
+    const lines = normalizeRecurrence(recurrence);
+    const errors = findRecurrenceErrors(lines);
+    // The API needs a time zone to expand timed recurring events
+    if (start?.dateTime && !start.timeZone) {
+      errors.push('Recurring events need start.timeZone, e.g. "Europe/Paris"');
+    }
+    if (errors.length > 0) {
+      throw new GCalendarServiceError(
+        `Invalid recurrence: ${errors.join('; ')}`,
+        'VALIDATION_ERROR'
+      );
+    }
+    return lines;
+  }
+
+  private mergeAttendees(
+    current: calendar_v3.Schema$EventAttendee[],
+    options: Pick<
+      UpdateEventOptions,
+      'attendees' | 'addAttendees' | 'removeAttendees'
+    >
+  ): calendar_v3.Schema$EventAttendee[] {
+    const byEmail = new Map(
+      current.map(attendee => [attendee.email?.toLowerCase(), attendee])
+    );
+
+    // A replacement list keeps the response status of remaining attendees
+    let attendees = options.attendees
+      ? options.attendees.map(
+          email => byEmail.get(email.toLowerCase()) ?? { email }
+        )
+      : [...current];
+
+    for (const email of options.addAttendees || []) {
+      if (
+        !attendees.some(a => a.email?.toLowerCase() === email.toLowerCase())
+      ) {
+        attendees.push({ email });
+      }
+    }
+
+    const removed = new Set(
+      (options.removeAttendees || []).map(email => email.toLowerCase())
+    );
+    attendees = attendees.filter(
+      a => !removed.has(a.email?.toLowerCase() || '')
+    );
+
+    return attendees;
+  }
+
+  private shiftEnd(
+    currentStart: calendar_v3.Schema$EventDateTime,
+    currentEnd: calendar_v3.Schema$EventDateTime,
+    newStart: calendar_v3.Schema$EventDateTime
+  ): calendar_v3.Schema$EventDateTime {
+    if (newStart.date && currentStart.date && currentEnd.date) {
+      const days =
+        (Date.parse(currentEnd.date) - Date.parse(currentStart.date)) /
+        86400000;
+      const end = new Date(Date.parse(newStart.date) + days * 86400000);
+      return { date: end.toISOString().substring(0, 10) };
+    }
+
+    if (newStart.dateTime && currentStart.dateTime && currentEnd.dateTime) {
+      const duration =
+        this.toInstant(currentEnd.dateTime, currentEnd.timeZone) -
+        this.toInstant(currentStart.dateTime, currentStart.timeZone);
+      const end =
+        this.toInstant(newStart.dateTime, newStart.timeZone) + duration;
+      const timeZone = newStart.timeZone || currentEnd.timeZone || undefined;
+      return {
+        // Written in the event's time zone so it reads like the start
+        dateTime:
+          timeZone && isValidTimeZone(timeZone)
+            ? formatRfc3339(end, timeZone)
+            : new Date(end).toISOString(),
+        timeZone,
+      };
+    }
+
+    throw new GCalendarServiceError(
+      'Changing between all-day and timed events requires both start and end.',
+      'VALIDATION_ERROR'
+    );
+  }
+
+  // Date-times without an offset are wall-clock times in their time zone
+  private toInstant(dateTime: string, timeZone?: string | null): number {
+    return parseZonedDateTime(
+      dateTime,
+      timeZone && isValidTimeZone(timeZone) ? timeZone : undefined
+    );
+  }
+
+  async deleteEvent(options: DeleteEventOptions): Promise<DeleteEventResult> {
+    try {
+      DeleteEventOptionsSchema.parse(options);
+      const calendarId = options.calendarId || 'primary';
+      const sendUpdates = options.sendUpdates ?? 'all';
+      const { scope } = options;
+
+      const { data: event } = await this.calendar.events.get(
+        { calendarId, eventId: options.eventId },
+        this.getRequestOptions()
+      );
+      const eventId = event.id || options.eventId;
+
+      const remove = async (id: string): Promise<void> => {
+        await this.calendar.events.delete(
+          { calendarId, eventId: id, sendUpdates },
+          this.getRequestOptions()
+        );
+      };
+
+      const isInstance = Boolean(event.recurringEventId);
+      const isSeries = Boolean(event.recurrence?.length);
+      if (!isInstance && !isSeries) {
+        await remove(eventId);
+        return { eventId, action: 'deleted' };
+      }
+
+      if (!scope) {
+        throw new GCalendarServiceError(
+          'This event is part of a recurring series. Set scope to "instance", "following" or "series".',
+          'SCOPE_REQUIRED'
+        );
+      }
+
+      if (scope === 'series' || (!isInstance && scope === 'following')) {
+        const seriesId = event.recurringEventId || eventId;
+        await remove(seriesId);
+        return { eventId: seriesId, action: 'deleted', scope };
+      }
+
+      if (!isInstance) {
+        throw new GCalendarServiceError(
+          'The event ID refers to the whole series. Pass the ID of a single instance to cancel only that occurrence.',
+          'VALIDATION_ERROR'
+        );
+      }
+
+      if (scope === 'instance') {
+        await remove(eventId);
+        return { eventId, action: 'deleted', scope };
+      }
+
+      // "This and following": end the series just before this instance
+      const seriesId = event.recurringEventId!;
+      const { data: series } = await this.calendar.events.get(
+        { calendarId, eventId: seriesId },
+        this.getRequestOptions()
+      );
+      const cutoff = event.originalStartTime || event.start;
+      if (!cutoff || !series.start || this.isSameStart(series.start, cutoff)) {
+        // Cutting at the first instance leaves nothing of the series
+        await remove(seriesId);
+        return { eventId: seriesId, action: 'deleted', scope };
+      }
+
+      const recurrence = this.trimRecurrence(series.recurrence || [], cutoff);
+      await this.calendar.events.patch(
+        {
+          calendarId,
+          eventId: seriesId,
+          requestBody: { recurrence },
+          sendUpdates,
         },
         this.getRequestOptions()
       );
 
-      const attendees = event.attendees || [];
+      return { eventId: seriesId, action: 'trimmed', scope, recurrence };
+    } catch (error: any) {
+      return this.handleCalendarError(error, 'Failed to delete event');
+    }
+  }
+
+  private isSameStart(
+    a: calendar_v3.Schema$EventDateTime,
+    b: calendar_v3.Schema$EventDateTime
+  ): boolean {
+    if (a.date || b.date) {
+      return a.date === b.date;
+    }
+    return Date.parse(a.dateTime || '') === Date.parse(b.dateTime || '');
+  }
+
+  // Replace the end of every RRULE with an UNTIL just before the cutoff. UNTIL
+  // must be a DATE for all-day series and a UTC DATE-TIME otherwise.
+  private trimRecurrence(
+    recurrence: string[],
+    cutoff: calendar_v3.Schema$EventDateTime
+  ): string[] {
+    let until: string;
+    if (cutoff.date) {
+      const previousDay = new Date(Date.parse(cutoff.date) - 86400000);
+      until = previousDay.toISOString().substring(0, 10).replace(/-/g, '');
+    } else {
+      const lastSecond = new Date(Date.parse(cutoff.dateTime || '') - 1000);
+      until = lastSecond
+        .toISOString()
+        .replace(/\.\d{3}Z$/, 'Z')
+        .replace(/[-:]/g, '');
+    }
+
+    return recurrence.map(line => {
+      if (!/^RRULE:/i.test(line)) {
+        return line;
+      }
+      const parts = line
+        .substring('RRULE:'.length)
+        .split(';')
+        .filter(part => part && !/^(UNTIL|COUNT)=/i.test(part));
+      return `RRULE:${[...parts, `UNTIL=${until}`].join(';')}`;
+    });
+  }
+
+  async declineEvent(options: {
+    calendarId?: string;
+    eventId: string;
+  }): Promise<CalendarEvent> {
+    // Kept for existing callers, respondToEvent validates the options
+    return this.respondToEvent({ ...options, response: 'declined' });
+  }
+
+  async respondToEvent(options: RespondToEventOptions): Promise<CalendarEvent> {
+    try {
+      RespondToEventOptionsSchema.parse(options);
+      const calendarId = options.calendarId || 'primary';
+
+      const { data: event } = await this.calendar.events.get(
+        { calendarId, eventId: options.eventId },
+        this.getRequestOptions()
+      );
+
+      // Responding to the series covers every instance of the invite
+      const eventId =
+        options.allInstances && event.recurringEventId
+          ? event.recurringEventId
+          : options.eventId;
+      const target =
+        eventId === options.eventId
+          ? event
+          : (
+              await this.calendar.events.get(
+                { calendarId, eventId },
+                this.getRequestOptions()
+              )
+            ).data;
+
+      const response = {
+        responseStatus: options.response,
+        ...(options.comment !== undefined && { comment: options.comment }),
+      };
+
+      // The API marks the authenticated user's attendee record with "self",
+      // which also covers invites sent to an alias
+      const attendees = target.attendees || [];
       let found = false;
       const updatedAttendees = attendees.map(attendee => {
-        if (attendee.email === userEmail) {
+        if (attendee.self) {
           found = true;
-          return { ...attendee, responseStatus: 'declined' };
+          return { ...attendee, ...response };
         }
         return attendee;
       });
 
-      // If the user was not in the original attendee list (e.g., part of a group), add them.
+      // Invited through a group: add the calendar owner as an attendee
       if (!found) {
-        updatedAttendees.push({ email: userEmail, responseStatus: 'declined' });
+        const { data: calendar } = await this.calendar.calendars.get(
+          { calendarId },
+          this.getRequestOptions()
+        );
+        if (!calendar.id || !calendar.id.includes('@')) {
+          throw new GCalendarServiceError(
+            'You are not an attendee of this event.',
+            'NOT_AN_ATTENDEE'
+          );
+        }
+        updatedAttendees.push({ email: calendar.id, ...response });
       }
 
       // Patch the event with the updated attendee information
-      const response = await this.calendar.events.patch(
+      const patched = await this.calendar.events.patch(
         {
           calendarId,
           eventId,
           requestBody: {
             attendees: updatedAttendees,
           },
-          sendNotifications: true, // Notify the organizer
+          sendUpdates: 'all', // Notify the organizer
         },
         this.getRequestOptions()
       );
 
-      return this.parseCalendarEvent(response.data);
+      return this.parseCalendarEvent(patched.data);
+    } catch (error: any) {
+      return this.handleCalendarError(error, 'Failed to respond to event');
+    }
+  }
+
+  async getFreeBusy(options: FreeBusyOptions): Promise<FreeBusyResponse> {
+    try {
+      FreeBusyOptionsSchema.parse(options);
+      const response = await this.calendar.freebusy.query(
+        {
+          requestBody: {
+            timeMin: options.timeMin,
+            timeMax: options.timeMax,
+            timeZone: options.timeZone,
+            items: options.calendarIds.map(id => ({ id })),
+          },
+        },
+        this.getRequestOptions()
+      );
+
+      const calendars = response.data.calendars || {};
+      return {
+        timeMin: response.data.timeMin || options.timeMin,
+        timeMax: response.data.timeMax || options.timeMax,
+        calendars: options.calendarIds.map(calendarId => {
+          const entry = calendars[calendarId] || {};
+          const errors = (entry.errors || []).map(e => e.reason || 'unknown');
+          return {
+            calendarId,
+            busy: (entry.busy || []).map(block => ({
+              start: block.start!,
+              end: block.end!,
+            })),
+            ...(errors.length > 0 && { errors }),
+          };
+        }),
+      };
+    } catch (error: any) {
+      return this.handleCalendarError(error, 'Failed to query free/busy');
+    }
+  }
+
+  async findFreeSlots(
+    options: FindFreeSlotsOptions
+  ): Promise<FreeSlotsResponse> {
+    try {
+      FindFreeSlotsOptionsSchema.parse(options);
+      const rangeStart = Date.parse(options.timeMin);
+      const rangeEnd = Date.parse(options.timeMax);
+      if (isNaN(rangeStart) || isNaN(rangeEnd) || rangeEnd <= rangeStart) {
+        throw new GCalendarServiceError(
+          'timeMin and timeMax must be RFC3339 date-times with timeMin before timeMax.',
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const timeZone = options.timeZone || (await this.getPrimaryTimeZone());
+      const zones = [
+        timeZone,
+        options.workingHours?.timeZone,
+        ...Object.values(options.attendeeWorkingHours || {}).map(
+          hours => hours.timeZone
+        ),
+      ];
+      const invalidZone = zones.find(zone => zone && !isValidTimeZone(zone));
+      if (invalidZone) {
+        throw new GCalendarServiceError(
+          `Unknown time zone: ${invalidZone}`,
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const calendarIds = [
+        ...new Set([
+          ...(options.includeSelf === false ? [] : ['primary']),
+          ...options.attendees,
+        ]),
+      ];
+      const freeBusy = await this.getFreeBusy({
+        calendarIds,
+        timeMin: options.timeMin,
+        timeMax: options.timeMax,
+      });
+
+      // Calendars without shared free/busy cannot constrain the search
+      const unavailableCalendars = freeBusy.calendars
+        .filter(calendar => calendar.errors)
+        .map(calendar => ({
+          calendarId: calendar.calendarId,
+          reason: calendar.errors!.join(', '),
+        }));
+
+      const slots = findFreeSlots({
+        participants: freeBusy.calendars
+          .filter(calendar => !calendar.errors)
+          .map(calendar => ({
+            id: calendar.calendarId,
+            busy: calendar.busy.map(block => ({
+              start: Date.parse(block.start),
+              end: Date.parse(block.end),
+            })),
+            workingHours: options.attendeeWorkingHours?.[calendar.calendarId],
+          })),
+        rangeStart,
+        rangeEnd,
+        durationMinutes: options.durationMinutes,
+        timeZone,
+        workingHours: options.workingHours,
+        bufferBeforeMinutes: options.bufferBeforeMinutes,
+        bufferAfterMinutes: options.bufferAfterMinutes,
+        stepMinutes: options.stepMinutes,
+        maxSlots: options.maxSlots,
+      });
+
+      return {
+        timeZone,
+        durationMinutes: options.durationMinutes,
+        slots: slots.map(slot => ({
+          start: formatRfc3339(slot.start, timeZone),
+          end: formatRfc3339(slot.end, timeZone),
+          score: slot.score,
+        })),
+        unavailableCalendars,
+      };
+    } catch (error: any) {
+      return this.handleCalendarError(error, 'Failed to find free slots');
+    }
+  }
+
+  async getAgenda(options: AgendaOptions): Promise<AgendaResponse> {
+    try {
+      AgendaOptionsSchema.parse(options);
+      const rangeStart = Date.parse(options.timeMin);
+      const rangeEnd = Date.parse(options.timeMax);
+      if (isNaN(rangeStart) || isNaN(rangeEnd) || rangeEnd <= rangeStart) {
+        throw new GCalendarServiceError(
+          'timeMin and timeMax must be RFC3339 date-times with timeMin before timeMax.',
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const timeZone = options.timeZone || (await this.getPrimaryTimeZone());
+      if (!isValidTimeZone(timeZone)) {
+        throw new GCalendarServiceError(
+          `Unknown time zone: ${timeZone}`,
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const calendarIds =
+        options.calendarIds ||
+        (await this.listCalendars()).map(calendar => calendar.id);
+      const maxEvents = options.maxEventsPerCalendar ?? 250;
+
+      const sources: AgendaSource[] = [];
+      const calendars: AgendaResponse['calendars'] = [];
+      // One failing calendar (e.g. no access) should not hide the others
+      for (const calendarId of calendarIds) {
+        try {
+          const events = await this.listAllEvents(
+            calendarId,
+            new Date(rangeStart).toISOString(),
+            new Date(rangeEnd).toISOString(),
+            maxEvents
+          );
+          const visible = events.filter(
+            event =>
+              event.status !== 'cancelled' &&
+              (options.includeDeclined ||
+                event.attendees?.find(attendee => attendee.self)
+                  ?.responseStatus !== 'declined')
+          );
+          sources.push(...visible.map(event => ({ calendarId, event })));
+          calendars.push({ calendarId, eventCount: visible.length });
+        } catch (error: any) {
+          calendars.push({
+            calendarId,
+            eventCount: 0,
+            error: error?.message || String(error),
+          });
+        }
+      }
+
+      const { days, conflictCount } = buildAgenda(sources, {
+        rangeStart,
+        rangeEnd,
+        timeZone,
+      });
+
+      return {
+        timeZone,
+        timeMin: options.timeMin,
+        timeMax: options.timeMax,
+        days,
+        conflictCount,
+        calendars,
+      };
+    } catch (error: any) {
+      return this.handleCalendarError(error, 'Failed to build agenda');
+    }
+  }
+
+  private async listAllEvents(
+    calendarId: string,
+    timeMin: string,
+    timeMax: string,
+    maxEvents: number
+  ): Promise<CalendarEvent[]> {
+    const events: CalendarEvent[] = [];
+    let pageToken: string | undefined;
+    do {
+      const page = await this.listEvents({
+        calendarId,
+        timeMin,
+        timeMax,
+        pageToken,
+        maxResults: Math.min(maxEvents - events.length, 2500),
+        singleEvents: true,
+      });
+      events.push(...page.events);
+      pageToken = page.nextPageToken;
+    } while (pageToken && events.length < maxEvents);
+    return events;
+  }
+
+  async exportIcs(options: ExportIcsOptions): Promise<IcsExport> {
+    try {
+      ExportIcsOptionsSchema.parse(options);
+      const calendarId = options.calendarId || 'primary';
+      const { data: calendar } = await this.calendar.calendars.get(
+        { calendarId },
+        this.getRequestOptions()
+      );
+
+      let events: CalendarEvent[];
+      if (options.eventId) {
+        const { data } = await this.calendar.events.get(
+          { calendarId, eventId: options.eventId },
+          this.getRequestOptions()
+        );
+        // A single occurrence is exported as a stand-alone event
+        events = [
+          {
+            ...this.parseCalendarEvent(data),
+            recurringEventId: undefined,
+            originalStartTime: undefined,
+          },
+        ];
+      } else {
+        events = await this.listSeriesEvents(
+          calendarId,
+          options.timeMin || new Date().toISOString(),
+          options.timeMax,
+          options.maxEvents ?? 250
+        );
+      }
+
+      return {
+        filename: `${(
+          options.eventId ||
+          calendar.summary ||
+          calendarId
+        ).replace(/[^\w.@-]+/g, '_')}.ics`,
+        eventCount: events.length,
+        ics: serializeIcs(events, {
+          calendarName: calendar.summary || undefined,
+          timeZone: calendar.timeZone || undefined,
+        }),
+      };
+    } catch (error: any) {
+      return this.handleCalendarError(error, 'Failed to export events');
+    }
+  }
+
+  // Lists series unexpanded so they keep their RRULE; cancelled occurrences
+  // become EXDATEs of their series
+  private async listSeriesEvents(
+    calendarId: string,
+    timeMin: string,
+    timeMax: string | undefined,
+    maxEvents: number
+  ): Promise<CalendarEvent[]> {
+    const events: CalendarEvent[] = [];
+    const cancelled: calendar_v3.Schema$Event[] = [];
+    let pageToken: string | undefined;
+    do {
+      const response = await this.calendar.events.list(
+        {
+          calendarId,
+          timeMin,
+          timeMax,
+          pageToken,
+          maxResults: 2500,
+          singleEvents: false,
+          showDeleted: true,
+        },
+        this.getRequestOptions()
+      );
+      for (const item of response.data.items || []) {
+        if (item.status === 'cancelled') {
+          cancelled.push(item);
+        } else if (events.length < maxEvents) {
+          events.push(this.parseCalendarEvent(item));
+        }
+      }
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken && events.length < maxEvents);
+
+    for (const item of cancelled) {
+      const series = events.find(event => event.id === item.recurringEventId);
+      const original = item.originalStartTime;
+      if (!series?.recurrence || !original) {
+        continue;
+      }
+      const exdate = original.date
+        ? `EXDATE;VALUE=DATE:${original.date.replace(/-/g, '')}`
+        : `EXDATE:${new Date(Date.parse(original.dateTime || ''))
+            .toISOString()
+            .replace(/\.\d{3}Z$/, 'Z')
+            .replace(/[-:]/g, '')}`;
+      series.recurrence = [...series.recurrence, exdate];
+    }
+    return events;
+  }
+
+  async importIcs(options: ImportIcsOptions): Promise<IcsImportResult> {
+    try {
+      ImportIcsOptionsSchema.parse(options);
+      const calendarId = options.calendarId || 'primary';
+      const { data: calendar } = await this.calendar.calendars.get(
+        { calendarId },
+        this.getRequestOptions()
+      );
+
+      const parsed = parseIcs(options.ics, {
+        defaultTimeZone: calendar.timeZone || undefined,
+      });
+      if (parsed.events.length === 0) {
+        throw new GCalendarServiceError(
+          'No events found in the iCalendar data.',
+          'VALIDATION_ERROR'
+        );
+      }
+
+      // Series first, so that changed occurrences can attach to them
+      const events = [...parsed.events].sort(
+        (a, b) => Number(!!a.recurrenceId) - Number(!!b.recurrenceId)
+      );
+      const result: IcsImportResult = {
+        method: parsed.method,
+        imported: [],
+        failed: [],
+      };
+      for (const event of events) {
+        try {
+          const response = await this.calendar.events.import(
+            {
+              calendarId,
+              conferenceDataVersion: 1,
+              requestBody: this.toImportedEvent(event, parsed.method),
+            },
+            this.getRequestOptions()
+          );
+          result.imported.push(this.parseCalendarEvent(response.data));
+        } catch (error: any) {
+          result.failed.push({
+            uid: event.uid,
+            summary: event.summary,
+            error:
+              error?.response?.data?.error?.message ||
+              error?.message ||
+              String(error),
+          });
+        }
+      }
+      return result;
     } catch (error: any) {
-      return this.handleCalendarError(error, 'Failed to decline event');
+      return this.handleCalendarError(error, 'Failed to import events');
     }
   }
 
+  private toImportedEvent(
+    event: IcsEvent,
+    method?: string
+  ): calendar_v3.Schema$Event {
+    return {
+      // events.import requires an iCalUID; generate one for bare events
+      iCalUID: event.uid || `${randomUUID()}@mcp-google-assistant`,
+      summary: event.summary,
+      description: event.description,
+      location: event.location,
+      start: event.start,
+      end: event.end,
+      recurrence: event.recurrence
+        ? this.prepareRecurrence(event.recurrence, event.start)
+        : undefined,
+      originalStartTime: event.recurrenceId,
+      status: method === 'CANCEL' ? 'cancelled' : event.status,
+      organizer: event.organizer,
+      attendees: event.attendees.length > 0 ? event.attendees : undefined,
+      transparency: event.transparency,
+      visibility: event.visibility,
+      sequence: event.sequence,
+    };
+  }
+
+  // Time zone of the primary calendar, which is the user's own time zone
+  async getPrimaryTimeZone(): Promise<string> {
+    const { data } = await this.calendar.calendars.get(
+      { calendarId: 'primary' },
+      this.getRequestOptions()
+    );
+    return data.timeZone || 'UTC';
+  }
+
   private parseCalendarEvent(item: calendar_v3.Schema$Event): CalendarEvent {
     return {
       id: item.id!,
+      iCalUID: item.iCalUID || undefined,
       summary: item.summary || 'No Title',
       description: item.description || undefined,
       location: item.location || undefined,
@@ -311,14 +1390,70 @@ export class GCalendarService {
           | 'declined'
           | 'tentative'
           | 'accepted',
+        self: a.self || undefined,
+        optional: a.optional || undefined,
+        organizer: a.organizer || undefined,
+        comment: a.comment || undefined,
       })),
       organizer: {
         email: item.organizer?.email || undefined,
         displayName: item.organizer?.displayName || undefined,
       },
       hangoutLink: item.hangoutLink || undefined,
+      conference: this.parseConferenceData(item.conferenceData),
       htmlLink: item.htmlLink!,
       status: item.status as 'confirmed' | 'tentative' | 'cancelled',
+      colorId: item.colorId || undefined,
+      visibility: (item.visibility as CalendarEvent['visibility']) || undefined,
+      transparency:
+        (item.transparency as CalendarEvent['transparency']) || undefined,
+      reminders: item.reminders
+        ? {
+            useDefault: item.reminders.useDefault ?? false,
+            overrides: item.reminders.overrides?.map(reminder => ({
+              method: reminder.method as 'email' | 'popup',
+              minutes: reminder.minutes ?? 0,
+            })),
+          }
+        : undefined,
+      recurrence: item.recurrence || undefined,
+      recurringEventId: item.recurringEventId || undefined,
+      originalStartTime: item.originalStartTime
+        ? {
+            date: item.originalStartTime.date ?? undefined,
+            dateTime: item.originalStartTime.dateTime ?? undefined,
+            timeZone: item.originalStartTime.timeZone ?? undefined,
+          }
+        : undefined,
+    };
+  }
+
+  private parseConferenceData(
+    data?: calendar_v3.Schema$ConferenceData
+  ): ConferenceInfo | undefined {
+    if (!data) {
+      return undefined;
+    }
+    return {
+      conferenceId: data.conferenceId || undefined,
+      solution: data.conferenceSolution?.name || undefined,
+      status:
+        (data.createRequest?.status?.statusCode as ConferenceInfo['status']) ||
+        undefined,
+      entryPoints: (data.entryPoints || []).map(entryPoint => ({
+        entryPointType:
+          entryPoint.entryPointType as ConferenceEntryPoint['entryPointType'],
+        uri: entryPoint.uri!,
+        label: entryPoint.label || undefined,
+        pin: entryPoint.pin || undefined,
+        passcode:
+          entryPoint.passcode ||
+          entryPoint.meetingCode ||
+          entryPoint.accessCode ||
+          undefined,
+        regionCode: entryPoint.regionCode || undefined,
+      })),
+      notes: data.notes || undefined,
     };
   }
 
@@ -360,6 +1495,12 @@ export class GCalendarService {
           'NOT_FOUND',
           404
         );
+      case 410:
+        throw new GCalendarServiceError(
+          'Event has already been deleted.',
+          'ALREADY_DELETED',
+          410
+        );
       case 429:
         throw new GCalendarServiceError(
           'Rate limit exceeded. Please try again later.',
@@ -0,0 +1,398 @@
+import { GmailService } from './gmail';
+
+const INVITE = [
+  'BEGIN:VCALENDAR',
+  'METHOD:REQUEST',
+  'BEGIN:VEVENT',
+  'UID:invite@test',
+  'DTSTART:20260105T150000Z',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+function encode(text: string): string {
+  return Buffer.from(text, 'utf-8').toString('base64url');
+}
+
+// GmailService with its Gmail client replaced by stubs
+function createService(
+  messages: Record<string, jest.Mock>,
+  attachments: Record<string, jest.Mock> = {}
+): GmailService {
+  const service = new GmailService('test-token');
+  (service as any).gmail = {
+    users: { messages: { ...messages, attachments } },
+  };
+  return service;
+}
+
+describe('GmailService.getCalendarInvites', () => {
+  it('reads a single attachment without truncating it', async () => {
+    const description = `DESCRIPTION:${'x'.repeat(300000)}`;
+    const invite = INVITE.replace('END:VEVENT', `${description}\r\nEND:VEVENT`);
+    const get = jest.fn().mockResolvedValue({ data: { data: encode(invite) } });
+    const service = createService({ get: jest.fn() }, { get });
+
+    await expect(
+      service.getCalendarInvites('message1', 'attachment1')
+    ).resolves.toEqual([invite]);
+    expect(get).toHaveBeenCalledWith({
+      userId: 'me',
+      messageId: 'message1',
+      id: 'attachment1',
+    });
+  });
+
+  it('collects inline and attached calendar parts of a message', async () => {
+    const messagesGet = jest.fn().mockResolvedValue({
+      data: {
+        payload: {
+          mimeType: 'multipart/mixed',
+          parts: [
+            {
+              mimeType: 'multipart/alternative',
+              parts: [
+                { mimeType: 'text/plain', body: { data: encode('Hello') } },
+                { mimeType: 'text/calendar', body: { data: encode(INVITE) } },
+              ],
+            },
+            {
+              mimeType: 'application/ics',
+              filename: 'invite.ics',
+              body: { attachmentId: 'attachment1' },
+            },
+          ],
+        },
+      },
+    });
+    const attachmentsGet = jest
+      .fn()
+      .mockResolvedValue({ data: { data: encode(INVITE) } });
+    const service = createService(
+      { get: messagesGet },
+      { get: attachmentsGet }
+    );
+
+    // The same invite as body part and attachment is returned once
+    await expect(service.getCalendarInvites('message1')).resolves.toEqual([
+      INVITE,
+    ]);
+    expect(attachmentsGet).toHaveBeenCalledWith({
+      userId: 'me',
+      messageId: 'message1',
+      id: 'attachment1',
+    });
+  });
+
+  it('returns nothing for a message without an invite', async () => {
+    const service = createService({
+      get: jest.fn().mockResolvedValue({
+        data: {
+          payload: { mimeType: 'text/plain', body: { data: encode('Hi') } },
+        },
+      }),
+    });
+    await expect(service.getCalendarInvites('message1')).resolves.toEqual([]);
+  });
+});
+
+describe('GmailService.getAttachment', () => {
+  it('finds the part by part ID after the attachment ID has rotated', async () => {
+    const messagesGet = jest.fn().mockResolvedValue({
+      data: {
+        payload: {
+          mimeType: 'multipart/mixed',
+          parts: [
+            { partId: '0', mimeType: 'text/plain', body: { data: '' } },
+            {
+              partId: '1',
+              mimeType: 'text/csv',
+              filename: 'report.csv',
+              body: { attachmentId: 'rotated-id', size: 7 },
+            },
+          ],
+        },
+      },
+    });
+    const attachmentsGet = jest
+      .fn()
+      .mockResolvedValue({ data: { data: encode('a,b\n1,2'), size: 7 } });
+    const service = createService(
+      { get: messagesGet },
+      { get: attachmentsGet }
+    );
+
+    const attachment = await service.getAttachment({
+      messageId: 'message1',
+      attachmentId: 'original-id',
+      partId: '1',
+    });
+    expect(attachment).toMatchObject({
+      partId: '1',
+      filename: 'report.csv',
+      mimeType: 'text/csv',
+      encoding: 'text',
+      text: 'a,b\n1,2',
+    });
+    expect(attachmentsGet).toHaveBeenCalledWith({
+      userId: 'me',
+      messageId: 'message1',
+      id: 'rotated-id',
+    });
+  });
+
+  it('checks the size limit of a part found by part ID', async () => {
+    const service = createService({
+      get: jest.fn().mockResolvedValue({
+        data: {
+          payload: {
+            partId: '',
+            mimeType: 'multipart/mixed',
+            parts: [
+              {
+                partId: '1',
+                mimeType: 'application/pdf',
+                filename: 'big.pdf',
+                body: { attachmentId: 'rotated-id', size: 5000 },
+              },
+            ],
+          },
+        },
+      }),
+    });
+
+    await expect(
+      service.getAttachment({
+        messageId: 'message1',
+        attachmentId: 'original-id',
+        partId: '1',
+        maxBytes: 1000,
+      })
+    ).rejects.toMatchObject({ code: 'ATTACHMENT_TOO_LARGE' });
+  });
+});
+
+describe('GmailService.getEmailList', () => {
+  function setup() {
+    const getProfile = jest
+      .fn()
+      .mockResolvedValue({ data: { historyId: '1234' } });
+    const list = jest.fn().mockResolvedValue({
+      data: {
+        messages: [{ id: 'message1', threadId: 'thread1' }],
+        resultSizeEstimate: 1,
+      },
+    });
+    const service = createService({ list });
+    (service as any).gmail.users.getProfile = getProfile;
+    return { service, getProfile };
+  }
+
+  it('does not read the mailbox checkpoint by default', async () => {
+    const { service, getProfile } = setup();
+    const result = await service.getEmailList();
+    expect(result.historyId).toBeUndefined();
+    expect(getProfile).not.toHaveBeenCalled();
+  });
+
+  it('returns the mailbox checkpoint when asked for', async () => {
+    const { service, getProfile } = setup();
+    const result = await service.getEmailList({ includeHistoryId: true });
+    expect(result.historyId).toBe('1234');
+    expect(getProfile).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('GmailService.bulkModify', () => {
+  it('reports all matches when only part of them is processed', async () => {
+    const list = jest.fn().mockResolvedValue({
+      data: {
+        messages: [{ id: 'm1' }, { id: 'm2' }, { id: 'm3' }],
+        resultSizeEstimate: 1200,
+        nextPageToken: 'next',
+      },
+    });
+    const batchModify = jest.fn().mockResolvedValue({});
+    const service = createService({
+      list,
+      batchModify,
+      get: jest.fn().mockResolvedValue({ data: { id: 'm1', payload: {} } }),
+    });
+
+    const result = await service.bulkModify({
+      query: 'from:newsletter@example.com',
+      markRead: true,
+      maxMessages: 2,
+      sampleSize: 0,
+      dryRun: false,
+    });
+    expect(result).toMatchObject({
+      matchedCount: 1200,
+      matchedCountEstimated: true,
+      processedCount: 2,
+      capped: true,
+      modifiedCount: 2,
+    });
+    expect(batchModify.mock.calls[0][0].requestBody.ids).toEqual(['m1', 'm2']);
+  });
+
+  it('reports the exact count when every match is processed', async () => {
+    const service = createService({
+      list: jest.fn().mockResolvedValue({
+        data: { messages: [{ id: 'm1' }], resultSizeEstimate: 8 },
+      }),
+    });
+
+    const result = await service.bulkModify({
+      query: 'label:old',
+      archive: true,
+      sampleSize: 0,
+    });
+    expect(result).toMatchObject({
+      matchedCount: 1,
+      matchedCountEstimated: false,
+      processedCount: 1,
+      capped: false,
+      modifiedCount: 0,
+    });
+  });
+});
+
+describe('GmailService.getEmailDetails', () => {
+  const message = {
+    id: 'message1',
+    threadId: 'thread1',
+    payload: {
+      mimeType: 'text/plain',
+      headers: [
+        { name: 'From', value: 'alice@example.com' },
+        { name: 'Subject', value: 'Hello' },
+        { name: 'Message-ID', value: '<id@example.com>' },
+      ],
+      body: { data: encode('Hi') },
+    },
+  };
+  const service = createService({
+    get: jest.fn().mockResolvedValue({ data: message }),
+  });
+
+  it('returns no headers for an empty includeHeaders list', async () => {
+    const details = await service.getEmailDetails({
+      messageId: 'message1',
+      includeHeaders: [],
+    });
+    expect(details.headers).toEqual([]);
+  });
+
+  it.each([0, 300])(
+    'escapes a plain text body asked for as HTML (maxWords %d)',
+    async maxWords => {
+      const plainService = createService({
+        get: jest.fn().mockResolvedValue({
+          data: {
+            ...message,
+            payload: {
+              ...message.payload,
+              body: { data: encode('1 < 2 & <b>bold</b>\nnext') },
+            },
+          },
+        }),
+      });
+      const details = await plainService.getEmailDetails({
+        messageId: 'message1',
+        bodyFormat: 'html',
+        maxWords,
+      });
+      expect(details.textBody).toBe(
+        '1 &lt; 2 &amp; &lt;b&gt;bold&lt;/b&gt;<br>\nnext'
+      );
+    }
+  );
+
+  it('returns every header with allHeaders', async () => {
+    const details = await service.getEmailDetails({
+      messageId: 'message1',
+      allHeaders: true,
+    });
+    expect(details.headers.map(header => header.name)).toEqual([
+      'From',
+      'Subject',
+      'Message-ID',
+    ]);
+  });
+});
+
+describe('GmailService.replyToEmail', () => {
+  function setup(headers: Record<string, string>) {
+    const send = jest
+      .fn()
+      .mockResolvedValue({ data: { id: 'reply1', threadId: 'thread1' } });
+    const service = createService({
+      get: jest.fn().mockResolvedValue({
+        data: {
+          id: 'message1',
+          threadId: 'thread1',
+          payload: {
+            headers: Object.entries(headers).map(([name, value]) => ({
+              name,
+              value,
+            })),
+          },
+        },
+      }),
+      send,
+    });
+    (service as any).gmail.users.getProfile = jest
+      .fn()
+      .mockResolvedValue({ data: { emailAddress: 'me@example.com' } });
+    (service as any).gmail.users.settings = {
+      sendAs: {
+        list: jest.fn().mockResolvedValue({
+          data: {
+            sendAs: [
+              { sendAsEmail: 'me@example.com' },
+              { sendAsEmail: 'alias@example.org' },
+            ],
+          },
+        }),
+      },
+    };
+
+    // Header section of the sent message
+    const sentHeaders = (): string =>
+      Buffer.from(send.mock.calls[0][0].requestBody.raw, 'base64url')
+        .toString('utf-8')
+        .split('\r\n\r\n')[0];
+    return { service, sentHeaders };
+  }
+
+  it('answers a note to self to ourselves', async () => {
+    const { service, sentHeaders } = setup({
+      From: 'Me <me@example.com>',
+      To: 'me@example.com',
+      Subject: 'Reminder',
+      'Message-ID': '<note@example.com>',
+    });
+    await service.replyToEmail({ messageId: 'message1', textBody: 'Done' });
+    expect(sentHeaders()).toContain('To: Me <me@example.com>');
+  });
+
+  it('leaves send-as aliases out of a reply-all', async () => {
+    const { service, sentHeaders } = setup({
+      From: 'bob@example.com',
+      To: 'alias@example.org, carol@example.com',
+      Cc: 'ME@example.com',
+      Subject: 'Plans',
+      'Message-ID': '<plans@example.com>',
+    });
+    await service.replyToEmail({
+      messageId: 'message1',
+      textBody: 'Sounds good',
+      replyAll: true,
+    });
+    const headers = sentHeaders();
+    expect(headers).toContain('To: bob@example.com');
+    expect(headers).toContain('Cc: carol@example.com');
+    expect(headers).not.toMatch(/alias@example\.org|me@example\.com/i);
+  });
+});
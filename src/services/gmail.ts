@@ -8,10 +8,52 @@ import type {
   EmailListResponse,
   EmailHeader,
   EmailDetails,
+  EmailBodyFormat,
+  EmailAttachment,
+  AttachmentOptions,
+  EmailAttachmentContent,
+  ThreadOptions,
+  ThreadMessage,
+  EmailThread,
+  SendEmailOptions,
+  SentEmail,
+  OutgoingAttachment,
+  ReplyEmailOptions,
+  ForwardEmailOptions,
+  DraftOptions,
+  UpdateDraftOptions,
+  DraftDetailsOptions,
+  DraftListOptions,
+  EmailDraft,
+  DraftListResponse,
+  GmailLabel,
+  CreateLabelOptions,
+  ModifyMessageOptions,
+  ModifiedMessage,
+  BulkModifyOptions,
+  BulkModifyResult,
+  HistoryChangesOptions,
+  HistoryChangesResponse,
+  HistoryMessageChange,
+  GmailProfile,
 } from '@services/types';
 import { GaxiosOptions, GaxiosResponse } from 'gaxios';
 import https from 'https';
 import logger from '@/utils/logger';
+import {
+  convertHtml,
+  escapeHtml,
+  htmlToText,
+  sanitizeHtml,
+  truncateHtml,
+} from '@/utils/html';
+import {
+  buildMimeMessage,
+  extractEmailAddress,
+  parseAddressList,
+  MimeAttachment,
+} from '@/utils/mime';
+import { stripQuotedReply } from '@/utils/quotes';
 
 // Validation schemas
 export const EmailListOptionsSchema = z.object({
@@ -20,6 +62,7 @@ export const EmailListOptionsSchema = z.object({
   query: z.string().optional(),
   labelIds: z.array(z.string()).optional(),
   includeSpamTrash: z.boolean().optional(),
+  includeHistoryId: z.boolean().optional(),
   fetchDetails: z.boolean().optional(),
   includeHeaders: z.array(z.string()).optional(),
 });
@@ -28,11 +71,211 @@ export const EmailDetailsOptionsSchema = z.object({
   messageId: z.string().min(1),
   format: z.enum(['minimal', 'full', 'raw', 'metadata']).optional(),
   maxWords: z.number().min(0).max(1000).optional(),
+  bodyFormat: z.enum(['text', 'markdown', 'html']).optional(),
   includeHeaders: z.array(z.string()).optional(),
+  allHeaders: z.boolean().optional(),
 });
 
+export const ThreadOptionsSchema = z.object({
+  threadId: z.string().min(1),
+  maxWords: z.number().min(0).max(5000).optional(),
+  bodyFormat: z.enum(['text', 'markdown', 'html']).optional(),
+  stripQuotes: z.boolean().optional(),
+});
+
+const OutgoingAttachmentSchema = z
+  .object({
+    filename: z.string().min(1),
+    mimeType: z.string().optional(),
+    data: z.string().optional(),
+    text: z.string().optional(),
+  })
+  .refine(
+    attachment =>
+      attachment.data !== undefined || attachment.text !== undefined,
+    {
+      message: 'Attachment requires either data or text content',
+    }
+  );
+
+export const SendEmailOptionsSchema = z
+  .object({
+    to: z.array(z.string().min(1)).min(1),
+    cc: z.array(z.string().min(1)).optional(),
+    bcc: z.array(z.string().min(1)).optional(),
+    subject: z.string(),
+    textBody: z.string().optional(),
+    htmlBody: z.string().optional(),
+    attachments: z.array(OutgoingAttachmentSchema).optional(),
+  })
+  .refine(
+    email => email.textBody !== undefined || email.htmlBody !== undefined,
+    {
+      message: 'Either textBody or htmlBody is required',
+    }
+  );
+
+export const ReplyEmailOptionsSchema = z
+  .object({
+    messageId: z.string().min(1),
+    replyAll: z.boolean().optional(),
+    textBody: z.string().optional(),
+    htmlBody: z.string().optional(),
+    cc: z.array(z.string().min(1)).optional(),
+    bcc: z.array(z.string().min(1)).optional(),
+    attachments: z.array(OutgoingAttachmentSchema).optional(),
+  })
+  .refine(
+    email => email.textBody !== undefined || email.htmlBody !== undefined,
+    { message: 'Either textBody or htmlBody is required' }
+  );
+
+export const ForwardEmailOptionsSchema = z.object({
+  messageId: z.string().min(1),
+  to: z.array(z.string().min(1)).min(1),
+  cc: z.array(z.string().min(1)).optional(),
+  bcc: z.array(z.string().min(1)).optional(),
+  textBody: z.string().optional(),
+  htmlBody: z.string().optional(),
+  includeAttachments: z.boolean().optional(),
+  attachments: z.array(OutgoingAttachmentSchema).optional(),
+});
+
+const DraftFieldsSchema = z.object({
+  to: z.array(z.string().min(1)).optional(),
+  cc: z.array(z.string().min(1)).optional(),
+  bcc: z.array(z.string().min(1)).optional(),
+  subject: z.string().optional(),
+  textBody: z.string().optional(),
+  htmlBody: z.string().optional(),
+  attachments: z.array(OutgoingAttachmentSchema).optional(),
+});
+
+export const DraftOptionsSchema = DraftFieldsSchema.extend({
+  replyToMessageId: z.string().min(1).optional(),
+  replyAll: z.boolean().optional(),
+});
+
+export const UpdateDraftOptionsSchema = DraftFieldsSchema.extend({
+  draftId: z.string().min(1),
+});
+
+export const DraftDetailsOptionsSchema = z.object({
+  draftId: z.string().min(1),
+  maxWords: z.number().min(0).max(3000).optional(),
+  bodyFormat: z.enum(['text', 'markdown', 'html']).optional(),
+});
+
+export const DraftListOptionsSchema = z.object({
+  maxResults: z.number().min(1).max(100).optional(),
+  pageToken: z.string().optional(),
+  query: z.string().optional(),
+});
+
+// Upper bound for bulk operations and the batchModify chunk size
+const MAX_BULK_MESSAGES = 10000;
+const BATCH_MODIFY_CHUNK_SIZE = 1000;
+
+export const CreateLabelOptionsSchema = z.object({
+  name: z.string().min(1).max(225),
+  textColor: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/)
+    .optional(),
+  backgroundColor: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/)
+    .optional(),
+  showInLabelList: z.boolean().optional(),
+  showInMessageList: z.boolean().optional(),
+});
+
+export const ModifyMessageOptionsSchema = z.object({
+  messageId: z.string().min(1),
+  addLabels: z.array(z.string().min(1)).optional(),
+  removeLabels: z.array(z.string().min(1)).optional(),
+  markRead: z.boolean().optional(),
+  starred: z.boolean().optional(),
+  important: z.boolean().optional(),
+  archive: z.boolean().optional(),
+  trash: z.boolean().optional(),
+});
+
+export const BulkModifyOptionsSchema = z.object({
+  query: z.string().min(1),
+  addLabels: z.array(z.string().min(1)).optional(),
+  removeLabels: z.array(z.string().min(1)).optional(),
+  markRead: z.boolean().optional(),
+  starred: z.boolean().optional(),
+  archive: z.boolean().optional(),
+  trash: z.boolean().optional(),
+  includeSpamTrash: z.boolean().optional(),
+  dryRun: z.boolean().optional(),
+  maxMessages: z.number().min(1).max(MAX_BULK_MESSAGES).optional(),
+  sampleSize: z.number().min(0).max(50).optional(),
+});
+
+export const HistoryChangesOptionsSchema = z.object({
+  startHistoryId: z
+    .string()
+    .regex(/^\d+$/, 'startHistoryId must be numeric')
+    .optional(),
+  labelId: z.string().optional(),
+  historyTypes: z
+    .array(
+      z.enum(['messageAdded', 'messageDeleted', 'labelAdded', 'labelRemoved'])
+    )
+    .optional(),
+  maxChanges: z.number().min(1).max(5000).optional(),
+  fetchDetails: z.boolean().optional(),
+});
+
+// Headers returned for drafts so the model can review recipients
+const DRAFT_HEADERS = ['From', 'To', 'Cc', 'Bcc', 'Subject', 'Date'];
+
+// Gmail rejects messages larger than 25 MB once encoded
+const MAX_FORWARD_ATTACHMENT_BYTES = 18 * 1024 * 1024;
+
+export const AttachmentOptionsSchema = z.object({
+  messageId: z.string().min(1),
+  attachmentId: z.string().min(1),
+  partId: z.string().optional(),
+  filename: z.string().optional(),
+  maxBytes: z
+    .number()
+    .min(1)
+    .max(10 * 1024 * 1024)
+    .optional(),
+  maxChars: z.number().min(100).max(200000).optional(),
+});
+
+// MIME types and file extensions whose content is returned as text
+const TEXT_ATTACHMENT_MIME_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/ics',
+  'application/x-yaml',
+  'application/yaml',
+  'application/csv',
+];
+const TEXT_ATTACHMENT_EXTENSIONS = [
+  'txt',
+  'csv',
+  'tsv',
+  'json',
+  'ics',
+  'vcs',
+  'xml',
+  'md',
+  'yaml',
+  'yml',
+  'log',
+];
+
 export interface GmailServiceOptions {
   skipSslVerification?: boolean;
+  agent?: https.Agent; // Shared HTTPS agent, e.g. a keep-alive agent per session
+  authClient?: OAuth2Client; // Client with a refresh token, used instead of the access token
 }
 
 export class GmailServiceError extends Error {
@@ -51,9 +294,11 @@ export class GmailService {
   private oauth2Client!: OAuth2Client;
   private accessToken: string;
   private skipSslVerification: boolean;
+  private agent?: https.Agent;
+  private authClient?: OAuth2Client;
 
   constructor(accessToken: string, options: GmailServiceOptions = {}) {
-    if (!accessToken) {
+    if (!accessToken && !options.authClient) {
       throw new GmailServiceError(
         'Access token is required',
         'MISSING_ACCESS_TOKEN'
@@ -61,16 +306,27 @@ export class GmailService {
     }
 
     this.accessToken = accessToken;
+    this.authClient = options.authClient;
     this.skipSslVerification = options.skipSslVerification ?? false;
+    this.agent =
+      options.agent ??
+      (this.skipSslVerification
+        ? new https.Agent({ rejectUnauthorized: false })
+        : undefined);
     this.initializeGmailClient();
   }
 
   private initializeGmailClient(): void {
-    // Create OAuth2 client with access token
-    this.oauth2Client = new OAuth2Client();
-    this.oauth2Client.setCredentials({
-      access_token: this.accessToken,
-    });
+    if (this.authClient) {
+      // The client refreshes its access token on its own
+      this.oauth2Client = this.authClient;
+    } else {
+      // Create OAuth2 client with access token
+      this.oauth2Client = new OAuth2Client();
+      this.oauth2Client.setCredentials({
+        access_token: this.accessToken,
+      });
+    }
 
     // We will handle ssl verification manually for each request type
     if (this.skipSslVerification) {
@@ -79,11 +335,16 @@ export class GmailService {
       );
     }
 
-    this.gmail = google.gmail({ version: 'v1', auth: this.oauth2Client });
+    this.gmail = google.gmail({
+      version: 'v1',
+      auth: this.oauth2Client,
+      agent: this.agent,
+    });
   }
 
   /**
-   * Update the access token and reinitialize the Gmail client
+   * Update the access token in place, keeping the Gmail client and its
+   * connections
    * @param accessToken - New Google OAuth2 access token
    */
   public updateAccessToken(accessToken: string): void {
@@ -95,7 +356,7 @@ export class GmailService {
     }
 
     this.accessToken = accessToken;
-    this.initializeGmailClient();
+    this.oauth2Client.setCredentials({ access_token: accessToken });
   }
 
   /**
@@ -129,6 +390,19 @@ export class GmailService {
     return new GmailService(token, options);
   }
 
+  /**
+   * Create a GmailService instance that authenticates with an OAuth2 client
+   * holding a refresh token, so access tokens are renewed automatically
+   * @param authClient - OAuth2 client with refresh credentials
+   * @returns GmailService instance
+   */
+  static fromAuthClient(
+    authClient: OAuth2Client,
+    options: GmailServiceOptions = {}
+  ): GmailService {
+    return new GmailService('', { ...options, authClient });
+  }
+
   /**
    * Get a list of emails from the user's mailbox
    * @param options - Options for filtering and pagination
@@ -144,6 +418,11 @@ export class GmailService {
       // Default to INBOX only if no labelIds specified
       const labelIds = options.labelIds ?? ['INBOX'];
 
+      // Read the mailbox checkpoint first so no later change is missed
+      const historyId = options.includeHistoryId
+        ? await this.getCurrentHistoryId()
+        : undefined;
+
       const response = await this.gmail.users.messages.list({
         userId: 'me',
         maxResults: options.maxResults ?? 10,
@@ -169,6 +448,7 @@ export class GmailService {
             messages: [],
             nextPageToken: response.data.nextPageToken || undefined,
             resultSizeEstimate: response.data.resultSizeEstimate || 0,
+            historyId,
           };
         }
 
@@ -178,6 +458,7 @@ export class GmailService {
           messages: messageDetails,
           nextPageToken: response.data.nextPageToken || undefined,
           resultSizeEstimate: response.data.resultSizeEstimate || 0,
+          historyId,
         };
       }
 
@@ -192,6 +473,7 @@ export class GmailService {
         messages,
         nextPageToken: response.data.nextPageToken || undefined,
         resultSizeEstimate: response.data.resultSizeEstimate || 0,
+        historyId,
       };
     } catch (error: any) {
       return this.handleGmailError(error, 'Failed to fetch email list');
@@ -201,10 +483,14 @@ export class GmailService {
   /**
    * Get detailed information for multiple emails in a single batch request.
    * @param messageIds - Array of message IDs to fetch.
+   * @param format - Message format to request, defaults to metadata.
+   * @param bodyFormat - Output format for the body when it is fetched.
    * @returns Promise containing an array of detailed email information.
    */
   private async batchGetEmailDetails(
-    messageIds: string[]
+    messageIds: string[],
+    format: 'metadata' | 'full' = 'metadata',
+    bodyFormat: EmailBodyFormat = 'text'
   ): Promise<EmailDetails[]> {
     if (messageIds.length === 0) {
       return [];
@@ -224,7 +510,7 @@ export class GmailService {
           `--${boundary}\r\n` +
           `Content-Type: application/http\r\n` +
           `Content-ID: item-${index}\r\n\r\n` +
-          `GET /gmail/v1/users/me/messages/${id}?format=metadata\r\n`;
+          `GET /gmail/v1/users/me/messages/${id}?format=${format}\r\n`;
         return getRequest;
       })
       .join('');
@@ -246,10 +532,8 @@ export class GmailService {
           body: finalRequestBody,
         };
 
-        if (this.skipSslVerification) {
-          requestConfig.agent = new https.Agent({
-            rejectUnauthorized: false,
-          });
+        if (this.agent) {
+          requestConfig.agent = this.agent;
         }
 
         const response: GaxiosResponse<any> =
@@ -326,7 +610,12 @@ export class GmailService {
             }
 
             const message: gmail_v1.Schema$Message = parsedJson;
-            const emailDetails = this.parseMessageToEmailDetails(message);
+            const emailDetails = this.parseMessageToEmailDetails(
+              message,
+              undefined,
+              undefined,
+              bodyFormat
+            );
             emailDetailsList.push(emailDetails);
           } catch (e: any) {
             console.error('Failed to parse batch response part:', e);
@@ -366,19 +655,21 @@ export class GmailService {
    * This is a helper for both getEmailDetails and batchGetEmailDetails.
    * @param message - The raw Gmail message object.
    * @param maxWords - Max words for the body, defaults to 300.
-   * @param includeHeaders - Headers to include, defaults to From, Subject, Date, To.
+   * @param includeHeaders - Headers to include, defaults to From, Subject, Date, To; 'all' for every header.
+   * @param bodyFormat - Output format for the body, defaults to plain text.
    * @returns The parsed EmailDetails object.
    */
   private parseMessageToEmailDetails(
     message: gmail_v1.Schema$Message,
     maxWords: number = 300,
-    includeHeaders: string[] = ['From', 'Subject', 'Date', 'To']
+    includeHeaders: string[] | 'all' = ['From', 'Subject', 'Date', 'To'],
+    bodyFormat: EmailBodyFormat = 'text'
   ): EmailDetails {
-    // Extract text content
-    const fullTextBody = this.extractTextContent(message);
+    // Extract body content in the requested format
+    const fullTextBody = this.extractTextContent(message, bodyFormat);
     const { truncatedText } =
       maxWords > 0
-        ? this.truncateText(fullTextBody, maxWords)
+        ? this.truncateText(fullTextBody, maxWords, bodyFormat)
         : {
             truncatedText: fullTextBody,
           };
@@ -391,9 +682,10 @@ export class GmailService {
       })
     );
 
-    const filteredHeaders = allHeaders.filter(header =>
-      includeHeaders.includes(header.name)
-    );
+    const filteredHeaders =
+      includeHeaders === 'all'
+        ? allHeaders
+        : allHeaders.filter(header => includeHeaders.includes(header.name));
 
     // Build the optimized email details
     const emailDetails: EmailDetails = {
@@ -401,8 +693,10 @@ export class GmailService {
       threadId: message.threadId!,
       snippet: message.snippet || '',
       internalDate: message.internalDate || '',
+      historyId: message.historyId || '',
       textBody: truncatedText,
       headers: filteredHeaders,
+      attachments: this.extractAttachments(message.payload),
     };
 
     return emailDetails;
@@ -444,7 +738,8 @@ export class GmailService {
       const emailDetails = this.parseMessageToEmailDetails(
         message,
         maxWords,
-        includeHeaders
+        options.allHeaders ? 'all' : includeHeaders,
+        options.bodyFormat
       );
 
       return emailDetails;
@@ -472,7 +767,7 @@ export class GmailService {
       const emailDetails = await this.getEmailDetails({
         messageId,
         format: 'metadata',
-        includeHeaders: [], // Get all headers for this method
+        allHeaders: true,
       });
 
       return emailDetails.headers;
@@ -485,190 +780,1808 @@ export class GmailService {
   }
 
   /**
-   * Search emails with a specific query (inbox only by default)
-   * @param query - Gmail search query (e.g., "from:example@gmail.com", "is:unread")
-   * @param maxResults - Maximum number of results (default: 10, max: 20)
-   * @param inboxOnly - Whether to search only in inbox (default: true)
-   * @returns Promise containing search results
+   * List mailbox changes since a history checkpoint: messages added and
+   * deleted, and labels added to or removed from messages
+   * @param options - Starting history ID, filters and paging limit
+   * @returns Promise containing the changes and the new checkpoint
    */
-  async searchEmails(
-    query: string,
-    maxResults: number = 10,
-    inboxOnly: boolean = true
-  ): Promise<EmailListResponse> {
-    return this.getEmailList({
-      query,
-      maxResults,
-      labelIds: inboxOnly ? ['INBOX'] : undefined,
-    });
+  async listChanges(
+    options: HistoryChangesOptions = {}
+  ): Promise<HistoryChangesResponse> {
+    try {
+      HistoryChangesOptionsSchema.parse(options);
+
+      const emptyResponse = (historyId: string): HistoryChangesResponse => ({
+        historyId,
+        messagesAdded: [],
+        messagesDeleted: [],
+        labelsAdded: [],
+        labelsRemoved: [],
+        hasMore: false,
+      });
+
+      if (!options.startHistoryId) {
+        return emptyResponse(await this.getCurrentHistoryId());
+      }
+
+      const maxChanges = options.maxChanges ?? 500;
+      const added = new Map<string, HistoryMessageChange>();
+      const deleted = new Set<string>();
+      const labelsAdded: HistoryMessageChange[] = [];
+      const labelsRemoved: HistoryMessageChange[] = [];
+      let historyId = options.startHistoryId;
+      let recordCount = 0;
+      let lastRecordId = options.startHistoryId;
+      let pageToken: string | undefined;
+
+      const toChange = (message?: gmail_v1.Schema$Message | null) => ({
+        id: message?.id || '',
+        threadId: message?.threadId || '',
+        labelIds: message?.labelIds || [],
+      });
+
+      do {
+        const response = await this.gmail.users.history.list({
+          userId: 'me',
+          startHistoryId: options.startHistoryId,
+          labelId: options.labelId,
+          historyTypes: options.historyTypes,
+          maxResults: Math.min(500, maxChanges - recordCount),
+          pageToken,
+        });
+
+        for (const record of response.data.history || []) {
+          recordCount++;
+          lastRecordId = record.id || lastRecordId;
+          for (const item of record.messagesAdded || []) {
+            added.set(item.message?.id || '', toChange(item.message));
+          }
+          for (const item of record.messagesDeleted || []) {
+            deleted.add(item.message?.id || '');
+          }
+          for (const item of record.labelsAdded || []) {
+            labelsAdded.push({
+              ...toChange(item.message),
+              labelIds: item.labelIds || [],
+            });
+          }
+          for (const item of record.labelsRemoved || []) {
+            labelsRemoved.push({
+              ...toChange(item.message),
+              labelIds: item.labelIds || [],
+            });
+          }
+        }
+
+        historyId = response.data.historyId || historyId;
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken && recordCount < maxChanges);
+
+      // Messages added and deleted in the same window are only reported as deleted
+      deleted.forEach(id => added.delete(id));
+      const notDeleted = (change: HistoryMessageChange) =>
+        !deleted.has(change.id);
+
+      let messagesAdded: (HistoryMessageChange | EmailDetails)[] = [
+        ...added.values(),
+      ];
+      if (options.fetchDetails && messagesAdded.length > 0) {
+        const details = await this.batchGetEmailDetails(
+          messagesAdded.slice(0, 100).map(change => change.id)
+        );
+        const detailsById = new Map(details.map(d => [d.id, d]));
+        messagesAdded = messagesAdded.map(
+          change => detailsById.get(change.id) ?? change
+        );
+      }
+
+      // When stopping early, resume after the last record that was read
+      const hasMore = pageToken !== undefined;
+
+      return {
+        historyId: hasMore ? lastRecordId : historyId,
+        messagesAdded,
+        messagesDeleted: [...deleted],
+        labelsAdded: labelsAdded.filter(notDeleted),
+        labelsRemoved: labelsRemoved.filter(notDeleted),
+        hasMore,
+      };
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        throw new GmailServiceError(
+          `History ID ${options.startHistoryId} is too old or invalid. Call gmail_list_emails with includeHistoryId for a full refresh and use its historyId as the new checkpoint.`,
+          'HISTORY_EXPIRED',
+          404
+        );
+      }
+
+      return this.handleGmailError(error, 'Failed to list mailbox changes');
+    }
   }
 
   /**
-   * Get emails from main inbox only
-   * @param maxResults - Maximum number of results (default: 10, max: 500)
-   * @param pageToken - Token for pagination
-   * @returns Promise containing inbox emails
+   * Get the mailbox owner's address and message counts
+   * @returns Promise containing the mailbox profile
    */
-  async getInboxEmails(
-    maxResults: number = 10,
-    pageToken?: string
-  ): Promise<EmailListResponse> {
-    return this.getEmailList({
-      maxResults,
-      pageToken,
-      labelIds: ['INBOX'],
-    });
+  async getProfile(): Promise<GmailProfile> {
+    try {
+      const { data } = await this.gmail.users.getProfile({ userId: 'me' });
+      return {
+        emailAddress: data.emailAddress || '',
+        messagesTotal: data.messagesTotal || 0,
+        threadsTotal: data.threadsTotal || 0,
+        historyId: data.historyId || '',
+      };
+    } catch (error: any) {
+      return this.handleGmailError(error, 'Failed to get mailbox profile');
+    }
   }
 
   /**
-   * Handle Gmail API errors consistently
+   * Get the addresses the user sends mail as: the account address and its
+   * send-as aliases
+   * @returns Promise containing the lower-cased addresses
    */
-  private handleGmailError(error: any, defaultMessage: string): never {
-    if (error instanceof z.ZodError) {
-      throw new GmailServiceError(
-        `Invalid input parameters: ${error.errors.map(e => e.message).join(', ')}`,
-        'VALIDATION_ERROR'
-      );
+  private async getSelfAddresses(): Promise<Set<string>> {
+    const [{ data: profile }, aliases] = await Promise.all([
+      this.gmail.users.getProfile({ userId: 'me' }),
+      this.gmail.users.settings.sendAs.list({ userId: 'me' }).catch(error => {
+        // Aliases are optional; the account address is enough to go on
+        logger.warn('Could not list send-as aliases', {
+          error: error?.message,
+        });
+        return undefined;
+      }),
+    ]);
+
+    const addresses = new Set<string>();
+    if (profile.emailAddress) {
+      addresses.add(profile.emailAddress.toLowerCase());
     }
-
-    if (error instanceof GmailServiceError) {
-      throw error;
+    for (const alias of aliases?.data.sendAs || []) {
+      if (alias.sendAsEmail) {
+        addresses.add(alias.sendAsEmail.toLowerCase());
+      }
     }
+    return addresses;
+  }
 
-    const statusCode = error?.response?.status;
-    const errorMessage =
-      error?.response?.data?.error?.message ||
-      error?.message ||
-      'Unknown error';
+  /**
+   * Get the mailbox's current history ID
+   * @returns Promise containing the latest history ID
+   */
+  private async getCurrentHistoryId(): Promise<string> {
+    const { data: profile } = await this.gmail.users.getProfile({
+      userId: 'me',
+    });
+    return profile.historyId || '';
+  }
 
-    // Handle common HTTP status codes
-    switch (statusCode) {
-      case 401:
-        throw new GmailServiceError(
-          'Authentication failed. Invalid or expired access token.',
-          'AUTHENTICATION_FAILED',
-          401
-        );
-      case 403:
+  /**
+   * Get all messages of a conversation in chronological order. Quoted reply
+   * history is removed from each message and the remaining bodies share the
+   * maxWords budget.
+   * @param options - Thread ID, word budget and body options
+   * @returns Promise containing the thread and its messages
+   */
+  async getThread(options: ThreadOptions): Promise<EmailThread> {
+    try {
+      ThreadOptionsSchema.parse(options);
+
+      const maxWords = options.maxWords ?? 1500;
+      const bodyFormat = options.bodyFormat ?? 'text';
+      const stripQuotes = options.stripQuotes ?? true;
+
+      const response = await this.gmail.users.threads.get({
+        userId: 'me',
+        id: options.threadId,
+        format: 'full',
+      });
+
+      if (!response.data) {
         throw new GmailServiceError(
-          'Insufficient permissions or quota exceeded.',
-          'PERMISSION_DENIED',
-          403
+          'No data received from Gmail API',
+          'NO_DATA_RECEIVED'
         );
-      case 429:
-        throw new GmailServiceError(
-          'Rate limit exceeded. Please try again later.',
-          'RATE_LIMIT_EXCEEDED',
-          429
+      }
+
+      const messages: ThreadMessage[] = (response.data.messages || []).map(
+        message => {
+          const header = (name: string) =>
+            GmailService.getHeaderValue(message.payload, name);
+
+          const body = this.extractTextContent(message, bodyFormat);
+          const { text, quoteRemoved } =
+            stripQuotes && bodyFormat !== 'html'
+              ? stripQuotedReply(body)
+              : { text: body, quoteRemoved: false };
+
+          return {
+            id: message.id!,
+            from: header('From'),
+            to: header('To'),
+            cc: header('Cc') || undefined,
+            date: header('Date'),
+            subject: header('Subject'),
+            internalDate: message.internalDate || '',
+            textBody: text,
+            quoteRemoved,
+            attachments: this.extractAttachments(message.payload),
+          };
+        }
+      );
+
+      // Gmail returns thread messages oldest first, but keep it explicit
+      messages.sort((a, b) => Number(a.internalDate) - Number(b.internalDate));
+
+      let truncated = false;
+      if (maxWords > 0) {
+        const budgets = this.allocateWordBudget(
+          messages.map(
+            m => this.truncateText(m.textBody, Infinity, bodyFormat).wordCount
+          ),
+          maxWords
         );
-      default:
+        messages.forEach((message, index) => {
+          const result = this.truncateText(
+            message.textBody,
+            budgets[index],
+            bodyFormat
+          );
+          message.textBody = result.truncatedText;
+          truncated = truncated || result.isTruncated;
+        });
+      }
+
+      return {
+        id: response.data.id || options.threadId,
+        subject: messages[0]?.subject || '',
+        messageCount: messages.length,
+        messages,
+        truncated,
+      };
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
         throw new GmailServiceError(
-          `${defaultMessage}: ${errorMessage}`,
-          'API_ERROR',
-          statusCode
+          `Thread with ID ${options.threadId} not found`,
+          'THREAD_NOT_FOUND',
+          404
         );
+      }
+
+      return this.handleGmailError(error, 'Failed to fetch thread');
     }
   }
 
   /**
-   * Helper method to decode base64url encoded email content
-   * @param data - Base64url encoded string
-   * @returns Decoded string
+   * List all labels with their colors and message/thread counts
+   * @returns Promise containing system and user labels
    */
-  static decodeBase64Url(data: string): string {
+  async listLabels(): Promise<GmailLabel[]> {
     try {
-      // Convert base64url to base64
-      const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
-      // Add padding if needed
-      const padding = base64.length % 4;
-      const paddedBase64 = padding ? base64 + '='.repeat(4 - padding) : base64;
+      const response = await this.gmail.users.labels.list({ userId: 'me' });
+      const labels = response.data.labels || [];
+
+      // Counts are only returned by labels.get, fetch them a few at a time
+      const detailed: gmail_v1.Schema$Label[] = [];
+      const concurrency = 10;
+      for (let i = 0; i < labels.length; i += concurrency) {
+        const chunk = labels.slice(i, i + concurrency);
+        const results = await Promise.all(
+          chunk.map(label =>
+            this.gmail.users.labels
+              .get({ userId: 'me', id: label.id! })
+              .then(res => res.data)
+          )
+        );
+        detailed.push(...results);
+      }
 
-      return Buffer.from(paddedBase64, 'base64').toString('utf-8');
-    } catch (error) {
-      throw new GmailServiceError(
-        'Failed to decode base64url data',
-        'DECODE_ERROR'
-      );
+      return detailed.map(label => this.parseLabel(label));
+    } catch (error: any) {
+      return this.handleGmailError(error, 'Failed to list labels');
     }
   }
 
   /**
-   * Extract text content directly from Gmail message response (optimized version)
-   * @param message - Gmail message response
-   * @returns Plain text content
+   * Create a user label
+   * @param options - Label name, colors and visibility
+   * @returns Promise containing the created label
    */
-  private extractTextContent(message: gmail_v1.Schema$Message): string {
-    const findTextPart = (
-      parts: gmail_v1.Schema$MessagePart[]
-    ): string | null => {
-      for (const part of parts) {
-        // Only process text/plain parts, ignore other mime types
-        if (part.mimeType === 'text/plain' && part.body?.data) {
-          try {
-            return GmailService.decodeBase64Url(part.body.data);
-          } catch (error) {
-            logger.error('Failed to decode email part:', error);
-            continue;
-          }
-        }
-        // Recursively check nested parts
-        if (part.parts) {
-          const textFromSubParts = findTextPart(part.parts);
-          if (textFromSubParts) {
-            return textFromSubParts;
-          }
-        }
-      }
-      return null;
-    };
+  async createLabel(options: CreateLabelOptions): Promise<GmailLabel> {
+    try {
+      CreateLabelOptionsSchema.parse(options);
 
-    // Check if the main payload has text data
-    if (
-      message.payload?.mimeType === 'text/plain' &&
-      message.payload.body?.data
-    ) {
-      try {
-        return GmailService.decodeBase64Url(message.payload.body.data);
-      } catch (error) {
-        logger.error('Failed to decode main payload:', error);
-      }
-    }
+      const color =
+        options.textColor || options.backgroundColor
+          ? {
+              textColor: options.textColor ?? '#000000',
+              backgroundColor: options.backgroundColor ?? '#ffffff',
+            }
+          : undefined;
+
+      const response = await this.gmail.users.labels.create({
+        userId: 'me',
+        requestBody: {
+          name: options.name,
+          color,
+          labelListVisibility:
+            options.showInLabelList === false ? 'labelHide' : 'labelShow',
+          messageListVisibility:
+            options.showInMessageList === false ? 'hide' : 'show',
+        },
+      });
 
-    // Check parts for text content
-    if (message.payload?.parts) {
-      const textBody = findTextPart(message.payload.parts);
-      if (textBody) {
-        return textBody;
+      return this.parseLabel(response.data);
+    } catch (error: any) {
+      if (error?.response?.status === 409) {
+        throw new GmailServiceError(
+          `Label ${options.name} already exists`,
+          'LABEL_EXISTS',
+          409
+        );
       }
-    }
 
-    // Fallback to snippet
-    return message.snippet || '';
+      return this.handleGmailError(error, 'Failed to create label');
+    }
   }
 
   /**
-   * Truncate text to specified word count
-   * @param text - Text to truncate
-   * @param maxWords - Maximum number of words
-   * @returns Object with truncated text, word count, and truncation status
+   * Delete a user label. Messages keep existing but lose the label.
+   * @param label - Label name or ID
+   * @returns Promise containing the ID of the deleted label
    */
-  private truncateText(
-    text: string,
-    maxWords: number
-  ): {
-    truncatedText: string;
-    wordCount: number;
-    isTruncated: boolean;
-  } {
-    if (!text) {
-      return {
-        truncatedText: '',
-        wordCount: 0,
-        isTruncated: false,
-      };
+  async deleteLabel(label: string): Promise<string> {
+    try {
+      const [labelId] = await this.resolveLabelIds([label]);
+      await this.gmail.users.labels.delete({ userId: 'me', id: labelId });
+      return labelId;
+    } catch (error: any) {
+      return this.handleGmailError(error, 'Failed to delete label');
     }
+  }
 
-    // Split text into words (simple whitespace-based splitting)
+  /**
+   * Change the state of a message: add or remove labels, mark read or
+   * unread, star, archive and trash
+   * @param options - Message ID and the changes to apply
+   * @returns Promise containing the message with its resulting labels
+   */
+  async modifyMessage(options: ModifyMessageOptions): Promise<ModifiedMessage> {
+    try {
+      ModifyMessageOptionsSchema.parse(options);
+
+      const { addLabelIds, removeLabelIds } =
+        await this.buildLabelChanges(options);
+
+      if (options.trash === true) {
+        await this.gmail.users.messages.trash({
+          userId: 'me',
+          id: options.messageId,
+        });
+      } else if (options.trash === false) {
+        await this.gmail.users.messages.untrash({
+          userId: 'me',
+          id: options.messageId,
+        });
+      }
+
+      let message: gmail_v1.Schema$Message;
+      if (addLabelIds.length > 0 || removeLabelIds.length > 0) {
+        const response = await this.gmail.users.messages.modify({
+          userId: 'me',
+          id: options.messageId,
+          requestBody: { addLabelIds, removeLabelIds },
+        });
+        message = response.data;
+      } else {
+        const response = await this.gmail.users.messages.get({
+          userId: 'me',
+          id: options.messageId,
+          format: 'minimal',
+        });
+        message = response.data;
+      }
+
+      const labelNames = await this.getLabelNameMap();
+      const labelIds = message.labelIds || [];
+      return {
+        id: message.id || options.messageId,
+        threadId: message.threadId || '',
+        labelIds,
+        labels: labelIds.map(id => labelNames.get(id) ?? id),
+      };
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        throw new GmailServiceError(
+          `Email with ID ${options.messageId} not found`,
+          'EMAIL_NOT_FOUND',
+          404
+        );
+      }
+
+      return this.handleGmailError(error, 'Failed to modify email');
+    }
+  }
+
+  /**
+   * Apply label changes, archive or trash to every message matching a query.
+   * Matches are paged through up to maxMessages and modified with
+   * batchModify in chunks of 1000. Dry runs only report the matches.
+   * @param options - Query, changes to apply, dry-run flag and cap
+   * @returns Promise containing match counts and a sample of the messages
+   */
+  async bulkModify(options: BulkModifyOptions): Promise<BulkModifyResult> {
+    try {
+      BulkModifyOptionsSchema.parse(options);
+
+      const dryRun = options.dryRun ?? true;
+      const maxMessages = options.maxMessages ?? 500;
+      const sampleSize = options.sampleSize ?? 10;
+
+      const { addLabelIds, removeLabelIds } =
+        await this.buildLabelChanges(options);
+      if (options.trash === true) {
+        addLabelIds.push('TRASH');
+      } else if (options.trash === false) {
+        removeLabelIds.push('TRASH');
+      }
+
+      if (addLabelIds.length === 0 && removeLabelIds.length === 0) {
+        throw new GmailServiceError(
+          'No changes requested. Provide labels to add or remove, or a markRead, starred, archive or trash action.',
+          'VALIDATION_ERROR'
+        );
+      }
+
+      // Page through matches, fetching one extra to detect the cap
+      const messageIds: string[] = [];
+      let pageToken: string | undefined;
+      let resultSizeEstimate = 0;
+      do {
+        const response = await this.gmail.users.messages.list({
+          userId: 'me',
+          q: options.query,
+          maxResults: Math.min(500, maxMessages + 1 - messageIds.length),
+          pageToken,
+          includeSpamTrash: options.includeSpamTrash ?? false,
+        });
+        messageIds.push(
+          ...(response.data.messages || []).map(message => message.id!)
+        );
+        resultSizeEstimate ||= response.data.resultSizeEstimate || 0;
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken && messageIds.length <= maxMessages);
+
+      const capped = messageIds.length > maxMessages;
+      const targetIds = messageIds.slice(0, maxMessages);
+
+      const sampleDetails = await this.batchGetEmailDetails(
+        targetIds.slice(0, sampleSize)
+      );
+      const sample = sampleDetails.map(details => {
+        const header = (name: string) =>
+          details.headers.find(h => h.name === name)?.value || '';
+        return {
+          id: details.id,
+          from: header('From'),
+          subject: header('Subject'),
+          date: header('Date'),
+        };
+      });
+
+      let modifiedCount = 0;
+      if (!dryRun) {
+        for (let i = 0; i < targetIds.length; i += BATCH_MODIFY_CHUNK_SIZE) {
+          const ids = targetIds.slice(i, i + BATCH_MODIFY_CHUNK_SIZE);
+          await this.gmail.users.messages.batchModify({
+            userId: 'me',
+            requestBody: { ids, addLabelIds, removeLabelIds },
+          });
+          modifiedCount += ids.length;
+        }
+        logger.info(
+          `Bulk modified ${modifiedCount} messages matching "${options.query}"`
+        );
+      }
+
+      return {
+        query: options.query,
+        dryRun,
+        // Listing every match just to count it would cost many requests
+        matchedCount: capped
+          ? Math.max(resultSizeEstimate, messageIds.length)
+          : targetIds.length,
+        matchedCountEstimated: capped,
+        processedCount: targetIds.length,
+        capped,
+        modifiedCount,
+        addLabelIds,
+        removeLabelIds,
+        sample,
+      };
+    } catch (error: any) {
+      return this.handleGmailError(error, 'Failed to bulk modify emails');
+    }
+  }
+
+  /**
+   * Translate triage flags and label names into Gmail label ID changes
+   * @param options - Labels to add/remove and read, star, archive flags
+   * @returns Promise containing label IDs to add and remove
+   */
+  private async buildLabelChanges(
+    options: Omit<ModifyMessageOptions, 'messageId' | 'trash'>
+  ): Promise<{ addLabelIds: string[]; removeLabelIds: string[] }> {
+    const add = new Set(await this.resolveLabelIds(options.addLabels || []));
+    const remove = new Set(
+      await this.resolveLabelIds(options.removeLabels || [])
+    );
+
+    const toggle = (labelId: string, enabled: boolean | undefined) => {
+      if (enabled === true) {
+        add.add(labelId);
+        remove.delete(labelId);
+      } else if (enabled === false) {
+        remove.add(labelId);
+        add.delete(labelId);
+      }
+    };
+    toggle(
+      'UNREAD',
+      options.markRead === undefined ? undefined : !options.markRead
+    );
+    toggle('STARRED', options.starred);
+    toggle('IMPORTANT', options.important);
+    toggle(
+      'INBOX',
+      options.archive === undefined ? undefined : !options.archive
+    );
+
+    return { addLabelIds: [...add], removeLabelIds: [...remove] };
+  }
+
+  /**
+   * Resolve label names or IDs to label IDs. Names match case-insensitively.
+   * @param labels - Label names or IDs
+   * @returns Promise containing label IDs in the same order
+   */
+  private async resolveLabelIds(labels: string[]): Promise<string[]> {
+    if (labels.length === 0) {
+      return [];
+    }
+
+    const response = await this.gmail.users.labels.list({ userId: 'me' });
+    const known = response.data.labels || [];
+
+    return labels.map(label => {
+      const match =
+        known.find(l => l.id === label) ??
+        known.find(l => l.name?.toLowerCase() === label.toLowerCase());
+      if (!match?.id) {
+        throw new GmailServiceError(
+          `Label ${label} not found. Use gmail_list_labels to see available labels.`,
+          'LABEL_NOT_FOUND',
+          404
+        );
+      }
+      return match.id;
+    });
+  }
+
+  /**
+   * Map label IDs to their display names
+   * @returns Promise containing a label ID to name map
+   */
+  private async getLabelNameMap(): Promise<Map<string, string>> {
+    const response = await this.gmail.users.labels.list({ userId: 'me' });
+    return new Map(
+      (response.data.labels || []).map(label => [
+        label.id || '',
+        label.name || '',
+      ])
+    );
+  }
+
+  /**
+   * Parse a Gmail label into our GmailLabel format
+   * @param label - The raw Gmail label object
+   * @returns The parsed label
+   */
+  private parseLabel(label: gmail_v1.Schema$Label): GmailLabel {
+    return {
+      id: label.id!,
+      name: label.name || label.id!,
+      type: label.type === 'system' ? 'system' : 'user',
+      color: label.color
+        ? {
+            textColor: label.color.textColor || undefined,
+            backgroundColor: label.color.backgroundColor || undefined,
+          }
+        : undefined,
+      messagesTotal: label.messagesTotal ?? undefined,
+      messagesUnread: label.messagesUnread ?? undefined,
+      threadsTotal: label.threadsTotal ?? undefined,
+      threadsUnread: label.threadsUnread ?? undefined,
+    };
+  }
+
+  /**
+   * Download an attachment. Text-like files (CSV, TXT, JSON, ICS, ...) are
+   * returned as decoded text, other files as standard base64 data.
+   * @param options - Message ID, attachment ID and size limits
+   * @returns Promise containing the attachment metadata and content
+   */
+  async getAttachment(
+    options: AttachmentOptions
+  ): Promise<EmailAttachmentContent> {
+    try {
+      AttachmentOptionsSchema.parse(options);
+
+      const maxBytes = options.maxBytes ?? 1024 * 1024;
+      const maxChars = options.maxChars ?? 20000;
+
+      // Look up the part to learn the filename and MIME type. Attachment IDs
+      // change on every fetch of the message, so the part ID is the stable key
+      const { data: message } = await this.gmail.users.messages.get({
+        userId: 'me',
+        id: options.messageId,
+        format: 'full',
+      });
+      const attachments = this.extractAttachments(message.payload);
+      const attachment =
+        attachments.find(
+          a => options.partId !== undefined && a.partId === options.partId
+        ) ??
+        attachments.find(a => a.attachmentId === options.attachmentId) ??
+        attachments.find(
+          a => options.filename !== undefined && a.filename === options.filename
+        );
+
+      const filename = attachment?.filename ?? options.filename ?? 'attachment';
+      const mimeType = attachment?.mimeType ?? 'application/octet-stream';
+      const isText = GmailService.isTextLikeAttachment(mimeType, filename);
+
+      if (!isText && attachment && attachment.size > maxBytes) {
+        throw new GmailServiceError(
+          `Attachment ${filename} is ${attachment.size} bytes, which exceeds the ${maxBytes} byte limit`,
+          'ATTACHMENT_TOO_LARGE',
+          413
+        );
+      }
+
+      // Rotated attachment IDs are resolved through the matched part
+      const response = await this.gmail.users.messages.attachments.get({
+        userId: 'me',
+        messageId: options.messageId,
+        id: attachment?.attachmentId ?? options.attachmentId,
+      });
+
+      if (!response.data?.data) {
+        throw new GmailServiceError(
+          'No data received from Gmail API',
+          'NO_DATA_RECEIVED'
+        );
+      }
+
+      const size = response.data.size ?? attachment?.size ?? 0;
+      const result: EmailAttachmentContent = {
+        messageId: options.messageId,
+        attachmentId: options.attachmentId,
+        partId: attachment?.partId,
+        filename,
+        mimeType,
+        size,
+        encoding: isText ? 'text' : 'base64',
+      };
+
+      if (isText) {
+        const text = GmailService.decodeBase64Url(response.data.data);
+        result.text = text.length > maxChars ? text.slice(0, maxChars) : text;
+        result.truncated = text.length > maxChars;
+        return result;
+      }
+
+      if (size > maxBytes) {
+        throw new GmailServiceError(
+          `Attachment ${filename} is ${size} bytes, which exceeds the ${maxBytes} byte limit`,
+          'ATTACHMENT_TOO_LARGE',
+          413
+        );
+      }
+
+      result.data = GmailService.toBase64(response.data.data);
+      return result;
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        throw new GmailServiceError(
+          `Attachment ${options.attachmentId} of email ${options.messageId} not found`,
+          'ATTACHMENT_NOT_FOUND',
+          404
+        );
+      }
+
+      return this.handleGmailError(error, 'Failed to fetch attachment');
+    }
+  }
+
+  /**
+   * Get the iCalendar data of a meeting invite: every text/calendar part or
+   * .ics attachment of a message, or a single attachment
+   * @param messageId - Gmail message ID
+   * @param attachmentId - Optional attachment ID to read only that part
+   * @returns Promise containing the iCalendar texts found
+   */
+  async getCalendarInvites(
+    messageId: string,
+    attachmentId?: string
+  ): Promise<string[]> {
+    try {
+      if (attachmentId) {
+        // Read the bytes directly: getAttachment truncates extracted text
+        const response = await this.gmail.users.messages.attachments.get({
+          userId: 'me',
+          messageId,
+          id: attachmentId,
+        });
+        return response.data.data
+          ? [GmailService.decodeBase64Url(response.data.data)]
+          : [];
+      }
+
+      const { data: message } = await this.gmail.users.messages.get({
+        userId: 'me',
+        id: messageId,
+        format: 'full',
+      });
+
+      const parts: gmail_v1.Schema$MessagePart[] = [];
+      const collect = (part: gmail_v1.Schema$MessagePart | undefined) => {
+        if (!part) {
+          return;
+        }
+        const mimeType = (part.mimeType || '').toLowerCase();
+        if (
+          mimeType === 'text/calendar' ||
+          mimeType === 'application/ics' ||
+          (part.filename || '').toLowerCase().endsWith('.ics')
+        ) {
+          parts.push(part);
+        }
+        (part.parts || []).forEach(collect);
+      };
+      collect(message.payload);
+
+      const invites: string[] = [];
+      for (const part of parts) {
+        // Small parts are inline, larger ones are fetched as attachments
+        let data = part.body?.data;
+        if (!data && part.body?.attachmentId) {
+          const response = await this.gmail.users.messages.attachments.get({
+            userId: 'me',
+            messageId,
+            id: part.body.attachmentId,
+          });
+          data = response.data.data;
+        }
+        if (data) {
+          invites.push(GmailService.decodeBase64Url(data));
+        }
+      }
+      // Invites often carry the same event as a body part and an attachment
+      return [...new Set(invites)];
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        throw new GmailServiceError(
+          `Email with ID ${messageId} not found`,
+          'EMAIL_NOT_FOUND',
+          404
+        );
+      }
+      return this.handleGmailError(error, 'Failed to read calendar invite');
+    }
+  }
+
+  /**
+   * Send an email. The message is built as RFC 2822 / MIME and sent as a
+   * base64url encoded raw message.
+   * @param options - Recipients, subject, bodies and attachments
+   * @returns Promise containing the sent message ID and thread ID
+   */
+  async sendEmail(options: SendEmailOptions): Promise<SentEmail> {
+    try {
+      SendEmailOptionsSchema.parse(options);
+
+      const raw = this.buildRawMessage(options);
+      return await this.sendRawMessage(raw);
+    } catch (error: any) {
+      return this.handleGmailError(error, 'Failed to send email');
+    }
+  }
+
+  /**
+   * Reply to an email within its thread. In-Reply-To and References are set
+   * from the original message so that Gmail and other clients thread the
+   * reply correctly.
+   * @param options - Original message ID, reply body and reply-all flag
+   * @returns Promise containing the sent message ID and thread ID
+   */
+  async replyToEmail(options: ReplyEmailOptions): Promise<SentEmail> {
+    try {
+      ReplyEmailOptionsSchema.parse(options);
+
+      const reply = await this.prepareReply(
+        options.messageId,
+        options.replyAll ?? false,
+        options.cc
+      );
+
+      const raw = this.buildRawMessage({
+        to: reply.to,
+        cc: reply.cc,
+        bcc: options.bcc,
+        subject: reply.subject,
+        textBody: options.textBody,
+        htmlBody: options.htmlBody,
+        attachments: options.attachments,
+        headers: reply.headers,
+      });
+
+      return await this.sendRawMessage(raw, reply.threadId);
+    } catch (error: any) {
+      return this.handleGmailError(error, 'Failed to reply to email');
+    }
+  }
+
+  /**
+   * Work out recipients, subject and threading headers for a reply. The
+   * original headers are read the same way getEmailHeaders reads them.
+   * @param messageId - The message being replied to
+   * @param replyAll - Whether to include the original To and Cc recipients
+   * @param extraCc - Additional CC recipients
+   * @returns Promise containing the reply envelope
+   */
+  private async prepareReply(
+    messageId: string,
+    replyAll: boolean,
+    extraCc: string[] = []
+  ): Promise<{
+    to: string[];
+    cc: string[];
+    subject: string;
+    headers: Record<string, string>;
+    threadId: string;
+  }> {
+    const original = await this.getEmailDetails({
+      messageId,
+      format: 'metadata',
+      allHeaders: true,
+    });
+    const header = (name: string) =>
+      original.headers.find(h => h.name.toLowerCase() === name.toLowerCase())
+        ?.value || '';
+
+    const selfAddresses = await this.getSelfAddresses();
+    const isSelf = (address: string) =>
+      selfAddresses.has(extractEmailAddress(address));
+
+    // Replying to our own message goes to its original recipients
+    const originalFrom = header('Reply-To') || header('From');
+    let to = parseAddressList(originalFrom);
+    if (to.every(isSelf)) {
+      to = parseAddressList(header('To'));
+    }
+
+    let cc: string[] = replyAll
+      ? [...parseAddressList(header('To')), ...parseAddressList(header('Cc'))]
+      : [];
+    cc.push(...extraCc);
+
+    // Drop ourselves and duplicates from the recipient lists
+    const seen = new Set<string>();
+    const dedupe = (address: string) => {
+      const email = extractEmailAddress(address);
+      if (isSelf(address) || seen.has(email)) {
+        return false;
+      }
+      seen.add(email);
+      return true;
+    };
+    to = to.filter(dedupe);
+    cc = cc.filter(dedupe);
+
+    // A note to self is answered to ourselves
+    if (to.length === 0) {
+      const self = parseAddressList(originalFrom).find(isSelf);
+      if (self) {
+        to = [self];
+      }
+    }
+
+    if (to.length === 0) {
+      throw new GmailServiceError(
+        'Could not determine reply recipients from the original email',
+        'NO_RECIPIENTS'
+      );
+    }
+
+    const originalSubject = header('Subject');
+    const subject = /^re:/i.test(originalSubject)
+      ? originalSubject
+      : `Re: ${originalSubject}`;
+
+    return {
+      to,
+      cc,
+      subject,
+      headers: this.threadingHeaders(
+        header('Message-ID'),
+        header('References')
+      ),
+      threadId: original.threadId,
+    };
+  }
+
+  /**
+   * Forward an email with its body quoted below an optional note and its
+   * attachments carried along
+   * @param options - Original message ID, recipients and note
+   * @returns Promise containing the sent message ID and thread ID
+   */
+  async forwardEmail(options: ForwardEmailOptions): Promise<SentEmail> {
+    try {
+      ForwardEmailOptionsSchema.parse(options);
+
+      const { data: original } = await this.gmail.users.messages.get({
+        userId: 'me',
+        id: options.messageId,
+        format: 'full',
+      });
+      const header = (name: string) =>
+        GmailService.getHeaderValue(original.payload, name);
+
+      const forwardedHeaders = [
+        ['From', header('From')],
+        ['Date', header('Date')],
+        ['Subject', header('Subject')],
+        ['To', header('To')],
+        ['Cc', header('Cc')],
+      ].filter(([, value]) => value);
+
+      const originalHtml = this.findBodyPart(original.payload, 'text/html');
+      const originalText =
+        this.findBodyPart(original.payload, 'text/plain') ??
+        (originalHtml ? htmlToText(originalHtml) : original.snippet || '');
+
+      const textBody = [
+        options.textBody ??
+          (options.htmlBody !== undefined ? htmlToText(options.htmlBody) : ''),
+        '',
+        '---------- Forwarded message ---------',
+        ...forwardedHeaders.map(([name, value]) => `${name}: ${value}`),
+        '',
+        originalText,
+      ].join('\n');
+
+      let htmlBody: string | undefined;
+      if (originalHtml || options.htmlBody !== undefined) {
+        const note =
+          options.htmlBody ??
+          escapeHtml(options.textBody ?? '').replace(/\n/g, '<br>');
+        const headerBlock = forwardedHeaders
+          .map(([name, value]) => `${name}: ${escapeHtml(value)}<br>`)
+          .join('');
+        const quoted = originalHtml
+          ? sanitizeHtml(originalHtml)
+          : escapeHtml(originalText).replace(/\n/g, '<br>');
+        htmlBody =
+          `<div>${note}</div><br><div class="gmail_quote">` +
+          `---------- Forwarded message ---------<br>${headerBlock}<br>` +
+          `${quoted}</div>`;
+      }
+
+      const forwardedAttachments =
+        options.includeAttachments === false
+          ? []
+          : await this.downloadMimeAttachments(
+              options.messageId,
+              this.extractAttachments(original.payload)
+            );
+
+      const originalSubject = header('Subject');
+      const subject = /^(fwd?|fw):/i.test(originalSubject)
+        ? originalSubject
+        : `Fwd: ${originalSubject}`;
+
+      const raw = this.buildRawMessage(
+        {
+          to: options.to,
+          cc: options.cc,
+          bcc: options.bcc,
+          subject,
+          textBody,
+          htmlBody,
+          attachments: options.attachments,
+          headers: this.threadingHeaders(
+            header('Message-ID'),
+            header('References')
+          ),
+        },
+        forwardedAttachments
+      );
+
+      return await this.sendRawMessage(raw, original.threadId || undefined);
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        throw new GmailServiceError(
+          `Email with ID ${options.messageId} not found`,
+          'EMAIL_NOT_FOUND',
+          404
+        );
+      }
+
+      return this.handleGmailError(error, 'Failed to forward email');
+    }
+  }
+
+  /**
+   * Create a draft. Drafts created as replies are threaded with the original
+   * message the same way replyToEmail threads a sent reply.
+   * @param options - Recipients, subject, bodies and optional reply target
+   * @returns Promise containing the created draft
+   */
+  async createDraft(options: DraftOptions): Promise<EmailDraft> {
+    try {
+      DraftOptionsSchema.parse(options);
+
+      let headers: Record<string, string> = {};
+      let threadId: string | undefined;
+      let to = options.to ?? [];
+      let cc = options.cc ?? [];
+      let subject = options.subject ?? '';
+
+      if (options.replyToMessageId) {
+        const reply = await this.prepareReply(
+          options.replyToMessageId,
+          options.replyAll ?? false,
+          options.cc
+        );
+        headers = reply.headers;
+        threadId = reply.threadId;
+        to = options.to ?? reply.to;
+        cc = reply.cc;
+        subject = options.subject ?? reply.subject;
+      }
+
+      const raw = this.buildRawMessage({
+        to,
+        cc,
+        bcc: options.bcc,
+        subject,
+        textBody: options.textBody,
+        htmlBody: options.htmlBody,
+        attachments: options.attachments,
+        headers,
+      });
+
+      const response = await this.gmail.users.drafts.create({
+        userId: 'me',
+        requestBody: { message: { raw, threadId } },
+      });
+
+      if (!response.data?.id) {
+        throw new GmailServiceError(
+          'No data received from Gmail API',
+          'NO_DATA_RECEIVED'
+        );
+      }
+
+      return await this.getDraft({ draftId: response.data.id });
+    } catch (error: any) {
+      return this.handleGmailError(error, 'Failed to create draft');
+    }
+  }
+
+  /**
+   * Update a draft. Fields that are omitted keep their current values,
+   * including attachments and reply threading.
+   * @param options - Draft ID and the fields to change
+   * @returns Promise containing the updated draft
+   */
+  async updateDraft(options: UpdateDraftOptions): Promise<EmailDraft> {
+    try {
+      UpdateDraftOptionsSchema.parse(options);
+
+      const { data: draft } = await this.gmail.users.drafts.get({
+        userId: 'me',
+        id: options.draftId,
+        format: 'full',
+      });
+      const existing = draft.message;
+      if (!existing?.id) {
+        throw new GmailServiceError(
+          `Draft with ID ${options.draftId} has no message`,
+          'NO_DATA_RECEIVED'
+        );
+      }
+      const header = (name: string) =>
+        GmailService.getHeaderValue(existing.payload, name);
+      const addresses = (name: string) => parseAddressList(header(name));
+
+      const replaceBody =
+        options.textBody !== undefined || options.htmlBody !== undefined;
+      const textBody = replaceBody
+        ? options.textBody
+        : (this.findBodyPart(existing.payload, 'text/plain') ?? undefined);
+      const htmlBody = replaceBody
+        ? options.htmlBody
+        : (this.findBodyPart(existing.payload, 'text/html') ?? undefined);
+
+      // Keep the current attachments unless new ones are given
+      const existingAttachments =
+        options.attachments === undefined
+          ? await this.downloadMimeAttachments(
+              existing.id,
+              this.extractAttachments(existing.payload)
+            )
+          : [];
+
+      const threadingHeaders: Record<string, string> = {};
+      for (const name of ['In-Reply-To', 'References']) {
+        if (header(name)) {
+          threadingHeaders[name] = header(name);
+        }
+      }
+
+      const raw = this.buildRawMessage(
+        {
+          to: options.to ?? addresses('To'),
+          cc: options.cc ?? addresses('Cc'),
+          bcc: options.bcc ?? addresses('Bcc'),
+          subject: options.subject ?? header('Subject'),
+          textBody,
+          htmlBody,
+          attachments: options.attachments,
+          headers: threadingHeaders,
+        },
+        existingAttachments
+      );
+
+      await this.gmail.users.drafts.update({
+        userId: 'me',
+        id: options.draftId,
+        requestBody: {
+          message: { raw, threadId: existing.threadId || undefined },
+        },
+      });
+
+      return await this.getDraft({ draftId: options.draftId });
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        throw new GmailServiceError(
+          `Draft with ID ${options.draftId} not found`,
+          'DRAFT_NOT_FOUND',
+          404
+        );
+      }
+
+      return this.handleGmailError(error, 'Failed to update draft');
+    }
+  }
+
+  /**
+   * Get a draft with its message in the same shape as getEmailDetails
+   * @param options - Draft ID, word limit and body format
+   * @returns Promise containing the draft
+   */
+  async getDraft(options: DraftDetailsOptions): Promise<EmailDraft> {
+    try {
+      DraftDetailsOptionsSchema.parse(options);
+
+      const response = await this.gmail.users.drafts.get({
+        userId: 'me',
+        id: options.draftId,
+        format: 'full',
+      });
+
+      if (!response.data?.message) {
+        throw new GmailServiceError(
+          'No data received from Gmail API',
+          'NO_DATA_RECEIVED'
+        );
+      }
+
+      return {
+        id: response.data.id || options.draftId,
+        message: this.parseMessageToEmailDetails(
+          response.data.message,
+          options.maxWords ?? 300,
+          DRAFT_HEADERS,
+          options.bodyFormat
+        ),
+      };
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        throw new GmailServiceError(
+          `Draft with ID ${options.draftId} not found`,
+          'DRAFT_NOT_FOUND',
+          404
+        );
+      }
+
+      return this.handleGmailError(error, 'Failed to fetch draft');
+    }
+  }
+
+  /**
+   * List drafts with their message headers and snippet
+   * @param options - Options for filtering and pagination
+   * @returns Promise containing drafts and pagination info
+   */
+  async listDrafts(options: DraftListOptions = {}): Promise<DraftListResponse> {
+    try {
+      DraftListOptionsSchema.parse(options);
+
+      const response = await this.gmail.users.drafts.list({
+        userId: 'me',
+        maxResults: options.maxResults ?? 10,
+        pageToken: options.pageToken,
+        q: options.query,
+      });
+
+      const drafts = (response.data.drafts || []).filter(
+        draft => draft.id && draft.message?.id
+      );
+      const details = await this.batchGetEmailDetails(
+        drafts.map(draft => draft.message!.id!)
+      );
+      const detailsById = new Map(details.map(d => [d.id, d]));
+
+      return {
+        drafts: drafts.map(draft => ({
+          id: draft.id!,
+          message: detailsById.get(draft.message!.id!) ?? {
+            id: draft.message!.id!,
+            threadId: draft.message!.threadId || '',
+            snippet: '',
+            internalDate: '',
+            historyId: '',
+            textBody: '',
+            headers: [],
+            attachments: [],
+          },
+        })),
+        nextPageToken: response.data.nextPageToken || undefined,
+        resultSizeEstimate: response.data.resultSizeEstimate || 0,
+      };
+    } catch (error: any) {
+      return this.handleGmailError(error, 'Failed to list drafts');
+    }
+  }
+
+  /**
+   * Send an existing draft
+   * @param draftId - The ID of the draft to send
+   * @returns Promise containing the sent message ID and thread ID
+   */
+  async sendDraft(draftId: string): Promise<SentEmail> {
+    try {
+      const response = await this.gmail.users.drafts.send({
+        userId: 'me',
+        requestBody: { id: draftId },
+      });
+
+      if (!response.data?.id) {
+        throw new GmailServiceError(
+          'No data received from Gmail API',
+          'NO_DATA_RECEIVED'
+        );
+      }
+
+      return {
+        id: response.data.id,
+        threadId: response.data.threadId || '',
+        labelIds: response.data.labelIds || [],
+      };
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        throw new GmailServiceError(
+          `Draft with ID ${draftId} not found`,
+          'DRAFT_NOT_FOUND',
+          404
+        );
+      }
+
+      return this.handleGmailError(error, 'Failed to send draft');
+    }
+  }
+
+  /**
+   * Permanently delete a draft
+   * @param draftId - The ID of the draft to delete
+   */
+  async deleteDraft(draftId: string): Promise<void> {
+    try {
+      await this.gmail.users.drafts.delete({ userId: 'me', id: draftId });
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        throw new GmailServiceError(
+          `Draft with ID ${draftId} not found`,
+          'DRAFT_NOT_FOUND',
+          404
+        );
+      }
+
+      return this.handleGmailError(error, 'Failed to delete draft');
+    }
+  }
+
+  /**
+   * Build In-Reply-To and References headers for a message in a thread
+   * @param messageIdHeader - Message-ID header of the original message
+   * @param referencesHeader - References header of the original message
+   * @returns Headers to add to the new message
+   */
+  private threadingHeaders(
+    messageIdHeader: string,
+    referencesHeader: string
+  ): Record<string, string> {
+    if (!messageIdHeader) {
+      return {};
+    }
+    const references = [referencesHeader, messageIdHeader]
+      .filter(Boolean)
+      .join(' ');
+    return { 'In-Reply-To': messageIdHeader, References: references };
+  }
+
+  /**
+   * Download attachments of a message as MIME attachments
+   * @param messageId - The message that owns the attachments
+   * @param attachments - Attachment metadata from extractAttachments
+   * @returns Promise containing decoded attachments
+   */
+  private async downloadMimeAttachments(
+    messageId: string,
+    attachments: EmailAttachment[]
+  ): Promise<MimeAttachment[]> {
+    const totalSize = attachments.reduce((sum, a) => sum + a.size, 0);
+    if (totalSize > MAX_FORWARD_ATTACHMENT_BYTES) {
+      throw new GmailServiceError(
+        `Attachments total ${totalSize} bytes, which exceeds the ${MAX_FORWARD_ATTACHMENT_BYTES} byte forwarding limit. Set includeAttachments to false to forward without them.`,
+        'ATTACHMENT_TOO_LARGE',
+        413
+      );
+    }
+
+    const downloaded: MimeAttachment[] = [];
+    for (const attachment of attachments) {
+      const response = await this.gmail.users.messages.attachments.get({
+        userId: 'me',
+        messageId,
+        id: attachment.attachmentId,
+      });
+      downloaded.push({
+        filename: attachment.filename || 'attachment',
+        mimeType: attachment.mimeType,
+        data: Buffer.from(
+          GmailService.toBase64(response.data.data || ''),
+          'base64'
+        ),
+        contentId: attachment.inline ? attachment.contentId : undefined,
+      });
+    }
+    return downloaded;
+  }
+
+  /**
+   * Build a base64url encoded MIME message from send options
+   * @param options - Message options, plus extra headers such as In-Reply-To
+   * @param extraAttachments - Already decoded attachments, e.g. forwarded files
+   * @returns Base64url encoded raw message
+   */
+  private buildRawMessage(
+    options: SendEmailOptions & { headers?: Record<string, string> },
+    extraAttachments: MimeAttachment[] = []
+  ): string {
+    // Give HTML-only messages a plain text alternative
+    const textBody =
+      options.textBody ??
+      (options.htmlBody !== undefined ? htmlToText(options.htmlBody) : '');
+
+    const message = buildMimeMessage({
+      to: options.to,
+      cc: options.cc,
+      bcc: options.bcc,
+      subject: options.subject,
+      textBody,
+      htmlBody: options.htmlBody,
+      attachments: [
+        ...(options.attachments || []).map(GmailService.toMimeAttachment),
+        ...extraAttachments,
+      ],
+      headers: options.headers,
+    });
+
+    return GmailService.encodeBase64Url(message);
+  }
+
+  /**
+   * Send a raw message, optionally within an existing thread
+   * @param raw - Base64url encoded RFC 2822 message
+   * @param threadId - Thread to add the message to
+   * @returns Promise containing the sent message ID and thread ID
+   */
+  private async sendRawMessage(
+    raw: string,
+    threadId?: string
+  ): Promise<SentEmail> {
+    const response = await this.gmail.users.messages.send({
+      userId: 'me',
+      requestBody: { raw, threadId },
+    });
+
+    if (!response.data?.id) {
+      throw new GmailServiceError(
+        'No data received from Gmail API',
+        'NO_DATA_RECEIVED'
+      );
+    }
+
+    return {
+      id: response.data.id,
+      threadId: response.data.threadId || '',
+      labelIds: response.data.labelIds || [],
+    };
+  }
+
+  /**
+   * Search emails with a specific query (inbox only by default)
+   * @param query - Gmail search query (e.g., "from:example@gmail.com", "is:unread")
+   * @param maxResults - Maximum number of results (default: 10, max: 20)
+   * @param inboxOnly - Whether to search only in inbox (default: true)
+   * @returns Promise containing search results
+   */
+  async searchEmails(
+    query: string,
+    maxResults: number = 10,
+    inboxOnly: boolean = true
+  ): Promise<EmailListResponse> {
+    return this.getEmailList({
+      query,
+      maxResults,
+      labelIds: inboxOnly ? ['INBOX'] : undefined,
+    });
+  }
+
+  /**
+   * Get emails from main inbox only
+   * @param maxResults - Maximum number of results (default: 10, max: 500)
+   * @param pageToken - Token for pagination
+   * @returns Promise containing inbox emails
+   */
+  async getInboxEmails(
+    maxResults: number = 10,
+    pageToken?: string
+  ): Promise<EmailListResponse> {
+    return this.getEmailList({
+      maxResults,
+      pageToken,
+      labelIds: ['INBOX'],
+    });
+  }
+
+  /**
+   * Handle Gmail API errors consistently
+   */
+  private handleGmailError(error: any, defaultMessage: string): never {
+    if (error instanceof z.ZodError) {
+      throw new GmailServiceError(
+        `Invalid input parameters: ${error.errors.map(e => e.message).join(', ')}`,
+        'VALIDATION_ERROR'
+      );
+    }
+
+    if (error instanceof GmailServiceError) {
+      throw error;
+    }
+
+    const statusCode = error?.response?.status;
+    const errorMessage =
+      error?.response?.data?.error?.message ||
+      error?.message ||
+      'Unknown error';
+
+    // Handle common HTTP status codes
+    switch (statusCode) {
+      case 401:
+        throw new GmailServiceError(
+          'Authentication failed. Invalid or expired access token.',
+          'AUTHENTICATION_FAILED',
+          401
+        );
+      case 403:
+        throw new GmailServiceError(
+          'Insufficient permissions or quota exceeded.',
+          'PERMISSION_DENIED',
+          403
+        );
+      case 429:
+        throw new GmailServiceError(
+          'Rate limit exceeded. Please try again later.',
+          'RATE_LIMIT_EXCEEDED',
+          429
+        );
+      default:
+        throw new GmailServiceError(
+          `${defaultMessage}: ${errorMessage}`,
+          'API_ERROR',
+          statusCode
+        );
+    }
+  }
+
+  /**
+   * Helper method to decode base64url encoded email content
+   * @param data - Base64url encoded string
+   * @returns Decoded string
+   */
+  static decodeBase64Url(data: string): string {
+    try {
+      // Convert base64url to base64
+      const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+      // Add padding if needed
+      const padding = base64.length % 4;
+      const paddedBase64 = padding ? base64 + '='.repeat(4 - padding) : base64;
+
+      return Buffer.from(paddedBase64, 'base64').toString('utf-8');
+    } catch (error) {
+      throw new GmailServiceError(
+        'Failed to decode base64url data',
+        'DECODE_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Find a header value on a message part, ignoring header name case
+   * @param part - Message payload or part
+   * @param name - Header name (e.g., "Message-ID")
+   * @returns Header value, or an empty string if absent
+   */
+  static getHeaderValue(
+    part: gmail_v1.Schema$MessagePart | undefined,
+    name: string
+  ): string {
+    return (
+      part?.headers?.find(h => h.name?.toLowerCase() === name.toLowerCase())
+        ?.value || ''
+    );
+  }
+
+  /**
+   * Helper method to base64url encode content, the inverse of decodeBase64Url
+   * @param data - UTF-8 string or binary content
+   * @returns Unpadded base64url encoded string
+   */
+  static encodeBase64Url(data: string | Buffer): string {
+    const buffer = typeof data === 'string' ? Buffer.from(data, 'utf-8') : data;
+    return buffer
+      .toString('base64')
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+  }
+
+  /**
+   * Convert an outgoing attachment into a MIME attachment
+   * @param attachment - Attachment with base64 data or text content
+   * @returns Attachment with decoded binary content
+   */
+  private static toMimeAttachment(
+    attachment: OutgoingAttachment
+  ): MimeAttachment {
+    const data =
+      attachment.data !== undefined
+        ? Buffer.from(GmailService.toBase64(attachment.data), 'base64')
+        : Buffer.from(attachment.text ?? '', 'utf-8');
+    const defaultType =
+      attachment.data !== undefined
+        ? 'application/octet-stream'
+        : 'text/plain; charset="UTF-8"';
+
+    return {
+      filename: attachment.filename,
+      mimeType: attachment.mimeType || defaultType,
+      data,
+    };
+  }
+
+  /**
+   * Helper method to convert base64url data to standard base64
+   * @param data - Base64url encoded string
+   * @returns Padded standard base64 string
+   */
+  static toBase64(data: string): string {
+    const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+    const padding = base64.length % 4;
+    return padding ? base64 + '='.repeat(4 - padding) : base64;
+  }
+
+  /**
+   * Whether an attachment should be returned as extracted text
+   * @param mimeType - Attachment MIME type
+   * @param filename - Attachment filename, used when the MIME type is generic
+   */
+  static isTextLikeAttachment(mimeType: string, filename: string): boolean {
+    const type = mimeType.toLowerCase().split(';')[0].trim();
+    if (type.startsWith('text/') || TEXT_ATTACHMENT_MIME_TYPES.includes(type)) {
+      return true;
+    }
+    const extension = filename.toLowerCase().split('.').pop() || '';
+    return (
+      filename.includes('.') && TEXT_ATTACHMENT_EXTENSIONS.includes(extension)
+    );
+  }
+
+  /**
+   * Collect attachment metadata from a message payload
+   * @param part - Message payload or part to search recursively
+   * @returns Attachments found in the part tree
+   */
+  private extractAttachments(
+    part: gmail_v1.Schema$MessagePart | undefined
+  ): EmailAttachment[] {
+    if (!part) {
+      return [];
+    }
+
+    const attachments: EmailAttachment[] = [];
+    if (part.body?.attachmentId) {
+      const disposition = GmailService.getHeaderValue(
+        part,
+        'Content-Disposition'
+      );
+      const contentId = GmailService.getHeaderValue(part, 'Content-ID');
+      attachments.push({
+        attachmentId: part.body.attachmentId,
+        partId: part.partId || '',
+        filename: part.filename || '',
+        mimeType: part.mimeType || 'application/octet-stream',
+        size: part.body.size || 0,
+        inline: disposition.toLowerCase().startsWith('inline'),
+        contentId: contentId.replace(/^<|>$/g, '') || undefined,
+      });
+    }
+
+    for (const subPart of part.parts || []) {
+      attachments.push(...this.extractAttachments(subPart));
+    }
+    return attachments;
+  }
+
+  /**
+   * Find the first decodable body part with the given MIME type
+   * @param part - Message payload or part to search recursively
+   * @param mimeType - MIME type to look for (e.g., "text/plain")
+   * @returns Decoded content, or null if no such part exists
+   */
+  private findBodyPart(
+    part: gmail_v1.Schema$MessagePart | undefined,
+    mimeType: string
+  ): string | null {
+    if (!part) {
+      return null;
+    }
+
+    // Skip attached files, only inline bodies are considered
+    if (part.mimeType === mimeType && part.body?.data && !part.filename) {
+      try {
+        return GmailService.decodeBase64Url(part.body.data);
+      } catch (error) {
+        logger.error('Failed to decode email part:', error);
+      }
+    }
+
+    for (const subPart of part.parts || []) {
+      const content = this.findBodyPart(subPart, mimeType);
+      if (content) {
+        return content;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Extract the message body from a Gmail message response.
+   * Plain text parts are preferred for text output, HTML parts for Markdown and
+   * HTML output, and HTML-only messages are converted instead of falling back
+   * to the snippet.
+   * @param message - Gmail message response
+   * @param bodyFormat - Output format: text, markdown or html (sanitized)
+   * @returns Body content in the requested format
+   */
+  private extractTextContent(
+    message: gmail_v1.Schema$Message,
+    bodyFormat: EmailBodyFormat = 'text'
+  ): string {
+    const plainBody = this.findBodyPart(message.payload, 'text/plain');
+    if (plainBody && bodyFormat === 'text') {
+      return plainBody;
+    }
+
+    const htmlBody = this.findBodyPart(message.payload, 'text/html');
+    if (htmlBody) {
+      const converted = convertHtml(htmlBody, bodyFormat);
+      if (converted) {
+        return converted;
+      }
+    }
+
+    if (plainBody) {
+      // Plain text returned as HTML is escaped, keeping its line breaks
+      return bodyFormat === 'html'
+        ? escapeHtml(plainBody).replace(/\r?\n/g, '<br>\n')
+        : plainBody;
+    }
+
+    // Fallback to snippet
+    return message.snippet || '';
+  }
+
+  /**
+   * Split a word budget across messages. Short messages keep all their words
+   * and the remainder is shared evenly by the longer ones.
+   * @param wordCounts - Word count of each message
+   * @param maxWords - Total word budget
+   * @returns Word limit per message, in the same order as wordCounts
+   */
+  private allocateWordBudget(wordCounts: number[], maxWords: number): number[] {
+    const budgets = new Array<number>(wordCounts.length).fill(0);
+    const order = wordCounts
+      .map((count, index) => ({ count, index }))
+      .sort((a, b) => a.count - b.count);
+
+    let remaining = maxWords;
+    order.forEach(({ count, index }, position) => {
+      const share = Math.floor(remaining / (order.length - position));
+      budgets[index] = Math.max(1, Math.min(count, share));
+      remaining -= Math.min(count, share);
+    });
+
+    return budgets;
+  }
+
+  /**
+   * Truncate text to specified word count
+   * @param text - Text to truncate
+   * @param maxWords - Maximum number of words
+   * @param bodyFormat - Format of the text; HTML is cut in its element tree
+   * @returns Object with truncated text, word count, and truncation status
+   */
+  private truncateText(
+    text: string,
+    maxWords: number,
+    bodyFormat: EmailBodyFormat = 'text'
+  ): {
+    truncatedText: string;
+    wordCount: number;
+    isTruncated: boolean;
+  } {
+    if (!text) {
+      return {
+        truncatedText: '',
+        wordCount: 0,
+        isTruncated: false,
+      };
+    }
+
+    if (bodyFormat === 'html') {
+      const { html, wordCount, isTruncated } = truncateHtml(text, maxWords);
+      return { truncatedText: html, wordCount, isTruncated };
+    }
+
+    // Split text into words (simple whitespace-based splitting)
     const words = text.trim().split(/\s+/);
     const originalWordCount = words.length;
 
@@ -680,9 +2593,14 @@ export class GmailService {
       };
     }
 
-    // Truncate to maxWords and add ellipsis
-    const truncatedWords = words.slice(0, maxWords);
-    const truncatedText = truncatedWords.join(' ') + '...';
+    // Cut after the last allowed word so line breaks, lists and tables survive
+    const wordPattern = /\S+/g;
+    let cutIndex = 0;
+    for (let i = 0; i < maxWords; i++) {
+      wordPattern.exec(text);
+      cutIndex = wordPattern.lastIndex;
+    }
+    const truncatedText = text.substring(0, cutIndex) + '...';
 
     return {
       truncatedText,
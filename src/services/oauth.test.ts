@@ -0,0 +1,103 @@
+import { OAuth2Client } from 'google-auth-library';
+import { OAuthService } from './oauth';
+import type { StoredToken, TokenStore } from './token-store';
+
+// Token store kept in memory
+function createStore(): TokenStore & { tokens: Map<string, StoredToken> } {
+  const tokens = new Map<string, StoredToken>();
+  return {
+    tokens,
+    get: async apiKey => tokens.get(apiKey),
+    set: async (apiKey, token) => void tokens.set(apiKey, token),
+    delete: async apiKey => void tokens.delete(apiKey),
+  };
+}
+
+function createService(tokenStore: TokenStore = createStore()): OAuthService {
+  return new OAuthService({
+    clientId: 'client-id',
+    clientSecret: 'client-secret',
+    redirectUri: 'http://localhost:3000/oauth/callback',
+    scopes: ['https://www.googleapis.com/auth/gmail.readonly'],
+    tokenStore,
+  });
+}
+
+// State parameter of the consent URL
+async function startAuthorization(service: OAuthService): Promise<string> {
+  const url = new URL(await service.startAuthorization());
+  expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+  return url.searchParams.get('state')!;
+}
+
+describe('OAuthService', () => {
+  let getToken: jest.SpyInstance;
+
+  beforeEach(() => {
+    getToken = jest
+      .spyOn(OAuth2Client.prototype, 'getToken')
+      .mockResolvedValue({
+        tokens: {
+          refresh_token: 'refresh-1',
+          scope: 'https://www.googleapis.com/auth/gmail.readonly',
+        },
+      } as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('issues an API key for a started authorization', async () => {
+    const store = createStore();
+    const service = createService(store);
+    const state = await startAuthorization(service);
+
+    const result = await service.completeAuthorization('code', state);
+    expect(result.apiKey).toMatch(/^mga_/);
+    expect(getToken.mock.calls[0][0]).toMatchObject({ code: 'code' });
+    expect(getToken.mock.calls[0][0].codeVerifier).toBeTruthy();
+    expect(store.tokens.get(result.apiKey)?.refreshToken).toBe('refresh-1');
+  });
+
+  it('does not accept a state twice', async () => {
+    const service = createService();
+    const state = await startAuthorization(service);
+
+    await service.completeAuthorization('code', state);
+    await expect(
+      service.completeAuthorization('code', state)
+    ).rejects.toMatchObject({ code: 'INVALID_STATE' });
+    expect(getToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not accept an expired state', async () => {
+    const service = createService();
+    const state = await startAuthorization(service);
+
+    const startedAt = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(startedAt + 11 * 60 * 1000);
+    await expect(
+      service.completeAuthorization('code', state)
+    ).rejects.toMatchObject({ code: 'INVALID_STATE' });
+    expect(getToken).not.toHaveBeenCalled();
+  });
+
+  it('revokes an API key', async () => {
+    const revokeToken = jest
+      .spyOn(OAuth2Client.prototype, 'revokeToken')
+      .mockResolvedValue({} as never);
+    const store = createStore();
+    const service = createService(store);
+    const { apiKey } = await service.completeAuthorization(
+      'code',
+      await startAuthorization(service)
+    );
+
+    await expect(service.revoke(apiKey)).resolves.toBe(true);
+    expect(store.tokens.has(apiKey)).toBe(false);
+    expect(revokeToken).toHaveBeenCalledWith('refresh-1');
+    await expect(service.getClient(apiKey)).resolves.toBeUndefined();
+    await expect(service.revoke(apiKey)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,249 @@
+import { randomBytes } from 'node:crypto';
+import { CodeChallengeMethod, OAuth2Client } from 'google-auth-library';
+import type { AccessTokenInfo } from '@services/types';
+import logger from '@/utils/logger';
+import { AuthServiceError, capabilitiesForScopes } from './auth';
+import type { StoredToken, TokenStore } from './token-store';
+
+// Prefix of server-issued API keys, which tells them apart from Google tokens
+export const API_KEY_PREFIX = 'mga_';
+
+// How long a started authorization may take before its state is discarded
+const PENDING_TTL_MS = 10 * 60 * 1000;
+
+export interface OAuthServiceOptions {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string; // Must match the redirect URI registered with Google
+  scopes: string[];
+  tokenStore: TokenStore;
+}
+
+export interface AuthorizationResult {
+  apiKey: string; // Shown once; use as "Authorization: Bearer <apiKey>"
+  email?: string;
+  scopes: string[];
+}
+
+/**
+ * Check whether a Bearer token is an API key issued by this server
+ * @param token - Token from the Authorization header
+ */
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * Server-managed OAuth: runs the authorization-code flow with PKCE, keeps
+ * refresh tokens in a token store under a server-issued API key, and hands
+ * out OAuth2 clients that refresh their access tokens automatically.
+ */
+export class OAuthService {
+  private pending = new Map<
+    string,
+    { codeVerifier: string; createdAt: number }
+  >();
+  // One client per API key, so sessions of the same key share refreshes
+  private clients = new Map<string, OAuth2Client>();
+
+  constructor(private readonly options: OAuthServiceOptions) {}
+
+  /**
+   * Begin an authorization and get the Google consent URL to send the user to
+   * @returns Promise containing the authorization URL
+   */
+  async startAuthorization(): Promise<string> {
+    this.prunePending();
+
+    const client = this.createClient();
+    const { codeVerifier, codeChallenge } =
+      await client.generateCodeVerifierAsync();
+    const state = randomBytes(16).toString('base64url');
+    this.pending.set(state, { codeVerifier, createdAt: Date.now() });
+
+    return client.generateAuthUrl({
+      access_type: 'offline',
+      // Ask for consent every time so Google always returns a refresh token
+      prompt: 'consent',
+      include_granted_scopes: true,
+      scope: this.options.scopes,
+      state,
+      code_challenge_method: CodeChallengeMethod.S256,
+      code_challenge: codeChallenge,
+    });
+  }
+
+  /**
+   * Finish an authorization: exchange the code, store the refresh token and
+   * issue an API key for it
+   * @param code - Authorization code from the callback
+   * @param state - State from the callback
+   * @returns Promise containing the new API key and the granted scopes
+   */
+  async completeAuthorization(
+    code: string,
+    state: string
+  ): Promise<AuthorizationResult> {
+    const pending = this.pending.get(state);
+    this.pending.delete(state);
+    if (!pending || Date.now() - pending.createdAt > PENDING_TTL_MS) {
+      throw new AuthServiceError(
+        'Unknown or expired authorization state. Start again at /oauth/start.',
+        'INVALID_STATE',
+        400
+      );
+    }
+
+    const client = this.createClient();
+    let tokens;
+    try {
+      ({ tokens } = await client.getToken({
+        code,
+        codeVerifier: pending.codeVerifier,
+      }));
+    } catch (error: any) {
+      throw new AuthServiceError(
+        `Failed to exchange the authorization code: ${error?.response?.data?.error_description || error?.message || 'Unknown error'}`,
+        'TOKEN_EXCHANGE_FAILED',
+        400
+      );
+    }
+
+    if (!tokens.refresh_token) {
+      throw new AuthServiceError(
+        'Google did not return a refresh token. Remove the app from your Google account permissions and try again.',
+        'NO_REFRESH_TOKEN',
+        400
+      );
+    }
+
+    const scopes = tokens.scope ? tokens.scope.split(' ') : [];
+    let email: string | undefined;
+    if (tokens.access_token) {
+      try {
+        email = (await client.getTokenInfo(tokens.access_token)).email;
+      } catch (error: any) {
+        logger.warn('Could not look up the email of a new authorization', {
+          error: error?.message,
+        });
+      }
+    }
+
+    const apiKey = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    await this.options.tokenStore.set(apiKey, {
+      refreshToken: tokens.refresh_token,
+      accessToken: tokens.access_token || undefined,
+      expiresAt: tokens.expiry_date || undefined,
+      scopes,
+      email,
+      createdAt: Date.now(),
+    });
+    return { apiKey, email, scopes };
+  }
+
+  /**
+   * Get an OAuth2 client for an API key. The client refreshes its access
+   * token when needed and writes new tokens back to the store.
+   * @param apiKey - API key issued by completeAuthorization
+   * @returns Promise containing the client, or undefined for unknown keys
+   */
+  async getClient(apiKey: string): Promise<OAuth2Client | undefined> {
+    const cached = this.clients.get(apiKey);
+    if (cached) {
+      return cached;
+    }
+
+    let stored = await this.options.tokenStore.get(apiKey);
+    if (!stored) {
+      return undefined;
+    }
+
+    const client = this.createClient();
+    client.setCredentials({
+      refresh_token: stored.refreshToken,
+      access_token: stored.accessToken,
+      expiry_date: stored.expiresAt,
+    });
+    client.on('tokens', tokens => {
+      stored = {
+        ...stored!,
+        refreshToken: tokens.refresh_token || stored!.refreshToken,
+        accessToken: tokens.access_token || undefined,
+        expiresAt: tokens.expiry_date || undefined,
+      };
+      this.options.tokenStore.set(apiKey, stored).catch(error =>
+        logger.error('Failed to save refreshed tokens', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    });
+    this.clients.set(apiKey, client);
+    return client;
+  }
+
+  /**
+   * Describe the credentials behind an API key
+   * @param apiKey - API key issued by completeAuthorization
+   * @returns Promise containing the token details, or undefined for unknown keys
+   */
+  async describe(apiKey: string): Promise<AccessTokenInfo | undefined> {
+    const stored: StoredToken | undefined =
+      await this.options.tokenStore.get(apiKey);
+    if (!stored) {
+      return undefined;
+    }
+    return {
+      email: stored.email,
+      scopes: stored.scopes,
+      expiresAt: stored.expiresAt || Date.now(),
+      capabilities: capabilitiesForScopes(stored.scopes),
+      refreshable: true,
+    };
+  }
+
+  /**
+   * Revoke an API key: forget its stored credentials and ask Google to
+   * revoke the refresh token behind it
+   * @param apiKey - API key issued by completeAuthorization
+   * @returns Promise resolving to false for unknown keys
+   */
+  async revoke(apiKey: string): Promise<boolean> {
+    const stored = await this.options.tokenStore.get(apiKey);
+    if (!stored) {
+      return false;
+    }
+
+    // A refresh in flight must not write the tokens back
+    this.clients.get(apiKey)?.removeAllListeners('tokens');
+    this.clients.delete(apiKey);
+    await this.options.tokenStore.delete(apiKey);
+
+    try {
+      await this.createClient().revokeToken(stored.refreshToken);
+    } catch (error: any) {
+      logger.warn('Could not revoke the refresh token with Google', {
+        error: error?.message,
+      });
+    }
+    return true;
+  }
+
+  private createClient(): OAuth2Client {
+    return new OAuth2Client({
+      clientId: this.options.clientId,
+      clientSecret: this.options.clientSecret,
+      redirectUri: this.options.redirectUri,
+    });
+  }
+
+  private prunePending(): void {
+    const now = Date.now();
+    for (const [state, pending] of this.pending) {
+      if (now - pending.createdAt > PENDING_TTL_MS) {
+        this.pending.delete(state);
+      }
+    }
+  }
+}
+
+export default OAuthService;
@@ -0,0 +1,35 @@
+import { OAuth2Client } from 'google-auth-library';
+import { SessionServices } from './session';
+
+describe('SessionServices.useCredentials', () => {
+  it('swaps access tokens without rebuilding the clients', () => {
+    const services = new SessionServices('token-1');
+    const gmail = services.getGmailService();
+    const update = jest.spyOn(gmail, 'updateAccessToken');
+
+    services.useCredentials('token-2');
+    expect(services.getGmailService()).toBe(gmail);
+    expect(update).toHaveBeenCalledWith('token-2');
+    services.close();
+  });
+
+  it('rebuilds the clients when switching to or from an auth client', () => {
+    const services = new SessionServices('token-1');
+    const agent = (services as any).agent;
+    const gmail = services.getGmailService();
+    const authClient = new OAuth2Client();
+
+    services.useCredentials('mga_key', authClient);
+    const managed = services.getGmailService();
+    expect(managed).not.toBe(gmail);
+
+    // The same credentials again keep the clients
+    services.useCredentials('mga_key', authClient);
+    expect(services.getGmailService()).toBe(managed);
+
+    services.useCredentials('token-2');
+    expect(services.getGmailService()).not.toBe(managed);
+    expect((services as any).agent).toBe(agent);
+    services.close();
+  });
+});
@@ -0,0 +1,105 @@
+import https from 'https';
+import { OAuth2Client } from 'google-auth-library';
+import GmailService, { GmailServiceOptions } from './gmail';
+import GCalendarService from './gcalendar';
+
+export interface SessionServicesOptions {
+  skipSslVerification?: boolean;
+  authClient?: OAuth2Client; // Server-managed credentials that refresh themselves
+}
+
+/**
+ * Google service clients for one MCP session. The clients are built on first
+ * use and share a keep-alive HTTPS agent, so the many calls of a long session
+ * reuse their connections. Close it when the session's transport closes.
+ */
+export class SessionServices {
+  private readonly agent: https.Agent;
+  private serviceOptions: GmailServiceOptions;
+  private accessToken: string;
+  private gmail?: GmailService;
+  private calendar?: GCalendarService;
+
+  constructor(accessToken: string, options: SessionServicesOptions = {}) {
+    this.accessToken = accessToken;
+    this.agent = new https.Agent({
+      keepAlive: true,
+      rejectUnauthorized: !options.skipSslVerification,
+    });
+    this.serviceOptions = {
+      skipSslVerification: options.skipSslVerification,
+      agent: this.agent,
+      authClient: options.authClient,
+    };
+  }
+
+  /**
+   * Switch the session to a new access token. Clients that were already built
+   * are updated in place. Nothing happens when the token is unchanged or the
+   * session uses server-managed credentials.
+   * @param accessToken - Google OAuth2 access token from the latest request
+   */
+  updateAccessToken(accessToken: string): void {
+    if (accessToken === this.accessToken || this.serviceOptions.authClient) {
+      return;
+    }
+    this.accessToken = accessToken;
+    this.gmail?.updateAccessToken(accessToken);
+    this.calendar?.updateAccessToken(accessToken);
+  }
+
+  /**
+   * Switch the session's credentials. Access tokens are swapped in place;
+   * switching to or from server-managed credentials rebuilds the clients on
+   * next use. The agent is kept, so calls in flight finish normally.
+   * @param accessToken - Google OAuth2 access token, ignored with an authClient
+   * @param authClient - Server-managed credentials, if the session uses them
+   */
+  useCredentials(accessToken: string, authClient?: OAuth2Client): void {
+    if (!authClient && !this.serviceOptions.authClient) {
+      this.updateAccessToken(accessToken);
+      return;
+    }
+    if (authClient === this.serviceOptions.authClient) {
+      return;
+    }
+    this.accessToken = accessToken;
+    this.serviceOptions = { ...this.serviceOptions, authClient };
+    this.gmail = undefined;
+    this.calendar = undefined;
+  }
+
+  /**
+   * Gmail client for the session
+   */
+  getGmailService(): GmailService {
+    if (!this.gmail) {
+      this.gmail = new GmailService(this.accessToken, this.serviceOptions);
+    }
+    return this.gmail;
+  }
+
+  /**
+   * Calendar client for the session
+   */
+  getCalendarService(): GCalendarService {
+    if (!this.calendar) {
+      this.calendar = new GCalendarService(
+        this.accessToken,
+        this.serviceOptions
+      );
+    }
+    return this.calendar;
+  }
+
+  /**
+   * Drop the clients and close the agent's pooled connections
+   */
+  close(): void {
+    this.gmail = undefined;
+    this.calendar = undefined;
+    this.agent.destroy();
+  }
+}
+
+export default SessionServices;
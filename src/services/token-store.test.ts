@@ -0,0 +1,74 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { FileTokenStore, StoredToken } from './token-store';
+
+const token: StoredToken = {
+  refreshToken: 'refresh-1',
+  scopes: ['https://www.googleapis.com/auth/gmail.readonly'],
+  email: 'user@example.com',
+  createdAt: 1760000000000,
+};
+
+describe('FileTokenStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'token-store-'));
+    filePath = path.join(dir, 'tokens.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('encrypts tokens and reads them back with the same secret', async () => {
+    await new FileTokenStore(filePath, 'secret').set('mga_key', token);
+
+    const content = await fs.readFile(filePath, 'utf-8');
+    expect(content).not.toContain('refresh-1');
+    expect(content).not.toContain('mga_key');
+    await expect(
+      new FileTokenStore(filePath, 'secret').get('mga_key')
+    ).resolves.toEqual(token);
+  });
+
+  it('deletes tokens', async () => {
+    const store = new FileTokenStore(filePath, 'secret');
+    await store.set('mga_key', token);
+    await store.delete('mga_key');
+    await expect(
+      new FileTokenStore(filePath, 'secret').get('mga_key')
+    ).resolves.toBeUndefined();
+  });
+
+  it('rejects a wrong secret and recovers once the file can be read', async () => {
+    await new FileTokenStore(filePath, 'secret').set('mga_key', token);
+
+    const store = new FileTokenStore(filePath, 'other-secret');
+    await expect(store.get('mga_key')).rejects.toThrow(
+      'check the encryption secret'
+    );
+
+    // A failed read is not cached, so the store reads the file again
+    await fs.rm(filePath);
+    await expect(store.get('mga_key')).resolves.toBeUndefined();
+  });
+
+  it('rejects a corrupt file', async () => {
+    await fs.writeFile(filePath, '{"version":1,');
+    await expect(
+      new FileTokenStore(filePath, 'secret').get('mga_key')
+    ).rejects.toThrow('not valid JSON');
+
+    await fs.rm(filePath);
+    await new FileTokenStore(filePath, 'secret').set('mga_key', token);
+    const file = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    file.data = Buffer.from('tampered').toString('base64');
+    await fs.writeFile(filePath, JSON.stringify(file));
+    await expect(
+      new FileTokenStore(filePath, 'secret').get('mga_key')
+    ).rejects.toThrow('Cannot decrypt');
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+  scryptSync,
+} from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+export interface StoredToken {
+  refreshToken: string;
+  accessToken?: string;
+  expiresAt?: number; // Access token expiry, epoch milliseconds
+  scopes: string[];
+  email?: string;
+  createdAt: number; // Epoch milliseconds
+}
+
+/**
+ * Storage for server-managed Google credentials, keyed by the API key the
+ * server issued for them. Implement this to keep tokens somewhere other than
+ * a local file, e.g. in a database.
+ */
+export interface TokenStore {
+  get(apiKey: string): Promise<StoredToken | undefined>;
+  set(apiKey: string, token: StoredToken): Promise<void>;
+  delete(apiKey: string): Promise<void>;
+}
+
+interface EncryptedFile {
+  version: 1;
+  iv: string; // Base64
+  tag: string; // Base64 GCM authentication tag
+  data: string; // Base64 ciphertext
+}
+
+const KEY_SALT = 'mcp-google-assistant-token-store';
+
+// API keys are only stored as hashes, so the file never contains them
+function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * Token store kept in a single AES-256-GCM encrypted JSON file. The file is
+ * read once and rewritten atomically on every change.
+ */
+export class FileTokenStore implements TokenStore {
+  private readonly key: Buffer;
+  private tokens?: Map<string, StoredToken>;
+  private loading?: Promise<Map<string, StoredToken>>;
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath - Location of the encrypted token file
+   * @param secret - Passphrase the encryption key is derived from
+   */
+  constructor(
+    private readonly filePath: string,
+    secret: string
+  ) {
+    if (!secret) {
+      throw new Error('A token store encryption secret is required');
+    }
+    this.key = scryptSync(secret, KEY_SALT, 32);
+  }
+
+  async get(apiKey: string): Promise<StoredToken | undefined> {
+    const tokens = await this.load();
+    return tokens.get(hashApiKey(apiKey));
+  }
+
+  async set(apiKey: string, token: StoredToken): Promise<void> {
+    const tokens = await this.load();
+    tokens.set(hashApiKey(apiKey), token);
+    await this.save();
+  }
+
+  async delete(apiKey: string): Promise<void> {
+    const tokens = await this.load();
+    if (tokens.delete(hashApiKey(apiKey))) {
+      await this.save();
+    }
+  }
+
+  // The file is read once; concurrent callers share the same read. A failed
+  // read is not kept, so the next call tries again.
+  private load(): Promise<Map<string, StoredToken>> {
+    this.loading ??= this.readFile().then(
+      tokens => (this.tokens = tokens),
+      error => {
+        this.loading = undefined;
+        throw error;
+      }
+    );
+    return this.loading;
+  }
+
+  private async readFile(): Promise<Map<string, StoredToken>> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return new Map();
+      }
+      throw error;
+    }
+
+    let file: EncryptedFile;
+    try {
+      file = JSON.parse(content);
+    } catch {
+      throw new Error(`Token store ${this.filePath} is not valid JSON`);
+    }
+    let plaintext: string;
+    try {
+      const decipher = createDecipheriv(
+        'aes-256-gcm',
+        this.key,
+        Buffer.from(file.iv, 'base64')
+      );
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      plaintext = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final(),
+      ]).toString('utf-8');
+    } catch {
+      throw new Error(
+        `Cannot decrypt token store ${this.filePath}; check the encryption secret`
+      );
+    }
+    return new Map(Object.entries(JSON.parse(plaintext)));
+  }
+
+  // Writes are queued so that concurrent changes cannot interleave
+  private save(): Promise<void> {
+    const write = this.writes.then(async () => {
+      const iv = randomBytes(12);
+      const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+      const data = Buffer.concat([
+        cipher.update(
+          JSON.stringify(Object.fromEntries(this.tokens || [])),
+          'utf-8'
+        ),
+        cipher.final(),
+      ]);
+      const file: EncryptedFile = {
+        version: 1,
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+      };
+
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(file), { mode: 0o600 });
+      await fs.rename(tempPath, this.filePath);
+    });
+    // A failed write must not block the ones after it
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
+
+export default FileTokenStore;
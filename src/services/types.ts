@@ -1,29 +1,38 @@
 // Types and interfaces for the MCP Google Assistant
 
+import type { WorkingHours } from '@/utils/slots';
+
 export interface EmailListOptions {
   maxResults?: number;
   pageToken?: string;
   query?: string;
   labelIds?: string[]; // Gmail label IDs - defaults to ['INBOX'] if not specified
   includeSpamTrash?: boolean;
+  includeHistoryId?: boolean; // Also return the mailbox checkpoint, costs one extra request
 }
 
+export type EmailBodyFormat = 'text' | 'markdown' | 'html';
+
 export interface EmailDetailsOptions {
   messageId: string;
   format?: 'minimal' | 'full' | 'raw' | 'metadata';
   maxWords?: number; // Default: 300, set to 0 for no truncation
+  bodyFormat?: EmailBodyFormat; // Default: 'text'; HTML-only bodies are converted
   includeHeaders?: string[]; // Specific headers to include, default: ['From', 'Subject', 'Date', 'To']
+  allHeaders?: boolean; // Return every header, ignoring includeHeaders
 }
 
 export interface EmailListItem {
   id: string;
   threadId: string;
+  historyId?: string; // Present when details are fetched
 }
 
 export interface EmailListResponse {
   messages: EmailListItem[];
   nextPageToken?: string;
   resultSizeEstimate: number;
+  historyId?: string; // Mailbox checkpoint to pass to gmail_list_changes
 }
 
 export interface EmailHeader {
@@ -31,13 +40,255 @@ export interface EmailHeader {
   value: string;
 }
 
+export interface EmailAttachment {
+  attachmentId: string; // Use with gmail_get_attachment to download the file
+  partId: string; // Stable across fetches, unlike attachmentId
+  filename: string;
+  mimeType: string;
+  size: number; // Size in bytes
+  inline: boolean; // True for inline parts such as embedded images
+  contentId?: string; // Content-ID referenced by cid: URLs in the HTML body
+}
+
 export interface EmailDetails {
   id: string;
   threadId: string;
   snippet: string;
   internalDate: string;
+  historyId: string; // Last history record that modified this message
   textBody: string; // Extracted and potentially truncated text content
   headers: EmailHeader[]; // Filtered headers based on includeHeaders option
+  attachments: EmailAttachment[]; // Empty when the format has no MIME parts
+}
+
+export interface ThreadOptions {
+  threadId: string;
+  maxWords?: number; // Word budget shared by all messages, default: 1500, max: 5000
+  bodyFormat?: EmailBodyFormat; // Default: 'text'
+  stripQuotes?: boolean; // Collapse quoted reply history, default: true
+}
+
+export interface ThreadMessage {
+  id: string;
+  from: string;
+  to: string;
+  cc?: string;
+  date: string;
+  subject: string;
+  internalDate: string;
+  textBody: string; // New content of the message, quoted history removed
+  quoteRemoved: boolean;
+  attachments: EmailAttachment[];
+}
+
+export interface EmailThread {
+  id: string;
+  subject: string;
+  messageCount: number;
+  messages: ThreadMessage[]; // Oldest first
+  truncated: boolean; // True if bodies were cut to fit the word budget
+}
+
+export interface OutgoingAttachment {
+  filename: string;
+  mimeType?: string; // Default: 'application/octet-stream'
+  data?: string; // Base64 (or base64url) encoded content
+  text?: string; // UTF-8 text content, alternative to data
+}
+
+export interface SendEmailOptions {
+  to: string[]; // Addresses, either "email" or "Name <email>"
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  textBody?: string;
+  htmlBody?: string; // A plain text alternative is generated if textBody is omitted
+  attachments?: OutgoingAttachment[];
+}
+
+export interface ReplyEmailOptions {
+  messageId: string; // The message being replied to
+  replyAll?: boolean; // Also reply to the original To and Cc recipients
+  textBody?: string;
+  htmlBody?: string;
+  cc?: string[]; // Additional CC recipients
+  bcc?: string[];
+  attachments?: OutgoingAttachment[];
+}
+
+export interface ForwardEmailOptions {
+  messageId: string; // The message being forwarded
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  textBody?: string; // Note placed above the forwarded message
+  htmlBody?: string;
+  includeAttachments?: boolean; // Carry the original attachments, default: true
+  attachments?: OutgoingAttachment[]; // Additional files to attach
+}
+
+export interface DraftOptions {
+  to?: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject?: string; // Defaults to "Re: <original subject>" for replies
+  textBody?: string;
+  htmlBody?: string;
+  attachments?: OutgoingAttachment[];
+  replyToMessageId?: string; // Thread the draft as a reply to this message
+  replyAll?: boolean;
+}
+
+export interface UpdateDraftOptions
+  extends Omit<DraftOptions, 'replyToMessageId' | 'replyAll'> {
+  draftId: string; // Omitted fields keep their current draft values
+}
+
+export interface DraftDetailsOptions {
+  draftId: string;
+  maxWords?: number; // Default: 300, set to 0 for no truncation
+  bodyFormat?: EmailBodyFormat;
+}
+
+export interface DraftListOptions {
+  maxResults?: number;
+  pageToken?: string;
+  query?: string;
+}
+
+export interface EmailDraft {
+  id: string; // Draft ID, used to update, send or delete the draft
+  message: EmailDetails;
+}
+
+export interface DraftListResponse {
+  drafts: EmailDraft[];
+  nextPageToken?: string;
+  resultSizeEstimate: number;
+}
+
+export interface SentEmail {
+  id: string; // Message ID, can be passed to gmail_get_details
+  threadId: string;
+  labelIds: string[];
+}
+
+export interface GmailLabel {
+  id: string;
+  name: string;
+  type: 'system' | 'user';
+  color?: { textColor?: string; backgroundColor?: string };
+  messagesTotal?: number;
+  messagesUnread?: number;
+  threadsTotal?: number;
+  threadsUnread?: number;
+}
+
+export interface CreateLabelOptions {
+  name: string; // Use "/" to nest, e.g. "Clients/Acme"
+  textColor?: string; // Hex color from Gmail's label palette, e.g. "#ffffff"
+  backgroundColor?: string;
+  showInLabelList?: boolean; // Default: true
+  showInMessageList?: boolean; // Default: true
+}
+
+export interface ModifyMessageOptions {
+  messageId: string;
+  addLabels?: string[]; // Label names or IDs
+  removeLabels?: string[]; // Label names or IDs
+  markRead?: boolean; // true removes UNREAD, false adds it
+  starred?: boolean;
+  important?: boolean;
+  archive?: boolean; // true removes INBOX, false moves back to the inbox
+  trash?: boolean; // true moves to trash, false restores from trash
+}
+
+export interface ModifiedMessage {
+  id: string;
+  threadId: string;
+  labelIds: string[];
+  labels: string[]; // Label names matching labelIds
+}
+
+export interface BulkModifyOptions {
+  query: string; // Gmail search query, same syntax as searchEmails
+  addLabels?: string[]; // Label names or IDs
+  removeLabels?: string[]; // Label names or IDs
+  markRead?: boolean;
+  starred?: boolean;
+  archive?: boolean;
+  trash?: boolean;
+  includeSpamTrash?: boolean;
+  dryRun?: boolean; // Only report what would change, default: true
+  maxMessages?: number; // Hard cap on messages touched, default: 500
+  sampleSize?: number; // Messages described in the preview, default: 10
+}
+
+export interface BulkModifySample {
+  id: string;
+  from: string;
+  subject: string;
+  date: string;
+}
+
+export interface BulkModifyResult {
+  query: string;
+  dryRun: boolean;
+  matchedCount: number; // All matching messages; Gmail's estimate when capped
+  matchedCountEstimated: boolean; // True if matchedCount is an estimate
+  processedCount: number; // Messages the change applies to, up to maxMessages
+  capped: boolean; // True if more messages match than maxMessages
+  modifiedCount: number; // 0 for dry runs
+  addLabelIds: string[];
+  removeLabelIds: string[];
+  sample: BulkModifySample[];
+}
+
+export interface HistoryChangesOptions {
+  startHistoryId?: string; // Omit to get the current checkpoint only
+  labelId?: string; // Only return changes for messages with this label
+  historyTypes?: Array<
+    'messageAdded' | 'messageDeleted' | 'labelAdded' | 'labelRemoved'
+  >;
+  maxChanges?: number; // Stop paging after this many history records
+  fetchDetails?: boolean; // Fetch headers and snippet of added messages
+}
+
+export interface HistoryMessageChange {
+  id: string;
+  threadId: string;
+  labelIds: string[];
+}
+
+export interface HistoryChangesResponse {
+  historyId: string; // New checkpoint for the next call
+  messagesAdded: (HistoryMessageChange | EmailDetails)[];
+  messagesDeleted: string[]; // Message IDs
+  labelsAdded: HistoryMessageChange[]; // labelIds are the labels added
+  labelsRemoved: HistoryMessageChange[]; // labelIds are the labels removed
+  hasMore: boolean; // True if maxChanges was reached before the end
+}
+
+export interface AttachmentOptions {
+  messageId: string;
+  attachmentId: string;
+  partId?: string; // Stable part ID from gmail_get_details, used to locate the part
+  filename?: string; // Used to locate the part if the attachment ID has rotated
+  maxBytes?: number; // Largest binary attachment to return, default: 1 MB
+  maxChars?: number; // Maximum characters of extracted text, default: 20000
+}
+
+export interface EmailAttachmentContent {
+  messageId: string;
+  attachmentId: string;
+  partId?: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  encoding: 'text' | 'base64';
+  text?: string; // Extracted content for text-like types (CSV, TXT, JSON, ICS)
+  data?: string; // Standard base64 content for binary types
+  truncated?: boolean;
 }
 
 // Types and interfaces for Google Calendar
@@ -61,6 +312,11 @@ export interface EventListOptions {
   orderBy?: 'startTime' | 'updated';
 }
 
+export interface EventListResponse {
+  events: CalendarEvent[];
+  nextPageToken?: string; // Pass as pageToken to get the next page
+}
+
 export interface EventDateTime {
   dateTime?: string; // RFC3339, e.g., '2023-12-25T10:00:00-07:00'
   date?: string; // ISO 8601, e.g., '2023-12-25' for all-day events
@@ -71,10 +327,37 @@ export interface EventAttendee {
   email: string;
   displayName?: string;
   responseStatus: 'needsAction' | 'declined' | 'tentative' | 'accepted';
+  self?: boolean; // True for the attendee record of the authenticated user
+  optional?: boolean;
+  organizer?: boolean;
+  comment?: string; // Note the attendee left with their response
+}
+
+export interface ConferenceEntryPoint {
+  entryPointType: 'video' | 'phone' | 'sip' | 'more';
+  uri: string; // e.g. "https://meet.google.com/abc-defg-hij" or "tel:+1-555-0100"
+  label?: string; // Displayed form of the URI
+  pin?: string;
+  passcode?: string;
+  regionCode?: string; // For phone numbers, e.g. "US"
+}
+
+export interface ConferenceInfo {
+  conferenceId?: string; // e.g. "abc-defg-hij" for Meet
+  solution?: string; // e.g. "Google Meet"
+  status?: 'pending' | 'success' | 'failure'; // Status of a create request
+  entryPoints: ConferenceEntryPoint[];
+  notes?: string;
+}
+
+export interface EventReminders {
+  useDefault: boolean; // Use the calendar's default reminders
+  overrides?: { method: 'email' | 'popup'; minutes: number }[];
 }
 
 export interface CalendarEvent {
   id: string;
+  iCalUID?: string; // Shared by copies of the event on other calendars
   summary: string;
   description?: string;
   location?: string;
@@ -83,8 +366,16 @@ export interface CalendarEvent {
   attendees?: EventAttendee[];
   organizer?: { email?: string; displayName?: string };
   hangoutLink?: string;
+  conference?: ConferenceInfo; // Meet or third-party conference details
   htmlLink: string;
   status: 'confirmed' | 'tentative' | 'cancelled';
+  colorId?: string;
+  visibility?: 'default' | 'public' | 'private' | 'confidential';
+  transparency?: 'opaque' | 'transparent'; // "transparent" does not block time
+  reminders?: EventReminders;
+  recurrence?: string[]; // RRULE/EXDATE/RDATE lines of a recurring series
+  recurringEventId?: string; // Series ID when this is one occurrence
+  originalStartTime?: EventDateTime; // Scheduled start of this occurrence in the series
 }
 
 export interface CreateEventOptions {
@@ -96,4 +387,224 @@ export interface CreateEventOptions {
   end: EventDateTime;
   attendees?: string[]; // Array of attendee emails
   sendNotifications?: boolean;
+  recurrence?: string[]; // e.g. ["RRULE:FREQ=WEEKLY;BYDAY=MO"]; start needs a timeZone
+  optionalAttendees?: string[]; // Invited as optional
+  createMeetLink?: boolean; // Attach a new Google Meet conference
+  reminders?: EventReminders;
+  colorId?: string; // "1" to "11", see the Calendar colors endpoint
+  visibility?: 'default' | 'public' | 'private' | 'confidential';
+  transparency?: 'opaque' | 'transparent';
+  guestsCanModify?: boolean;
+  guestsCanInviteOthers?: boolean;
+  guestsCanSeeOtherGuests?: boolean;
+}
+
+export interface UpdateEventOptions {
+  calendarId?: string; // Defaults to 'primary'
+  eventId: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  start?: EventDateTime; // If end is omitted, the event keeps its duration
+  end?: EventDateTime;
+  attendees?: string[]; // Replaces the attendee list, keeping existing responses
+  addAttendees?: string[];
+  removeAttendees?: string[];
+  recurrence?: string[]; // Replaces the series' recurrence lines
+  sendUpdates?: 'all' | 'externalOnly' | 'none';
+}
+
+export interface EventInstancesOptions {
+  calendarId?: string; // Defaults to 'primary'
+  eventId: string; // ID of the recurring series
+  timeMin?: string; // RFC3339
+  timeMax?: string; // RFC3339
+  maxResults?: number;
+  pageToken?: string;
+  showDeleted?: boolean; // Include cancelled occurrences
+}
+
+export type DeleteEventScope = 'instance' | 'following' | 'series';
+
+export interface DeleteEventOptions {
+  calendarId?: string; // Defaults to 'primary'
+  eventId: string; // Event, series or instance ID
+  scope?: DeleteEventScope; // Required for recurring events
+  sendUpdates?: 'all' | 'externalOnly' | 'none';
+}
+
+export interface DeleteEventResult {
+  eventId: string; // The deleted event, or the series that was trimmed
+  action: 'deleted' | 'trimmed';
+  scope?: DeleteEventScope; // Unset for non-recurring events
+  recurrence?: string[]; // Remaining recurrence rules of a trimmed series
+}
+
+export interface RespondToEventOptions {
+  calendarId?: string; // Defaults to 'primary'
+  eventId: string;
+  response: 'accepted' | 'tentative' | 'declined';
+  comment?: string; // Note to the organizer
+  allInstances?: boolean; // Respond to the whole series of a recurring invite
+}
+
+export interface FreeBusyOptions {
+  calendarIds: string[]; // Calendar IDs or attendee email addresses
+  timeMin: string; // RFC3339, e.g. "2024-07-22T00:00:00-07:00"
+  timeMax: string;
+  timeZone?: string; // Time zone of the returned busy blocks, default UTC
+}
+
+export interface CalendarBusy {
+  calendarId: string;
+  busy: { start: string; end: string }[];
+  errors?: string[]; // e.g. "notFound" when free/busy is not shared
+}
+
+export interface FreeBusyResponse {
+  timeMin: string;
+  timeMax: string;
+  calendars: CalendarBusy[];
+}
+
+export interface FindFreeSlotsOptions {
+  attendees: string[]; // Attendee email addresses or calendar IDs
+  includeSelf?: boolean; // Include the primary calendar, default true
+  timeMin: string; // RFC3339 start of the search range
+  timeMax: string; // RFC3339 end of the search range
+  durationMinutes: number;
+  timeZone?: string; // IANA name, defaults to the primary calendar's
+  workingHours?: WorkingHours; // Default for everyone, Mon-Fri 09:00-17:00
+  attendeeWorkingHours?: Record<string, WorkingHours>; // Keyed by attendee
+  bufferBeforeMinutes?: number;
+  bufferAfterMinutes?: number;
+  stepMinutes?: number; // Slot start granularity, default 30
+  maxSlots?: number; // Default 10
+}
+
+export interface FreeSlot {
+  start: string; // RFC3339 in the search time zone
+  end: string;
+  score: number; // 0-1, higher is better
+}
+
+export interface FreeSlotsResponse {
+  timeZone: string;
+  durationMinutes: number;
+  slots: FreeSlot[]; // Best first
+  unavailableCalendars: { calendarId: string; reason: string }[]; // Treated as free
+}
+
+export interface AgendaOptions {
+  calendarIds?: string[]; // Defaults to every calendar in the calendar list
+  timeMin: string; // RFC3339
+  timeMax: string; // RFC3339
+  timeZone?: string; // Display time zone, defaults to the primary calendar's
+  includeDeclined?: boolean; // Include events you declined, default false
+  maxEventsPerCalendar?: number; // Default 250
+}
+
+export interface AgendaEntry {
+  id: string;
+  calendarIds: string[]; // Every calendar the event appears on
+  summary: string;
+  start: string; // RFC3339 in the display time zone, or a date for all-day events
+  end: string; // Exclusive; a date for all-day events
+  allDay: boolean;
+  location?: string;
+  meetLink?: string;
+  responseStatus?: EventAttendee['responseStatus']; // Your response, if invited
+  status: CalendarEvent['status'];
+  transparent?: boolean; // Does not block time
+  continuesFromPreviousDay?: boolean; // Multi-day events shown on later days
+  continuesToNextDay?: boolean;
+  conflictsWith?: string[]; // IDs of overlapping timed events
+  htmlLink: string;
+}
+
+export interface AgendaDay {
+  date: string; // YYYY-MM-DD in the display time zone
+  weekday: string; // e.g. "Monday"
+  allDayEvents: AgendaEntry[];
+  events: AgendaEntry[]; // Timed events, by start time
+}
+
+export interface AgendaResponse {
+  timeZone: string;
+  timeMin: string;
+  timeMax: string;
+  days: AgendaDay[]; // Only days with events
+  conflictCount: number; // Number of overlapping event pairs
+  calendars: { calendarId: string; eventCount: number; error?: string }[];
+}
+
+export interface ExportIcsOptions {
+  calendarId?: string; // Defaults to 'primary'
+  eventId?: string; // Export a single event instead of a time range
+  timeMin?: string; // RFC3339, defaults to now
+  timeMax?: string; // RFC3339
+  maxEvents?: number; // Default 250
+}
+
+export interface IcsExport {
+  filename: string; // e.g. "primary.ics"
+  eventCount: number;
+  ics: string; // RFC 5545 text with CRLF line endings
+}
+
+export interface ImportIcsOptions {
+  calendarId?: string; // Defaults to 'primary'
+  ics: string; // iCalendar text
+}
+
+export interface IcsImportResult {
+  method?: string; // METHOD of the iCalendar data, e.g. "REQUEST"
+  imported: CalendarEvent[];
+  failed: { uid: string; summary?: string; error: string }[];
+}
+
+export interface EventSyncOptions {
+  calendarId: string;
+  syncToken?: string; // nextSyncToken from the previous sync, omit for a full sync
+  maxEvents?: number; // Stop collecting events after this many, default: 250
+}
+
+export interface EventChangesOptions {
+  calendarId: string;
+  updatedMin: string; // RFC 3339; events changed at or after this time count
+}
+
+export interface EventSyncResponse {
+  events: CalendarEvent[]; // Created or changed events
+  cancelledEventIds: string[];
+  nextSyncToken: string; // Pass as syncToken on the next call
+  fullSync: boolean; // True if no token was given or the token had expired
+  truncated: boolean; // True if more than maxEvents events changed
+}
+
+export interface GmailProfile {
+  emailAddress: string;
+  messagesTotal: number;
+  threadsTotal: number;
+  historyId: string;
+}
+
+// What a token can do, derived from its OAuth scopes
+export type Capability =
+  | 'gmail.read'
+  | 'gmail.send'
+  | 'gmail.compose'
+  | 'gmail.modify'
+  | 'gmail.labels'
+  | 'calendar.read'
+  | 'calendar.write'
+  | 'calendar.list'
+  | 'calendar.freebusy';
+
+export interface AccessTokenInfo {
+  email?: string; // Only present when the token has the email scope
+  scopes: string[];
+  expiresAt: number; // Epoch milliseconds
+  capabilities: Capability[];
+  refreshable?: boolean; // True for server-managed credentials, renewed automatically
 }
@@ -0,0 +1,53 @@
+import ResourceWatcher, { calendarEventsUri, gmailLabelUri } from './watcher';
+
+function createWatcher(hasEventChanges: jest.Mock) {
+  const notify = jest.fn().mockResolvedValue(undefined);
+  const watcher = new ResourceWatcher({
+    pollIntervalSeconds: 60,
+    resourceUris: [calendarEventsUri('primary')],
+    getGmailService: () => {
+      throw new Error('Gmail is not used');
+    },
+    getCalendarService: () => ({ hasEventChanges }) as any,
+    notify,
+  });
+  return { watcher, notify };
+}
+
+describe('ResourceWatcher', () => {
+  it('rejects resources that were not registered', async () => {
+    const { watcher } = createWatcher(jest.fn());
+    await expect(watcher.subscribe(gmailLabelUri('INBOX'))).rejects.toThrow(
+      'cannot be subscribed to'
+    );
+    await expect(
+      watcher.subscribe(calendarEventsUri('other@example.com'))
+    ).rejects.toThrow('cannot be subscribed to');
+    watcher.stop();
+  });
+
+  it('checks calendars with one request per poll', async () => {
+    const hasEventChanges = jest
+      .fn()
+      .mockResolvedValueOnce(false) // Baseline
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false);
+    const { watcher, notify } = createWatcher(hasEventChanges);
+    const uri = calendarEventsUri('primary');
+
+    await watcher.subscribe(uri);
+    await (watcher as any).poll();
+    await (watcher as any).poll();
+
+    expect(hasEventChanges).toHaveBeenCalledTimes(3);
+    // Each poll looks back to when the previous one started
+    const [baseline, first, second] = hasEventChanges.mock.calls.map(
+      call => call[0].updatedMin
+    );
+    expect(first).toBe(baseline);
+    expect(Date.parse(second)).toBeGreaterThanOrEqual(Date.parse(first));
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledWith(uri);
+    watcher.stop();
+  });
+});
@@ -0,0 +1,222 @@
+import GmailService, { GmailServiceError } from '@services/gmail';
+import GCalendarService from '@services/gcalendar';
+import logger from '@/utils/logger';
+
+const GMAIL_LABEL_URI_PREFIX = 'gmail://labels/';
+const CALENDAR_URI_PREFIX = 'gcalendar://calendars/';
+const CALENDAR_URI_SUFFIX = '/events';
+
+export interface ResourceWatcherOptions {
+  pollIntervalSeconds: number;
+  resourceUris: string[]; // URIs registered as resources, the only ones watched
+  getGmailService: () => GmailService;
+  getCalendarService: () => GCalendarService;
+  notify: (uri: string) => Promise<void>;
+}
+
+/**
+ * Build the resource URI for a Gmail label view
+ * @param labelId - Gmail label ID, e.g. "INBOX"
+ */
+export function gmailLabelUri(labelId: string): string {
+  return `${GMAIL_LABEL_URI_PREFIX}${encodeURIComponent(labelId)}`;
+}
+
+/**
+ * Build the resource URI for a calendar's events view
+ * @param calendarId - Calendar ID, e.g. "primary"
+ */
+export function calendarEventsUri(calendarId: string): string {
+  return `${CALENDAR_URI_PREFIX}${encodeURIComponent(calendarId)}${CALENDAR_URI_SUFFIX}`;
+}
+
+type WatchedResource =
+  | { kind: 'gmail'; labelId: string }
+  | { kind: 'calendar'; calendarId: string };
+
+function parseResourceUri(uri: string): WatchedResource | null {
+  if (uri.startsWith(GMAIL_LABEL_URI_PREFIX)) {
+    return {
+      kind: 'gmail',
+      labelId: decodeURIComponent(uri.substring(GMAIL_LABEL_URI_PREFIX.length)),
+    };
+  }
+  if (
+    uri.startsWith(CALENDAR_URI_PREFIX) &&
+    uri.endsWith(CALENDAR_URI_SUFFIX)
+  ) {
+    return {
+      kind: 'calendar',
+      calendarId: decodeURIComponent(
+        uri.substring(
+          CALENDAR_URI_PREFIX.length,
+          uri.length - CALENDAR_URI_SUFFIX.length
+        )
+      ),
+    };
+  }
+  return null;
+}
+
+/**
+ * Polls the Gmail history API and Calendar change times for the resources a
+ * session has subscribed to, and notifies the client when one changes.
+ * One watcher exists per MCP session and must be stopped when it closes.
+ */
+export class ResourceWatcher {
+  private subscriptions = new Set<string>();
+  // Gmail history IDs and times Calendar was last checked, keyed by URI
+  private checkpoints = new Map<string, string>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  private stopped = false;
+
+  constructor(private readonly options: ResourceWatcherOptions) {}
+
+  /**
+   * Start watching a resource. The current state becomes the baseline, so
+   * only later changes trigger notifications.
+   * @param uri - Resource URI from gmailLabelUri or calendarEventsUri
+   */
+  async subscribe(uri: string): Promise<void> {
+    if (!this.options.resourceUris.includes(uri) || !parseResourceUri(uri)) {
+      throw new Error(`Resource ${uri} cannot be subscribed to`);
+    }
+
+    if (!this.checkpoints.has(uri)) {
+      await this.establishBaseline(uri);
+    }
+    this.subscriptions.add(uri);
+    this.start();
+  }
+
+  /**
+   * Stop watching a resource
+   * @param uri - Resource URI passed to subscribe
+   */
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    this.checkpoints.delete(uri);
+    if (this.subscriptions.size === 0) {
+      this.clearTimer();
+    }
+  }
+
+  /**
+   * Stop polling for good, e.g. when the session's transport closes
+   */
+  stop(): void {
+    this.stopped = true;
+    this.subscriptions.clear();
+    this.checkpoints.clear();
+    this.clearTimer();
+  }
+
+  private start(): void {
+    if (this.timer || this.stopped) {
+      return;
+    }
+    this.timer = setInterval(
+      () => void this.poll(),
+      this.options.pollIntervalSeconds * 1000
+    );
+    // Do not keep the process alive just for polling
+    this.timer.unref();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async establishBaseline(uri: string): Promise<void> {
+    const resource = parseResourceUri(uri);
+    if (resource?.kind === 'gmail') {
+      const changes = await this.options.getGmailService().listChanges();
+      this.checkpoints.set(uri, changes.historyId);
+    } else if (resource?.kind === 'calendar') {
+      // One small request checks access; changes are found by update time
+      const checkedAt = new Date().toISOString();
+      await this.options.getCalendarService().hasEventChanges({
+        calendarId: resource.calendarId,
+        updatedMin: checkedAt,
+      });
+      this.checkpoints.set(uri, checkedAt);
+    }
+  }
+
+  private async poll(): Promise<void> {
+    // Skip a tick if the previous poll is still running
+    if (this.polling || this.stopped) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      for (const uri of [...this.subscriptions]) {
+        try {
+          if (await this.hasChanged(uri)) {
+            await this.options.notify(uri);
+          }
+        } catch (error) {
+          logger.warn(
+            `Failed to poll ${uri}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async hasChanged(uri: string): Promise<boolean> {
+    const resource = parseResourceUri(uri);
+    const checkpoint = this.checkpoints.get(uri);
+    if (!resource || !checkpoint) {
+      await this.establishBaseline(uri);
+      return false;
+    }
+
+    if (resource.kind === 'gmail') {
+      try {
+        const changes = await this.options.getGmailService().listChanges({
+          startHistoryId: checkpoint,
+          labelId: resource.labelId,
+          maxChanges: 100,
+          fetchDetails: false,
+        });
+        this.checkpoints.set(uri, changes.historyId);
+        return (
+          changes.messagesAdded.length > 0 ||
+          changes.messagesDeleted.length > 0 ||
+          changes.labelsAdded.length > 0 ||
+          changes.labelsRemoved.length > 0
+        );
+      } catch (error) {
+        // The checkpoint fell out of the history window, start over
+        if (
+          error instanceof GmailServiceError &&
+          error.code === 'HISTORY_EXPIRED'
+        ) {
+          await this.establishBaseline(uri);
+          return true;
+        }
+        throw error;
+      }
+    }
+
+    const checkedAt = new Date().toISOString();
+    const changed = await this.options.getCalendarService().hasEventChanges({
+      calendarId: resource.calendarId,
+      updatedMin: checkpoint,
+    });
+    this.checkpoints.set(uri, checkedAt);
+    return changed;
+  }
+}
+
+export default ResourceWatcher;
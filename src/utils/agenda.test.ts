@@ -0,0 +1,190 @@
+import type { CalendarEvent } from '@services/types';
+import { buildAgenda } from './agenda';
+
+const range = {
+  rangeStart: Date.parse('2026-10-19T04:00:00Z'), // Midnight in New York
+  rangeEnd: Date.parse('2026-10-22T04:00:00Z'),
+  timeZone: 'America/New_York',
+};
+
+function event(
+  id: string,
+  start: string,
+  end: string,
+  extra: Partial<CalendarEvent> = {}
+): CalendarEvent {
+  const allDay = !start.includes('T');
+  return {
+    id,
+    summary: id,
+    start: allDay ? { date: start } : { dateTime: start },
+    end: allDay ? { date: end } : { dateTime: end },
+    htmlLink: `https://calendar.example.com/${id}`,
+    status: 'confirmed',
+    ...extra,
+  };
+}
+
+describe('buildAgenda', () => {
+  it('lists an event found on several calendars once', () => {
+    const meeting = event(
+      'meeting',
+      '2026-10-19T10:00:00-04:00',
+      '2026-10-19T11:00:00-04:00',
+      { iCalUID: 'meeting@example.com' }
+    );
+    const { days, conflictCount } = buildAgenda(
+      [
+        { calendarId: 'primary', event: meeting },
+        {
+          calendarId: 'team@example.com',
+          event: { ...meeting, id: 'copy-on-team-calendar' },
+        },
+      ],
+      range
+    );
+
+    expect(days).toHaveLength(1);
+    expect(days[0].events).toHaveLength(1);
+    expect(days[0].events[0].calendarIds).toEqual([
+      'primary',
+      'team@example.com',
+    ]);
+    expect(conflictCount).toBe(0);
+  });
+
+  it('keeps occurrences of a recurring event apart', () => {
+    const occurrence = (day: string) =>
+      event(
+        `standup_${day}`,
+        `2026-10-${day}T09:00:00-04:00`,
+        `2026-10-${day}T09:15:00-04:00`,
+        {
+          iCalUID: 'standup@example.com',
+          originalStartTime: { dateTime: `2026-10-${day}T09:00:00-04:00` },
+        }
+      );
+    const { days } = buildAgenda(
+      [
+        { calendarId: 'primary', event: occurrence('19') },
+        { calendarId: 'primary', event: occurrence('20') },
+      ],
+      range
+    );
+    expect(days.map(day => day.date)).toEqual(['2026-10-19', '2026-10-20']);
+  });
+
+  it('shows a timed event on every day it touches', () => {
+    const { days } = buildAgenda(
+      [
+        {
+          calendarId: 'primary',
+          event: event(
+            'overnight',
+            '2026-10-19T22:00:00-04:00',
+            '2026-10-20T02:00:00-04:00'
+          ),
+        },
+      ],
+      range
+    );
+    expect(days.map(day => day.date)).toEqual(['2026-10-19', '2026-10-20']);
+    expect(days[0].events[0]).toMatchObject({ continuesToNextDay: true });
+    expect(days[1].events[0]).toMatchObject({
+      continuesFromPreviousDay: true,
+    });
+    expect(days[1].events[0].continuesToNextDay).toBeUndefined();
+  });
+
+  it('treats the end date of all-day events as exclusive', () => {
+    const { days } = buildAgenda(
+      [
+        {
+          calendarId: 'primary',
+          event: event('conference', '2026-10-18', '2026-10-21'),
+        },
+      ],
+      range
+    );
+    // Clipped to the range, which starts on the 19th
+    expect(days.map(day => day.date)).toEqual(['2026-10-19', '2026-10-20']);
+    expect(days[0].allDayEvents[0]).toMatchObject({
+      allDay: true,
+      continuesFromPreviousDay: true,
+      continuesToNextDay: true,
+    });
+    expect(days[1].allDayEvents[0].continuesToNextDay).toBeUndefined();
+    expect(days[0].events).toEqual([]);
+  });
+
+  it('marks overlapping events, ignoring free and declined ones', () => {
+    const { days, conflictCount } = buildAgenda(
+      [
+        {
+          calendarId: 'primary',
+          event: event(
+            'review',
+            '2026-10-19T10:00:00-04:00',
+            '2026-10-19T11:00:00-04:00'
+          ),
+        },
+        {
+          calendarId: 'primary',
+          event: event(
+            'interview',
+            '2026-10-19T10:30:00-04:00',
+            '2026-10-19T11:30:00-04:00'
+          ),
+        },
+        {
+          calendarId: 'primary',
+          event: event(
+            'focus',
+            '2026-10-19T10:00:00-04:00',
+            '2026-10-19T12:00:00-04:00',
+            { transparency: 'transparent' }
+          ),
+        },
+        {
+          calendarId: 'primary',
+          event: event(
+            'declined',
+            '2026-10-19T10:15:00-04:00',
+            '2026-10-19T10:45:00-04:00',
+            {
+              attendees: [
+                {
+                  email: 'me@example.com',
+                  self: true,
+                  responseStatus: 'declined',
+                },
+              ],
+            }
+          ),
+        },
+        {
+          calendarId: 'primary',
+          // Starts when the interview ends, so it does not overlap
+          event: event(
+            'lunch',
+            '2026-10-19T11:30:00-04:00',
+            '2026-10-19T12:30:00-04:00'
+          ),
+        },
+      ],
+      range
+    );
+
+    expect(conflictCount).toBe(1);
+    const byId = Object.fromEntries(
+      days[0].events.map(entry => [entry.id, entry.conflictsWith])
+    );
+    expect(byId).toEqual({
+      review: ['interview'],
+      interview: ['review'],
+      focus: undefined,
+      declined: undefined,
+      lunch: undefined,
+    });
+  });
+});
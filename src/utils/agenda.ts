@@ -0,0 +1,219 @@
+// Pure agenda builder: merges events from several calendars, removes
+// duplicates, groups them by day in one display time zone and flags overlaps.
+
+import type {
+  AgendaDay,
+  AgendaEntry,
+  CalendarEvent,
+  EventDateTime,
+} from '@services/types';
+import { formatDate, formatRfc3339 } from './timezone';
+
+export interface AgendaSource {
+  calendarId: string;
+  event: CalendarEvent;
+}
+
+export interface AgendaRange {
+  rangeStart: number; // Epoch milliseconds
+  rangeEnd: number;
+  timeZone: string; // Display time zone
+}
+
+const DAY = 24 * 60 * 60000;
+
+const WEEKDAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+interface MergedEvent {
+  entry: AgendaEntry;
+  startTime: number; // Epoch milliseconds, timed events only
+  endTime: number;
+}
+
+// The same meeting on several calendars shares its iCalUID; occurrences of a
+// recurring event are told apart by their original start
+function dedupeKey(event: CalendarEvent): string {
+  const start = event.originalStartTime || event.start;
+  return `${event.iCalUID || event.id}|${start.dateTime || start.date}`;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY)
+    .toISOString()
+    .substring(0, 10);
+}
+
+function weekdayOf(date: string): string {
+  return WEEKDAY_NAMES[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+function isAllDay(start: EventDateTime): boolean {
+  return !!start.date && !start.dateTime;
+}
+
+function toEntry(
+  source: AgendaSource,
+  timeZone: string
+): AgendaEntry | undefined {
+  const { event, calendarId } = source;
+  const allDay = isAllDay(event.start);
+  if (!allDay && (!event.start.dateTime || !event.end.dateTime)) {
+    return undefined;
+  }
+
+  const self = event.attendees?.find(attendee => attendee.self);
+  const meetLink =
+    event.conference?.entryPoints.find(
+      entryPoint => entryPoint.entryPointType === 'video'
+    )?.uri || event.hangoutLink;
+
+  return {
+    id: event.id,
+    calendarIds: [calendarId],
+    summary: event.summary,
+    start: allDay
+      ? event.start.date!
+      : formatRfc3339(Date.parse(event.start.dateTime!), timeZone),
+    end: allDay
+      ? event.end.date || addDays(event.start.date!, 1)
+      : formatRfc3339(Date.parse(event.end.dateTime!), timeZone),
+    allDay,
+    location: event.location,
+    meetLink,
+    responseStatus: self?.responseStatus,
+    status: event.status,
+    transparent: event.transparency === 'transparent' || undefined,
+    htmlLink: event.htmlLink,
+  };
+}
+
+// Flag timed events that overlap; free ("transparent") and declined events
+// never conflict
+function markConflicts(events: MergedEvent[]): number {
+  const blocking = events
+    .filter(
+      ({ entry }) =>
+        !entry.allDay &&
+        !entry.transparent &&
+        entry.responseStatus !== 'declined'
+    )
+    .sort((a, b) => a.startTime - b.startTime);
+
+  let pairs = 0;
+  for (let i = 0; i < blocking.length; i++) {
+    for (
+      let j = i + 1;
+      j < blocking.length && blocking[j].startTime < blocking[i].endTime;
+      j++
+    ) {
+      const a = blocking[i].entry;
+      const b = blocking[j].entry;
+      a.conflictsWith = [...(a.conflictsWith || []), b.id];
+      b.conflictsWith = [...(b.conflictsWith || []), a.id];
+      pairs++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Build a day-by-day agenda from events of several calendars. Events that
+ * appear on more than one calendar are listed once with every calendar ID.
+ * Timed events are shown in the display time zone on each day they touch;
+ * all-day events keep their dates, with the end date exclusive.
+ * @param sources - Events tagged with the calendar they were read from
+ * @param range - Agenda range and display time zone
+ * @returns Days that have events, in order, and the number of conflicts
+ */
+export function buildAgenda(
+  sources: AgendaSource[],
+  range: AgendaRange
+): { days: AgendaDay[]; conflictCount: number } {
+  const { rangeStart, rangeEnd, timeZone } = range;
+  const merged = new Map<string, MergedEvent>();
+
+  for (const source of sources) {
+    const key = dedupeKey(source.event);
+    const existing = merged.get(key);
+    if (existing) {
+      if (!existing.entry.calendarIds.includes(source.calendarId)) {
+        existing.entry.calendarIds.push(source.calendarId);
+      }
+      continue;
+    }
+
+    const entry = toEntry(source, timeZone);
+    if (entry) {
+      merged.set(key, {
+        entry,
+        startTime: Date.parse(source.event.start.dateTime || ''),
+        endTime: Date.parse(source.event.end.dateTime || ''),
+      });
+    }
+  }
+
+  const events = [...merged.values()];
+  const conflictCount = markConflicts(events);
+
+  const firstDate = formatDate(rangeStart, timeZone);
+  const lastDate = formatDate(rangeEnd - 1, timeZone);
+  const days = new Map<string, AgendaDay>();
+  const dayFor = (date: string): AgendaDay => {
+    let day = days.get(date);
+    if (!day) {
+      day = { date, weekday: weekdayOf(date), allDayEvents: [], events: [] };
+      days.set(date, day);
+    }
+    return day;
+  };
+
+  for (const { entry, startTime, endTime } of events) {
+    // The last day an event touches; an end at midnight belongs to the day before
+    const startDate = entry.allDay
+      ? entry.start
+      : formatDate(startTime, timeZone);
+    const endDate = entry.allDay
+      ? addDays(entry.end, -1)
+      : formatDate(Math.max(startTime, endTime - 1), timeZone);
+
+    for (
+      let date = startDate > firstDate ? startDate : firstDate;
+      date <= endDate && date <= lastDate;
+      date = addDays(date, 1)
+    ) {
+      const shown: AgendaEntry = { ...entry };
+      if (date > startDate) {
+        shown.continuesFromPreviousDay = true;
+      }
+      if (date < endDate) {
+        shown.continuesToNextDay = true;
+      }
+      if (entry.allDay) {
+        dayFor(date).allDayEvents.push(shown);
+      } else {
+        dayFor(date).events.push(shown);
+      }
+    }
+  }
+
+  const sorted = [...days.values()].sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+  for (const day of sorted) {
+    day.allDayEvents.sort((a, b) => a.summary.localeCompare(b.summary));
+    day.events.sort(
+      (a, b) =>
+        Date.parse(a.start) - Date.parse(b.start) ||
+        Date.parse(a.end) - Date.parse(b.end)
+    );
+  }
+  return { days: sorted, conflictCount };
+}
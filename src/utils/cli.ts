@@ -0,0 +1,71 @@
+import { parseArgs } from 'node:util';
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface CliOptions {
+  transport: TransportMode;
+  port?: number; // HTTP port, overrides PORT
+  tokenEnv: string; // Environment variable holding the token in stdio mode
+  tokenStore?: string; // Token store file for API keys, overrides TOKEN_STORE_PATH
+  help: boolean;
+}
+
+export const CLI_USAGE = `Usage: mcp-google-assistant [options]
+
+Options:
+  --transport <stdio|http>  Transport to serve MCP over (default: http, or MCP_TRANSPORT)
+  --port <number>           HTTP port (default: PORT or 3000)
+  --token-env <name>        Environment variable with the Google access token or
+                            server-issued API key in stdio mode
+                            (default: GOOGLE_ACCESS_TOKEN)
+  --token-store <path>      Encrypted token store used to refresh API keys
+                            (default: TOKEN_STORE_PATH or ./data/tokens.json)
+  -h, --help                Show this help`;
+
+/**
+ * Parse command line arguments
+ * @param argv - Arguments without the node binary and script path
+ * @param env - Environment used for defaults
+ * @returns Parsed options
+ * @throws Error when an option is unknown or has an invalid value
+ */
+export function parseCliOptions(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env
+): CliOptions {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      transport: { type: 'string' },
+      port: { type: 'string' },
+      'token-env': { type: 'string' },
+      'token-store': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+    strict: true,
+    allowPositionals: false,
+  });
+
+  const transport = values.transport || env.MCP_TRANSPORT || 'http';
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(
+      `Invalid transport "${transport}". Expected "stdio" or "http".`
+    );
+  }
+
+  let port: number | undefined;
+  if (values.port !== undefined) {
+    port = Number(values.port);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error(`Invalid port "${values.port}"`);
+    }
+  }
+
+  return {
+    transport,
+    port,
+    tokenEnv: values['token-env'] || 'GOOGLE_ACCESS_TOKEN',
+    tokenStore: values['token-store'],
+    help: !!values.help,
+  };
+}
@@ -0,0 +1,98 @@
+import { convertDateTime, parseDateTime } from './datetime';
+
+// Monday, October 19 2026, 08:00 in New York
+const now = Date.parse('2026-10-19T12:00:00Z');
+const timeZone = 'America/New_York';
+
+describe('parseDateTime', () => {
+  it.each([
+    // Examples from the request
+    ['next Tuesday 3pm', '2026-10-20T15:00:00-04:00', false],
+    ['in 2 hours', '2026-10-19T10:00:00-04:00', false],
+    ['tomorrow morning PST', '2026-10-20T12:00:00-04:00', false],
+    // Relative amounts
+    ['1h30m from now', '2026-10-19T09:30:00-04:00', false],
+    ['half an hour from now', '2026-10-19T08:30:00-04:00', false],
+    ['3 days ago', '2026-10-16T08:00:00-04:00', false],
+    ['in 2 weeks', '2026-11-02T08:00:00-05:00', false],
+    ['now', '2026-10-19T08:00:00-04:00', false],
+    // Weekdays and "next"
+    ['monday', '2026-10-19T00:00:00-04:00', true],
+    ['next monday', '2026-10-26T00:00:00-04:00', true],
+    ['tuesday', '2026-10-20T00:00:00-04:00', true],
+    ['last friday', '2026-10-16T00:00:00-04:00', true],
+    ['next week', '2026-10-26T00:00:00-04:00', true],
+    // Dates and day parts
+    ['July 20 at noon', '2027-07-20T12:00:00-04:00', false],
+    ['20th of july 2027', '2027-07-20T00:00:00-04:00', true],
+    ['12/25', '2026-12-25T00:00:00-05:00', true],
+    ['end of day', '2026-10-19T17:00:00-04:00', false],
+    ['at 3', '2026-10-19T15:00:00-04:00', false],
+    // ISO forms
+    ['2026-10-20 15:00', '2026-10-20T15:00:00-04:00', false],
+    ['2026-10-20T15:00:00-07:00', '2026-10-20T18:00:00-04:00', false],
+    // DST: a skipped time moves forward, a repeated one takes the first
+    ['2027-03-14 2:30am', '2027-03-14T03:30:00-04:00', false],
+    ['2026-11-01 1:30am', '2026-11-01T01:30:00-04:00', false],
+    // Abbreviations and fixed offsets
+    ['friday 5pm CET', '2026-10-23T11:00:00-04:00', false],
+    ['tomorrow 3pm UTC+2', '2026-10-20T09:00:00-04:00', false],
+    // RFC 2822 through the fallback parser
+    ['Tue, 20 Oct 2026 15:00:00 +0900', '2026-10-20T02:00:00-04:00', false],
+  ])('reads "%s" as %s', (input, expected, allDay) => {
+    const result = convertDateTime(input, { now, timeZone });
+    expect(result.rfc3339).toBe(expected);
+    expect(result.allDay).toBe(allDay);
+  });
+
+  it('reports the zone an abbreviation stands for', () => {
+    expect(parseDateTime('tomorrow 9am PST', { now, timeZone }).timeZone).toBe(
+      'America/Los_Angeles'
+    );
+  });
+
+  it.each(['2026/10/20 15:00', 'gibberish', ''])(
+    'rejects "%s" instead of reading it in the server time zone',
+    input => {
+      expect(() => parseDateTime(input, { now, timeZone })).toThrow();
+    }
+  );
+});
+
+describe('convertDateTime', () => {
+  it('returns start and end ready for the calendar tools', () => {
+    const result = convertDateTime('next Tuesday 3pm', {
+      now,
+      timeZone,
+      durationMinutes: 45,
+    });
+    expect(result.start).toEqual({
+      dateTime: '2026-10-20T15:00:00-04:00',
+      timeZone,
+    });
+    expect(result.end).toEqual({
+      dateTime: '2026-10-20T15:45:00-04:00',
+      timeZone,
+    });
+  });
+
+  it('converts to a target time zone', () => {
+    const result = convertDateTime('2026-10-20 15:00', {
+      now,
+      timeZone,
+      targetTimeZone: 'Asia/Tokyo',
+    });
+    expect(result.rfc3339).toBe('2026-10-21T04:00:00+09:00');
+    expect(result.utc).toBe('2026-10-20T19:00:00.000Z');
+  });
+
+  it('returns all-day dates with an exclusive end', () => {
+    const result = convertDateTime('friday', {
+      now,
+      timeZone,
+      durationMinutes: 24 * 60,
+    });
+    expect(result.start).toEqual({ date: '2026-10-23' });
+    expect(result.end).toEqual({ date: '2026-10-24' });
+  });
+});
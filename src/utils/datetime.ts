@@ -0,0 +1,674 @@
+// Natural-language and relative date-time parsing ("next Tuesday 3pm",
+// "in 2 hours", "tomorrow morning PST") against a reference time and a user
+// time zone, with output shaped for the calendar tools.
+
+import type { EventDateTime } from '@services/types';
+import {
+  formatDate,
+  formatRfc3339,
+  getZonedDateTime,
+  isValidTimeZone,
+  zonedTimeToInstant,
+} from './timezone';
+
+export interface DateTimeParseOptions {
+  now?: number; // Reference time in epoch milliseconds, defaults to now
+  timeZone?: string; // IANA zone for times without one, defaults to UTC
+}
+
+export interface ParsedDateTime {
+  instant: number; // Epoch milliseconds; local midnight for all-day results
+  allDay: boolean; // True when only a date was given, e.g. "next Friday"
+  date: string; // YYYY-MM-DD in the zone the input was interpreted in
+  timeZone: string; // IANA zone the input was interpreted in
+}
+
+export interface DateTimeConversionOptions extends DateTimeParseOptions {
+  targetTimeZone?: string; // Output zone, defaults to timeZone
+  durationMinutes?: number; // Also return an end time this long after
+}
+
+export interface DateTimeConversion {
+  input: string;
+  interpretedAs: string; // Human-readable, e.g. "Tuesday, July 23, 2024 at 3:00 PM EDT"
+  timeZone: string; // Output time zone
+  allDay: boolean;
+  rfc3339: string; // With offset, e.g. "2024-07-23T15:00:00-04:00"
+  utc: string; // e.g. "2024-07-23T19:00:00.000Z"
+  unix: number; // Seconds
+  date: string; // YYYY-MM-DD
+  start: EventDateTime; // Ready for gcalendar_create_event / update_event
+  end?: EventDateTime; // Set when durationMinutes is given
+  referenceNow: string; // The "now" relative expressions were resolved against
+}
+
+interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+interface Zone {
+  timeZone: string; // IANA zone, or the fallback zone for fixed offsets
+  fixedOffset?: number; // Minutes, e.g. from "UTC+2"
+}
+
+const MINUTE = 60000;
+const DAY = 24 * 60 * MINUTE;
+
+// Abbreviations map to the zone they belong to, so "PST" in July means
+// Pacific time with daylight saving applied
+const ZONE_ABBREVIATIONS: Record<string, string> = {
+  pst: 'America/Los_Angeles',
+  pdt: 'America/Los_Angeles',
+  mst: 'America/Denver',
+  mdt: 'America/Denver',
+  cst: 'America/Chicago',
+  cdt: 'America/Chicago',
+  est: 'America/New_York',
+  edt: 'America/New_York',
+  akst: 'America/Anchorage',
+  akdt: 'America/Anchorage',
+  hst: 'Pacific/Honolulu',
+  utc: 'UTC',
+  gmt: 'UTC',
+  bst: 'Europe/London',
+  cet: 'Europe/Paris',
+  cest: 'Europe/Paris',
+  eet: 'Europe/Athens',
+  eest: 'Europe/Athens',
+  ist: 'Asia/Kolkata',
+  sgt: 'Asia/Singapore',
+  hkt: 'Asia/Hong_Kong',
+  jst: 'Asia/Tokyo',
+  kst: 'Asia/Seoul',
+  aest: 'Australia/Sydney',
+  aedt: 'Australia/Sydney',
+  nzst: 'Pacific/Auckland',
+  nzdt: 'Pacific/Auckland',
+};
+
+const MONTHS = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twelve: 12,
+  fifteen: 15,
+  twenty: 20,
+  thirty: 30,
+  half: 0.5,
+};
+
+// Parts of the day and the time they stand for
+const DAY_PARTS: Record<string, [number, number]> = {
+  morning: [9, 0],
+  lunch: [12, 0],
+  lunchtime: [12, 0],
+  noon: [12, 0],
+  midday: [12, 0],
+  afternoon: [14, 0],
+  evening: [18, 0],
+  tonight: [20, 0],
+  night: [20, 0],
+  midnight: [0, 0],
+  eod: [17, 0],
+};
+
+const MONTH_PATTERN =
+  'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const WEEKDAY_PATTERN =
+  'monday|mon|tuesday|tues|tue|wednesday|wed|thursday|thurs|thur|thu|friday|fri|saturday|sat|sunday|sun';
+// Units end at the next non-letter, so compact forms like "1h30m" match
+const UNIT_PATTERN =
+  '(?:seconds?|secs?|s|minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|wks?|w|months?|years?|yrs?|y)(?![a-z])';
+const AMOUNT_PATTERN = `\\d+(?:\\.\\d+)?|half\\s+an?|${Object.keys(
+  NUMBER_WORDS
+).join('|')}`;
+
+// A UTC offset or UTC/GMT marker, e.g. "+0200" in RFC 2822 dates
+const EXPLICIT_OFFSET =
+  /(?:\b(?:ut|utc|gmt)\b|\dz$|(?:\s|:\d{2})[+-]\d{2}:?\d{2}\b)/i;
+
+// Words that carry no meaning once dates and times are taken out
+const FILLER = /\b(at|on|the|of|in|by|around|about|for|and|this|from|now)\b/g;
+
+function shiftDate(date: LocalDate, days: number): LocalDate {
+  const shifted = new Date(
+    Date.UTC(date.year, date.month - 1, date.day) + days * DAY
+  );
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+function shiftMonths(date: LocalDate, months: number): LocalDate {
+  const index = date.year * 12 + (date.month - 1) + months;
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  // Clamp e.g. January 31 + 1 month to the end of February
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return { year, month, day: Math.min(date.day, lastDay) };
+}
+
+function weekdayOf(date: LocalDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function unitOf(unit: string): 's' | 'm' | 'h' | 'd' | 'w' | 'mo' | 'y' {
+  if (/^s/.test(unit)) {
+    return 's';
+  }
+  if (/^mo/.test(unit)) {
+    return 'mo';
+  }
+  if (/^m/.test(unit)) {
+    return 'm';
+  }
+  if (/^h/.test(unit)) {
+    return 'h';
+  }
+  if (/^d/.test(unit)) {
+    return 'd';
+  }
+  if (/^w/.test(unit)) {
+    return 'w';
+  }
+  return 'y';
+}
+
+function amountOf(value: string): number {
+  // "half an hour" counts as half
+  return NUMBER_WORDS[value.split(/\s+/)[0]] ?? Number(value);
+}
+
+function extractZone(text: string): { text: string; zone?: Zone } {
+  const iana = text.match(/\b([A-Za-z]+\/[A-Za-z_]+(?:\/[A-Za-z_]+)?)\b/);
+  if (iana && isValidTimeZone(iana[1])) {
+    return { text: text.replace(iana[0], ' '), zone: { timeZone: iana[1] } };
+  }
+
+  const offset = text.match(
+    /\b(?:utc|gmt)\s*([+-])\s*(\d{1,2})(?::?(\d{2}))?\b/i
+  );
+  if (offset) {
+    const minutes = Number(offset[2]) * 60 + Number(offset[3] || 0);
+    return {
+      text: text.replace(offset[0], ' '),
+      zone: {
+        timeZone: 'UTC',
+        fixedOffset: offset[1] === '-' ? -minutes : minutes,
+      },
+    };
+  }
+
+  const abbreviation = text.match(
+    new RegExp(`\\b(${Object.keys(ZONE_ABBREVIATIONS).join('|')})\\b`, 'i')
+  );
+  if (abbreviation) {
+    return {
+      text: text.replace(abbreviation[0], ' '),
+      zone: { timeZone: ZONE_ABBREVIATIONS[abbreviation[1].toLowerCase()] },
+    };
+  }
+  return { text };
+}
+
+function toInstant(
+  date: LocalDate,
+  hour: number,
+  minute: number,
+  zone: Zone
+): number {
+  if (zone.fixedOffset !== undefined) {
+    return (
+      Date.UTC(date.year, date.month - 1, date.day, hour, minute) -
+      zone.fixedOffset * MINUTE
+    );
+  }
+  return zonedTimeToInstant({ ...date, hour, minute }, zone.timeZone);
+}
+
+function localToday(now: number, zone: Zone): LocalDate {
+  if (zone.fixedOffset !== undefined) {
+    const shifted = new Date(now + zone.fixedOffset * MINUTE);
+    return {
+      year: shifted.getUTCFullYear(),
+      month: shifted.getUTCMonth() + 1,
+      day: shifted.getUTCDate(),
+    };
+  }
+  const local = getZonedDateTime(now, zone.timeZone);
+  return { year: local.year, month: local.month, day: local.day };
+}
+
+function localTime(now: number, zone: Zone): [number, number] {
+  if (zone.fixedOffset !== undefined) {
+    const shifted = new Date(now + zone.fixedOffset * MINUTE);
+    return [shifted.getUTCHours(), shifted.getUTCMinutes()];
+  }
+  const local = getZonedDateTime(now, zone.timeZone);
+  return [local.hour, local.minute];
+}
+
+/**
+ * Parse an absolute, relative or natural-language date-time. Weekday names
+ * mean the next such day on or after today ("next Tuesday" skips today), a
+ * date without a year means its next occurrence, and "PST"-style
+ * abbreviations are read as their IANA zone so daylight saving applies.
+ * @param input - e.g. "2024-07-20T15:00:00-07:00", "in 2 hours",
+ *   "next Tuesday 3pm", "tomorrow morning PST", "July 20 at noon"
+ * @param options - Reference time and the user's time zone
+ * @returns The instant and whether only a date was given
+ */
+export function parseDateTime(
+  input: string,
+  options: DateTimeParseOptions = {}
+): ParsedDateTime {
+  const now = options.now ?? Date.now();
+  const defaultZone: Zone = {
+    timeZone:
+      options.timeZone && isValidTimeZone(options.timeZone)
+        ? options.timeZone
+        : 'UTC',
+  };
+  const trimmed = input.trim();
+  if (!trimmed) {
+    throw new Error('Empty date-time string');
+  }
+
+  // RFC 3339 / ISO 8601 with an explicit offset is unambiguous
+  if (
+    /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i.test(
+      trimmed
+    )
+  ) {
+    const instant = Date.parse(trimmed.replace(' ', 'T'));
+    if (!isNaN(instant)) {
+      return {
+        instant,
+        allDay: false,
+        date: formatDate(instant, defaultZone.timeZone),
+        timeZone: defaultZone.timeZone,
+      };
+    }
+  }
+
+  const extracted = extractZone(trimmed);
+  const zone = extracted.zone ?? defaultZone;
+  let text = ` ${extracted.text.toLowerCase().replace(/,/g, ' ')} `;
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = text.match(pattern);
+    if (match) {
+      text = text.replace(match[0], ' ');
+    }
+    return match;
+  };
+
+  const today = localToday(now, zone);
+  let date: LocalDate | undefined;
+  let time: [number, number] | undefined;
+  let instantShift = 0; // Hours, minutes and seconds from "in 2 hours"
+  let shiftedDate = false; // Days or longer from "in 3 days"
+  let matched = false;
+
+  // ISO date with an optional local time, e.g. "2024-07-20 15:00"
+  const iso = take(
+    /\b(\d{4})-(\d{2})-(\d{2})(?:[t ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?\b/
+  );
+  if (iso) {
+    date = { year: +iso[1], month: +iso[2], day: +iso[3] };
+    if (iso[4] !== undefined) {
+      time = [+iso[4], +iso[5]];
+    }
+    matched = true;
+  }
+
+  // Relative amounts: "in 2 hours", "3 days ago", "1h30m from now"
+  const relative = take(
+    new RegExp(
+      `\\b(in\\s+)?((?:(?:${AMOUNT_PATTERN})\\s*${UNIT_PATTERN}\\s*(?:and\\s+)?)+)(ago|from now|later|hence)?`
+    )
+  );
+  if (relative && (relative[1] || relative[3])) {
+    const sign = relative[3] === 'ago' ? -1 : 1;
+    const parts = relative[2].matchAll(
+      new RegExp(`(${AMOUNT_PATTERN})\\s*(${UNIT_PATTERN})`, 'g')
+    );
+    let base = date ?? today;
+    for (const part of parts) {
+      const amount = amountOf(part[1]) * sign;
+      const unit = unitOf(part[2]);
+      if (unit === 's') {
+        instantShift += amount * 1000;
+      } else if (unit === 'm') {
+        instantShift += amount * MINUTE;
+      } else if (unit === 'h') {
+        instantShift += amount * 60 * MINUTE;
+      } else if (unit === 'd' || unit === 'w') {
+        shiftedDate = true;
+        base = shiftDate(base, Math.round(amount * (unit === 'w' ? 7 : 1)));
+        date = base;
+      } else {
+        shiftedDate = true;
+        base = shiftMonths(base, Math.round(amount * (unit === 'y' ? 12 : 1)));
+        date = base;
+      }
+    }
+    matched = true;
+  } else if (relative) {
+    // A bare amount such as "2 hours" without "in" or "ago" is not a date
+    text = ` ${text} ${relative[0]} `;
+  }
+
+  // Clock times
+  const meridiem = take(
+    /\b(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)(?=\s|$)/
+  );
+  if (meridiem) {
+    let hour = +meridiem[1] % 12;
+    if (meridiem[3].startsWith('p')) {
+      hour += 12;
+    }
+    time = [hour, +(meridiem[2] || 0)];
+    matched = true;
+  } else {
+    const clock = take(/\b(\d{1,2}):(\d{2})(?::\d{2})?\b/);
+    if (clock && +clock[1] < 24 && +clock[2] < 60) {
+      time = [+clock[1], +clock[2]];
+      matched = true;
+    }
+  }
+
+  // "tomorrow", "day after tomorrow", "yesterday", "today", "tonight"
+  const namedDay = take(
+    /\b(day after tomorrow|tomorrow|tmrw|yesterday|today|tonight)\b/
+  );
+  if (namedDay) {
+    const offset =
+      namedDay[1] === 'day after tomorrow'
+        ? 2
+        : namedDay[1] === 'tomorrow' || namedDay[1] === 'tmrw'
+          ? 1
+          : namedDay[1] === 'yesterday'
+            ? -1
+            : 0;
+    date = shiftDate(today, offset);
+    if (namedDay[1] === 'tonight' && !time) {
+      time = DAY_PARTS.tonight;
+    }
+    matched = true;
+  }
+
+  // Weekdays: "friday", "this friday", "next tuesday", "last monday"
+  const weekday = take(
+    new RegExp(
+      `\\b(?:(this|next|coming|last|past)\\s+)?(${WEEKDAY_PATTERN})\\b\\.?`
+    )
+  );
+  if (weekday) {
+    const target = WEEKDAYS.indexOf(weekday[2].substring(0, 3));
+    const current = weekdayOf(today);
+    let days = (target - current + 7) % 7;
+    if (weekday[1] === 'next' && days === 0) {
+      days = 7;
+    }
+    if (weekday[1] === 'last' || weekday[1] === 'past') {
+      days = days === 0 ? -7 : days - 7;
+    }
+    date = shiftDate(today, days);
+    matched = true;
+  }
+
+  // Month names: "july 20", "20th of july 2025", "jul 20, 2025"
+  const monthFirst = take(
+    new RegExp(
+      `\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:\\s+(\\d{4})\\b)?`
+    )
+  );
+  const dayFirst = monthFirst
+    ? null
+    : take(
+        new RegExp(
+          `\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_PATTERN})\\b\\.?(?:\\s+(\\d{4})\\b)?`
+        )
+      );
+  const numeric =
+    monthFirst || dayFirst
+      ? null
+      : take(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/);
+  if (monthFirst || dayFirst || numeric) {
+    let month: number;
+    let day: number;
+    let year: number | undefined;
+    if (monthFirst) {
+      month = MONTHS.indexOf(monthFirst[1].substring(0, 3)) + 1;
+      day = +monthFirst[2];
+      year = monthFirst[3] ? +monthFirst[3] : undefined;
+    } else if (dayFirst) {
+      month = MONTHS.indexOf(dayFirst[2].substring(0, 3)) + 1;
+      day = +dayFirst[1];
+      year = dayFirst[3] ? +dayFirst[3] : undefined;
+    } else {
+      // Numeric dates are read month first, e.g. 7/20/2024
+      month = +numeric![1];
+      day = +numeric![2];
+      year = numeric![3]
+        ? +numeric![3] + (numeric![3].length === 2 ? 2000 : 0)
+        : undefined;
+    }
+    if (month < 1 || month > 12 || day < 1 || day > 31) {
+      throw new Error(`Invalid date in "${input}"`);
+    }
+    // Without a year, the next occurrence of the date is meant
+    if (year === undefined) {
+      year = today.year;
+      if (month < today.month || (month === today.month && day < today.day)) {
+        year++;
+      }
+    }
+    date = { year, month, day };
+    matched = true;
+  }
+
+  // "next week", "next month", "next year", "this week"
+  const period = take(/\b(this|next|last)\s+(week|month|year)\b/);
+  if (period) {
+    const step = period[1] === 'next' ? 1 : period[1] === 'last' ? -1 : 0;
+    if (period[2] === 'week') {
+      // Weeks start on Monday
+      const monday = shiftDate(today, -((weekdayOf(today) + 6) % 7));
+      date = step === 0 ? today : shiftDate(monday, step * 7);
+    } else if (period[2] === 'month') {
+      date =
+        step === 0
+          ? today
+          : { ...shiftMonths({ ...today, day: 1 }, step), day: 1 };
+    } else {
+      date = step === 0 ? today : { year: today.year + step, month: 1, day: 1 };
+    }
+    matched = true;
+  }
+
+  // Parts of the day: "morning", "end of day", "noon"
+  const dayPart = take(
+    /\b(morning|lunchtime|lunch|noon|midday|afternoon|evening|tonight|night|midnight|eod|end of (?:the )?day|close of business|cob)\b/
+  );
+  if (dayPart) {
+    const key = /^(end|close|cob)/.test(dayPart[1]) ? 'eod' : dayPart[1];
+    if (!time) {
+      time = DAY_PARTS[key];
+    } else if (key === 'afternoon' || key === 'evening' || key === 'night') {
+      // "3 in the afternoon" written as "at 3 afternoon"
+      if (time[0] < 12) {
+        time = [time[0] + 12, time[1]];
+      }
+    }
+    matched = true;
+  }
+
+  // "at 3" without am/pm: hours up to 6 are read as afternoon
+  if (!time) {
+    const bareHour = take(/\bat\s+(\d{1,2})\b/);
+    if (bareHour && +bareHour[1] < 24) {
+      const hour = +bareHour[1];
+      time = [hour >= 1 && hour <= 6 ? hour + 12 : hour, 0];
+      matched = true;
+    }
+  }
+
+  if (/^\s*now\s*$/.test(text)) {
+    text = '';
+    matched = true;
+  }
+
+  const leftover = text.replace(FILLER, ' ').replace(/[^a-z0-9]+/g, '');
+  if (!matched || leftover) {
+    // Fall back to the JavaScript parser for formats such as RFC 2822, but
+    // only with an explicit offset: it would read anything else in the
+    // server's time zone rather than the user's
+    const instant = EXPLICIT_OFFSET.test(trimmed) ? Date.parse(trimmed) : NaN;
+    if (isNaN(instant)) {
+      throw new Error(`Could not understand the date-time "${input}"`);
+    }
+    return {
+      instant,
+      allDay: false,
+      date: formatDate(instant, zone.timeZone),
+      timeZone: zone.timeZone,
+    };
+  }
+
+  // Only a relative clock shift, e.g. "in 2 hours" or "now"
+  if (!date && !time) {
+    const instant = now + instantShift;
+    return {
+      instant,
+      allDay: false,
+      date: formatDate(instant, zone.timeZone),
+      timeZone: zone.timeZone,
+    };
+  }
+
+  const resolvedDate = date ?? today;
+  const allDay = !time && instantShift === 0 && !shiftedDate;
+  // A date moved by days keeps the current time of day
+  const resolvedTime = time ?? (allDay ? [0, 0] : localTime(now, zone));
+  const instant =
+    toInstant(resolvedDate, resolvedTime[0], resolvedTime[1], zone) +
+    instantShift;
+
+  return {
+    instant,
+    allDay,
+    date: `${resolvedDate.year}-${String(resolvedDate.month).padStart(
+      2,
+      '0'
+    )}-${String(resolvedDate.day).padStart(2, '0')}`,
+    timeZone: zone.timeZone,
+  };
+}
+
+function describe(instant: number, timeZone: string, allDay: boolean): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    ...(allDay
+      ? {}
+      : { hour: 'numeric', minute: '2-digit', timeZoneName: 'short' }),
+  }).format(new Date(instant));
+}
+
+/**
+ * Parse a date-time and render it in every form the tools need: RFC 3339
+ * with offset, UTC, Unix seconds, and start/end objects for the calendar
+ * tools
+ * @param input - Date-time text, see parseDateTime
+ * @param options - Reference time, user zone, output zone and duration
+ */
+export function convertDateTime(
+  input: string,
+  options: DateTimeConversionOptions = {}
+): DateTimeConversion {
+  const now = options.now ?? Date.now();
+  const userZone =
+    options.timeZone && isValidTimeZone(options.timeZone)
+      ? options.timeZone
+      : 'UTC';
+  const timeZone = options.targetTimeZone || userZone;
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone: ${timeZone}`);
+  }
+
+  const parsed = parseDateTime(input, { now, timeZone: userZone });
+  const duration = options.durationMinutes;
+
+  let start: EventDateTime;
+  let end: EventDateTime | undefined;
+  if (parsed.allDay) {
+    // All-day dates are calendar days, not instants, and end exclusively
+    start = { date: parsed.date };
+    if (duration !== undefined) {
+      const days = Math.max(1, Math.ceil(duration / (24 * 60)));
+      end = {
+        date: new Date(Date.parse(`${parsed.date}T00:00:00Z`) + days * DAY)
+          .toISOString()
+          .substring(0, 10),
+      };
+    }
+  } else {
+    start = { dateTime: formatRfc3339(parsed.instant, timeZone), timeZone };
+    if (duration !== undefined) {
+      end = {
+        dateTime: formatRfc3339(parsed.instant + duration * MINUTE, timeZone),
+        timeZone,
+      };
+    }
+  }
+
+  return {
+    input,
+    interpretedAs: parsed.allDay
+      ? describe(Date.parse(`${parsed.date}T12:00:00Z`), 'UTC', true)
+      : describe(parsed.instant, timeZone, false),
+    timeZone,
+    allDay: parsed.allDay,
+    rfc3339: formatRfc3339(parsed.instant, timeZone),
+    utc: new Date(parsed.instant).toISOString(),
+    unix: Math.floor(parsed.instant / 1000),
+    date: parsed.allDay ? parsed.date : formatDate(parsed.instant, timeZone),
+    start,
+    end,
+    referenceNow: formatRfc3339(now, timeZone),
+  };
+}
@@ -0,0 +1,38 @@
+import { sanitizeHtml, truncateHtml } from './html';
+
+describe('truncateHtml', () => {
+  it('closes the tags left open by the cut', () => {
+    const result = truncateHtml(
+      '<div><p>One <b>two three</b> four</p><ul><li>five</li></ul></div>',
+      2
+    );
+    expect(result).toEqual({
+      html: '<div><p>One <b>two...</b></p></div>',
+      wordCount: 5,
+      isTruncated: true,
+    });
+  });
+
+  it('does not count the text of dropped elements', () => {
+    const result = truncateHtml(
+      '<style>p { color: red }</style><p>Hello there</p>',
+      2
+    );
+    expect(result).toEqual({
+      html: '<p>Hello there</p>',
+      wordCount: 2,
+      isTruncated: false,
+    });
+  });
+
+  it('keeps entities escaped in the cut text', () => {
+    expect(truncateHtml('<p>a &lt;b&gt; &amp;amp; c</p>', 3).html).toBe(
+      '<p>a &lt;b&gt; &amp;amp;...</p>'
+    );
+  });
+
+  it('sanitizes like sanitizeHtml', () => {
+    const html = '<p onclick="x()">Hi <a href="javascript:x()">there</a></p>';
+    expect(truncateHtml(html, 10).html).toBe(sanitizeHtml(html));
+  });
+});
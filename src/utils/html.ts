@@ -0,0 +1,741 @@
+// Lightweight HTML parsing and conversion helpers used to turn HTML email
+// bodies into plain text, Markdown or sanitized HTML.
+
+export type HtmlConversionFormat = 'text' | 'markdown' | 'html';
+
+interface HtmlElement {
+  type: 'element';
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+interface HtmlText {
+  type: 'text';
+  text: string;
+}
+
+type HtmlNode = HtmlElement | HtmlText;
+
+// Elements that never have children or a closing tag
+const VOID_TAGS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+]);
+
+// Elements whose content is raw text and is never rendered
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title']);
+
+// Elements that are dropped together with their content
+const DROPPED_TAGS = new Set([
+  'head',
+  'script',
+  'style',
+  'title',
+  'noscript',
+  'template',
+  'svg',
+  'iframe',
+  'object',
+  'embed',
+  'form',
+  'input',
+  'button',
+  'select',
+  'textarea',
+  'meta',
+  'link',
+  'base',
+]);
+
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'center',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'footer',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'tbody',
+  'td',
+  'tfoot',
+  'th',
+  'thead',
+  'tr',
+  'ul',
+]);
+
+// Tags and attributes kept by sanitizeHtml; other tags are unwrapped
+const SANITIZE_ALLOWED_TAGS = new Set([
+  'a',
+  'b',
+  'blockquote',
+  'br',
+  'code',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'em',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'hr',
+  'i',
+  'img',
+  'li',
+  'ol',
+  'p',
+  'pre',
+  's',
+  'span',
+  'strong',
+  'sub',
+  'sup',
+  'table',
+  'tbody',
+  'td',
+  'tfoot',
+  'th',
+  'thead',
+  'tr',
+  'u',
+  'ul',
+]);
+
+const SANITIZE_ALLOWED_ATTRS: Record<string, string[]> = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+  ol: ['start'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  bull: '•',
+  middot: '·',
+  euro: '€',
+  pound: '£',
+  yen: '¥',
+  cent: '¢',
+  deg: '°',
+  times: '×',
+  divide: '÷',
+  zwnj: '',
+  zwj: '',
+  shy: '',
+};
+
+// Invisible characters newsletters use to pad preview text
+const INVISIBLE_CHARS = /\u00ad|\u034f|[\u200b-\u200f]|\u2060|\ufeff/g;
+
+/**
+ * Decode HTML character references (named and numeric)
+ * @param text - Text containing HTML entities
+ * @returns Decoded text
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi,
+    (match, entity: string) => {
+      if (entity[0] === '#') {
+        const codePoint =
+          entity[1] === 'x' || entity[1] === 'X'
+            ? parseInt(entity.substring(2), 16)
+            : parseInt(entity.substring(1), 10);
+        if (!Number.isFinite(codePoint) || codePoint > 0x10ffff) {
+          return match;
+        }
+        return String.fromCodePoint(codePoint);
+      }
+      const decoded = NAMED_ENTITIES[entity.toLowerCase()];
+      return decoded !== undefined ? decoded : match;
+    }
+  );
+}
+
+/**
+ * Escape text for safe inclusion in HTML content or attribute values
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const attrPattern =
+    /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = attrPattern.exec(source)) !== null) {
+    const name = match[1].toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    attrs[name] = decodeHtmlEntities(value);
+  }
+  return attrs;
+}
+
+// Closing rules for elements whose end tag is commonly omitted
+function closeImplied(stack: HtmlElement[], tag: string): void {
+  const scopes: Record<string, { closes: string[]; stopAt: string[] }> = {
+    li: { closes: ['li'], stopAt: ['ul', 'ol'] },
+    dt: { closes: ['dt', 'dd'], stopAt: ['dl'] },
+    dd: { closes: ['dt', 'dd'], stopAt: ['dl'] },
+    tr: { closes: ['tr', 'td', 'th'], stopAt: ['table', 'thead', 'tbody'] },
+    td: { closes: ['td', 'th'], stopAt: ['tr', 'table'] },
+    th: { closes: ['td', 'th'], stopAt: ['tr', 'table'] },
+    p: { closes: ['p'], stopAt: ['div', 'td', 'th', 'li', 'blockquote'] },
+  };
+  const rule = scopes[tag];
+  if (!rule) {
+    return;
+  }
+  for (let i = stack.length - 1; i > 0; i--) {
+    const open = stack[i].tag;
+    if (rule.stopAt.includes(open)) {
+      return;
+    }
+    if (rule.closes.includes(open)) {
+      stack.length = i;
+      return;
+    }
+  }
+}
+
+/**
+ * Parse an HTML document into a forgiving element tree
+ * @param html - HTML source
+ * @returns Root element containing the parsed nodes
+ */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = {
+    type: 'element',
+    tag: '#root',
+    attrs: {},
+    children: [],
+  };
+  const stack: HtmlElement[] = [root];
+  const tokenPattern =
+    /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const appendText = (text: string) => {
+    if (text) {
+      stack[stack.length - 1].children.push({ type: 'text', text });
+    }
+  };
+
+  while ((match = tokenPattern.exec(html)) !== null) {
+    appendText(html.substring(lastIndex, match.index));
+    lastIndex = tokenPattern.lastIndex;
+
+    const [, closingTag, openingTag, attrSource] = match;
+    if (closingTag) {
+      const tag = closingTag.toLowerCase();
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].tag === tag) {
+          stack.length = i;
+          break;
+        }
+      }
+      continue;
+    }
+    if (!openingTag) {
+      continue; // Comment, doctype or processing instruction
+    }
+
+    const tag = openingTag.toLowerCase();
+    closeImplied(stack, tag);
+    const element: HtmlElement = {
+      type: 'element',
+      tag,
+      attrs: parseAttributes(attrSource || ''),
+      children: [],
+    };
+    stack[stack.length - 1].children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      // Skip to the matching end tag without interpreting the content
+      const endPattern = new RegExp(`</${tag}\\s*>`, 'gi');
+      endPattern.lastIndex = lastIndex;
+      const endMatch = endPattern.exec(html);
+      const endIndex = endMatch ? endMatch.index : html.length;
+      element.children.push({
+        type: 'text',
+        text: html.substring(lastIndex, endIndex),
+      });
+      lastIndex = endMatch ? endPattern.lastIndex : html.length;
+      tokenPattern.lastIndex = lastIndex;
+      continue;
+    }
+
+    const selfClosing = /\/\s*$/.test(attrSource || '');
+    if (!VOID_TAGS.has(tag) && !selfClosing) {
+      stack.push(element);
+    }
+  }
+  appendText(html.substring(lastIndex));
+
+  return root;
+}
+
+function isSafeUrl(url: string): boolean {
+  const normalized = Array.from(url)
+    .filter(char => char.trim() !== '' && char.charCodeAt(0) > 0x1f)
+    .join('')
+    .toLowerCase();
+  if (/^data:image\/(png|gif|jpe?g|webp);/.test(normalized)) {
+    return true;
+  }
+  return !/^(javascript|vbscript|data):/.test(normalized);
+}
+
+// Inline rendering context shared by the text and Markdown renderers
+interface RenderContext {
+  markdown: boolean;
+  preformatted: boolean;
+}
+
+function renderChildren(nodes: HtmlNode[], ctx: RenderContext): string {
+  return nodes.map(node => renderNode(node, ctx)).join('');
+}
+
+function block(content: string): string {
+  return `\n\n${content}\n\n`;
+}
+
+function indentLines(text: string, firstPrefix: string): string {
+  const padding = ' '.repeat(firstPrefix.length);
+  return text
+    .split('\n')
+    .map((line, index) =>
+      index === 0 ? firstPrefix + line : line ? padding + line : line
+    )
+    .join('\n');
+}
+
+function hasDescendant(element: HtmlElement, tag: string): boolean {
+  return element.children.some(
+    child =>
+      child.type === 'element' &&
+      (child.tag === tag || hasDescendant(child, tag))
+  );
+}
+
+function collectRows(element: HtmlElement): HtmlElement[] {
+  const rows: HtmlElement[] = [];
+  for (const child of element.children) {
+    if (child.type !== 'element') {
+      continue;
+    }
+    if (child.tag === 'tr') {
+      rows.push(child);
+    } else if (['thead', 'tbody', 'tfoot'].includes(child.tag)) {
+      rows.push(...collectRows(child));
+    }
+  }
+  return rows;
+}
+
+function rowCells(row: HtmlElement): HtmlElement[] {
+  return row.children.filter(
+    (child): child is HtmlElement =>
+      child.type === 'element' && (child.tag === 'td' || child.tag === 'th')
+  );
+}
+
+function renderTable(element: HtmlElement, ctx: RenderContext): string {
+  const rows = collectRows(element);
+  const columnCount = Math.max(0, ...rows.map(row => rowCells(row).length));
+
+  // Newsletters use tables for layout; only render real data grids as tables
+  if (hasDescendant(element, 'table') || columnCount < 2) {
+    return block(renderChildren(element.children, ctx));
+  }
+
+  const cellText = (cell: HtmlElement) =>
+    normalizeWhitespace(renderChildren(cell.children, ctx))
+      .replace(/\s*\n\s*/g, ' ')
+      .replace(/\|/g, ctx.markdown ? '\\|' : '|')
+      .trim();
+
+  const grid = rows
+    .map(row => rowCells(row).map(cellText))
+    .filter(cells => cells.some(cell => cell !== ''));
+  if (grid.length === 0) {
+    return '';
+  }
+
+  if (!ctx.markdown) {
+    return block(grid.map(cells => cells.join(' | ')).join('\n'));
+  }
+
+  const pad = (cells: string[]) =>
+    cells.concat(Array(columnCount - cells.length).fill(''));
+  const lines = [
+    `| ${pad(grid[0]).join(' | ')} |`,
+    `| ${Array(columnCount).fill('---').join(' | ')} |`,
+    ...grid.slice(1).map(cells => `| ${pad(cells).join(' | ')} |`),
+  ];
+  return block(lines.join('\n'));
+}
+
+function renderList(element: HtmlElement, ctx: RenderContext): string {
+  const ordered = element.tag === 'ol';
+  let index = parseInt(element.attrs.start || '1', 10) || 1;
+  const items = element.children
+    .filter(
+      (child): child is HtmlElement =>
+        child.type === 'element' && child.tag === 'li'
+    )
+    .map(item => {
+      const content = normalizeWhitespace(renderChildren(item.children, ctx))
+        .replace(/\n{2,}/g, '\n')
+        .trim();
+      const marker = ordered ? `${index++}. ` : '- ';
+      return indentLines(content, marker);
+    });
+  return block(items.join('\n'));
+}
+
+function renderElement(element: HtmlElement, ctx: RenderContext): string {
+  const { tag, attrs } = element;
+  if (DROPPED_TAGS.has(tag)) {
+    return '';
+  }
+
+  switch (tag) {
+    case 'br':
+      return '\n';
+    case 'hr':
+      return block(ctx.markdown ? '---' : '----------');
+    case 'img': {
+      const alt = (attrs.alt || '').trim();
+      if (!alt) {
+        return '';
+      }
+      return ctx.markdown && attrs.src && isSafeUrl(attrs.src)
+        ? `![${alt}](${attrs.src})`
+        : alt;
+    }
+    case 'a': {
+      const text = renderChildren(element.children, ctx).trim();
+      const href = (attrs.href || '').trim();
+      if (!href || href.startsWith('#') || !isSafeUrl(href)) {
+        return text;
+      }
+      const target = href.replace(/^mailto:/i, '');
+      if (!text) {
+        return ctx.markdown ? `<${href}>` : target;
+      }
+      if (ctx.markdown) {
+        return `[${text}](${href.replace(/\s/g, '%20')})`;
+      }
+      return text === target || text === href ? text : `${text} (${href})`;
+    }
+    case 'strong':
+    case 'b': {
+      const text = renderChildren(element.children, ctx);
+      return ctx.markdown && text.trim() ? `**${text.trim()}**` : text;
+    }
+    case 'em':
+    case 'i': {
+      const text = renderChildren(element.children, ctx);
+      return ctx.markdown && text.trim() ? `_${text.trim()}_` : text;
+    }
+    case 'code': {
+      const text = renderChildren(element.children, ctx);
+      return ctx.markdown && !ctx.preformatted && text.trim()
+        ? `\`${text.trim()}\``
+        : text;
+    }
+    case 'pre': {
+      const text = renderChildren(element.children, {
+        ...ctx,
+        preformatted: true,
+      }).replace(/^\n+|\s+$/g, '');
+      return block(ctx.markdown ? `\`\`\`\n${text}\n\`\`\`` : text);
+    }
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = normalizeWhitespace(renderChildren(element.children, ctx))
+        .replace(/\s*\n\s*/g, ' ')
+        .trim();
+      if (!text) {
+        return '';
+      }
+      const level = parseInt(tag.substring(1), 10);
+      return block(ctx.markdown ? `${'#'.repeat(level)} ${text}` : text);
+    }
+    case 'blockquote': {
+      const text = normalizeWhitespace(
+        renderChildren(element.children, ctx)
+      ).trim();
+      return block(
+        text
+          .split('\n')
+          .map(line => (line ? `> ${line}` : '>'))
+          .join('\n')
+      );
+    }
+    case 'ul':
+    case 'ol':
+      return renderList(element, ctx);
+    case 'table':
+      return renderTable(element, ctx);
+    case 'td':
+    case 'th':
+      // Cells of layout tables are rendered as stacked blocks
+      return block(renderChildren(element.children, ctx));
+    default: {
+      const content = renderChildren(element.children, ctx);
+      return BLOCK_TAGS.has(tag) ? block(content) : content;
+    }
+  }
+}
+
+function renderNode(node: HtmlNode, ctx: RenderContext): string {
+  if (node.type === 'element') {
+    return renderElement(node, ctx);
+  }
+  const text = decodeHtmlEntities(node.text).replace(INVISIBLE_CHARS, '');
+  if (ctx.preformatted) {
+    return text;
+  }
+  const collapsed = text.replace(/\s+/g, ' ');
+  return ctx.markdown ? collapsed.replace(/([\\*_`[\]])/g, '\\$1') : collapsed;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\u00a0/g, ' ')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/g, '').replace(/^ (?=\S)/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n');
+}
+
+function render(html: string, markdown: boolean): string {
+  const root = parseHtml(html);
+  return normalizeWhitespace(
+    renderChildren(root.children, { markdown, preformatted: false })
+  ).trim();
+}
+
+/**
+ * Convert HTML into readable plain text, keeping link targets, list markers
+ * and table rows
+ * @param html - HTML source
+ * @returns Plain text rendering
+ */
+export function htmlToText(html: string): string {
+  return render(html, false);
+}
+
+/**
+ * Convert HTML into Markdown, keeping links, emphasis, lists and data tables
+ * @param html - HTML source
+ * @returns Markdown rendering
+ */
+export function htmlToMarkdown(html: string): string {
+  return render(html, true);
+}
+
+function serializeSanitized(node: HtmlNode): string {
+  if (node.type === 'text') {
+    return escapeHtml(decodeHtmlEntities(node.text));
+  }
+  if (DROPPED_TAGS.has(node.tag)) {
+    return '';
+  }
+
+  const content = node.children.map(serializeSanitized).join('');
+  if (!SANITIZE_ALLOWED_TAGS.has(node.tag)) {
+    return content;
+  }
+
+  const attrs = (SANITIZE_ALLOWED_ATTRS[node.tag] || [])
+    .filter(name => node.attrs[name] !== undefined)
+    .filter(
+      name => !['href', 'src'].includes(name) || isSafeUrl(node.attrs[name])
+    )
+    .map(name => ` ${name}="${escapeHtml(node.attrs[name])}"`)
+    .join('');
+
+  if (VOID_TAGS.has(node.tag)) {
+    return `<${node.tag}${attrs}>`;
+  }
+  return `<${node.tag}${attrs}>${content}</${node.tag}>`;
+}
+
+function serializeSanitizedRoot(root: HtmlElement): string {
+  return root.children
+    .map(serializeSanitized)
+    .join('')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Sanitize HTML by dropping scripts, styles, event handlers and unsafe URLs
+ * while keeping structural and formatting markup
+ * @param html - Untrusted HTML source
+ * @returns Sanitized HTML fragment
+ */
+export function sanitizeHtml(html: string): string {
+  return serializeSanitizedRoot(parseHtml(html));
+}
+
+// Number of words in the visible text of a node
+function countWords(node: HtmlNode): number {
+  if (node.type === 'text') {
+    return (decodeHtmlEntities(node.text).match(/\S+/g) || []).length;
+  }
+  if (DROPPED_TAGS.has(node.tag)) {
+    return 0;
+  }
+  return node.children.reduce((sum, child) => sum + countWords(child), 0);
+}
+
+// Keep the first budget.words words below an element and drop everything
+// after them, marking the cut with an ellipsis
+function cutAfterWords(element: HtmlElement, budget: { words: number }): void {
+  const kept: HtmlNode[] = [];
+  for (const child of element.children) {
+    if (budget.words <= 0) {
+      break;
+    }
+    kept.push(child);
+    if (child.type === 'element') {
+      if (!DROPPED_TAGS.has(child.tag)) {
+        cutAfterWords(child, budget);
+      }
+      continue;
+    }
+
+    const text = decodeHtmlEntities(child.text);
+    const wordCount = (text.match(/\S+/g) || []).length;
+    if (wordCount < budget.words) {
+      budget.words -= wordCount;
+      continue;
+    }
+    const wordPattern = /\S+/g;
+    let cutIndex = 0;
+    for (let i = 0; i < budget.words; i++) {
+      wordPattern.exec(text);
+      cutIndex = wordPattern.lastIndex;
+    }
+    kept[kept.length - 1] = {
+      type: 'text',
+      text: escapeHtml(text.substring(0, cutIndex)) + '...',
+    };
+    budget.words = 0;
+  }
+  element.children = kept;
+}
+
+/**
+ * Sanitize HTML and truncate it after a number of words of visible text.
+ * The cut is made in the element tree, so every tag left open by it is
+ * closed again.
+ * @param html - Untrusted HTML source
+ * @param maxWords - Maximum number of words
+ * @returns Sanitized HTML fragment, word count before truncation and whether
+ * anything was cut
+ */
+export function truncateHtml(
+  html: string,
+  maxWords: number
+): { html: string; wordCount: number; isTruncated: boolean } {
+  const root = parseHtml(html);
+  const wordCount = countWords(root);
+  const isTruncated = wordCount > maxWords;
+  if (isTruncated) {
+    cutAfterWords(root, { words: maxWords });
+  }
+  return { html: serializeSanitizedRoot(root), wordCount, isTruncated };
+}
+
+/**
+ * Convert HTML into the requested output format
+ * @param html - HTML source
+ * @param format - Target format: text, markdown or html (sanitized)
+ * @returns Converted content
+ */
+export function convertHtml(
+  html: string,
+  format: HtmlConversionFormat
+): string {
+  switch (format) {
+    case 'markdown':
+      return htmlToMarkdown(html);
+    case 'html':
+      return sanitizeHtml(html);
+    case 'text':
+    default:
+      return htmlToText(html);
+  }
+}
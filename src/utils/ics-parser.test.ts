@@ -0,0 +1,196 @@
+import { parseDuration, parseIcs, parseIcsComponents } from './ics-parser';
+
+const CRLF = '\r\n';
+
+function calendar(...lines: string[]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Test//EN',
+    ...lines,
+    'END:VCALENDAR',
+  ].join(CRLF);
+}
+
+describe('parseIcsComponents', () => {
+  it('joins folded lines', () => {
+    const [component] = parseIcsComponents(
+      calendar(
+        'BEGIN:VEVENT',
+        'SUMMARY:A very long',
+        '  summary',
+        '\tcontinued',
+        'END:VEVENT'
+      )
+    );
+    const summary = component.components[0].properties.find(
+      property => property.name === 'SUMMARY'
+    );
+    expect(summary?.value).toBe('A very long summarycontinued');
+  });
+
+  it('keeps colons inside quoted parameter values', () => {
+    const [component] = parseIcsComponents(
+      calendar(
+        'BEGIN:VEVENT',
+        'ORGANIZER;CN="Doe: Jane":mailto:jane@example.com',
+        'END:VEVENT'
+      )
+    );
+    const [organizer] = component.components[0].properties;
+    expect(organizer.params.CN).toBe('Doe: Jane');
+    expect(organizer.value).toBe('mailto:jane@example.com');
+  });
+});
+
+describe('parseDuration', () => {
+  it('parses weeks, days and times', () => {
+    expect(parseDuration('P1W')).toBe(7 * 24 * 3600000);
+    expect(parseDuration('PT1H30M')).toBe(90 * 60000);
+    expect(parseDuration('P1DT2H')).toBe(26 * 3600000);
+  });
+
+  it('rejects invalid durations', () => {
+    expect(parseDuration('1H')).toBeUndefined();
+  });
+});
+
+describe('parseIcs', () => {
+  it('unescapes text values', () => {
+    const { events } = parseIcs(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:escape@test',
+        'DTSTART:20260105T150000Z',
+        'SUMMARY:Lunch\\, drinks\\; more',
+        'DESCRIPTION:Line one\\nLine two\\\\end',
+        'END:VEVENT'
+      )
+    );
+    expect(events[0].summary).toBe('Lunch, drinks; more');
+    expect(events[0].description).toBe('Line one\nLine two\\end');
+  });
+
+  it('reads UTC times and derives a missing end from DURATION', () => {
+    const { events } = parseIcs(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:utc@test',
+        'DTSTART:20260105T150000Z',
+        'DURATION:PT45M',
+        'END:VEVENT'
+      )
+    );
+    expect(Date.parse(events[0].start.dateTime!)).toBe(
+      Date.parse('2026-01-05T15:00:00Z')
+    );
+    expect(Date.parse(events[0].end.dateTime!)).toBe(
+      Date.parse('2026-01-05T15:45:00Z')
+    );
+  });
+
+  it('resolves IANA and Windows TZIDs', () => {
+    const { events } = parseIcs(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:tz@test',
+        'DTSTART;TZID=Europe/Berlin:20260701T090000',
+        'DTEND;TZID="Pacific Standard Time":20260701T020000',
+        'END:VEVENT'
+      )
+    );
+    const [event] = events;
+    expect(event.start.timeZone).toBe('Europe/Berlin');
+    expect(event.end.timeZone).toBe('America/Los_Angeles');
+    expect(Date.parse(event.start.dateTime!)).toBe(
+      Date.parse('2026-07-01T07:00:00Z')
+    );
+    expect(Date.parse(event.end.dateTime!)).toBe(
+      Date.parse('2026-07-01T09:00:00Z')
+    );
+  });
+
+  it('falls back to VTIMEZONE offsets for unknown TZIDs', () => {
+    const { events } = parseIcs(
+      calendar(
+        'BEGIN:VTIMEZONE',
+        'TZID:Custom Zone',
+        'BEGIN:STANDARD',
+        'DTSTART:19700101T000000',
+        'TZOFFSETFROM:+0530',
+        'TZOFFSETTO:+0530',
+        'END:STANDARD',
+        'END:VTIMEZONE',
+        'BEGIN:VEVENT',
+        'UID:vtimezone@test',
+        'DTSTART;TZID=Custom Zone:20260301T100000',
+        'DTEND;TZID=Custom Zone:20260301T110000',
+        'END:VEVENT'
+      )
+    );
+    expect(Date.parse(events[0].start.dateTime!)).toBe(
+      Date.parse('2026-03-01T04:30:00Z')
+    );
+  });
+
+  it('parses all-day events and defaults their end to the next day', () => {
+    const { events } = parseIcs(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:allday@test',
+        'DTSTART;VALUE=DATE:20261224',
+        'END:VEVENT'
+      )
+    );
+    expect(events[0].start).toEqual({ date: '2026-12-24' });
+    expect(events[0].end).toEqual({ date: '2026-12-25' });
+  });
+
+  it('keeps RRULE and converts zoned EXDATEs to UTC', () => {
+    const { events } = parseIcs(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:series@test',
+        'DTSTART;TZID=America/New_York:20260105T090000',
+        'DTEND;TZID=America/New_York:20260105T093000',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=10',
+        'EXDATE;TZID=America/New_York:20260112T090000,20260119T090000',
+        'END:VEVENT'
+      )
+    );
+    expect(events[0].recurrence).toEqual([
+      'RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=10',
+      'EXDATE:20260112T140000Z,20260119T140000Z',
+    ]);
+    expect(events[0].start.timeZone).toBe('America/New_York');
+  });
+
+  it('reads attendees, organizer and METHOD', () => {
+    const calendarData = parseIcs(
+      calendar(
+        'METHOD:REQUEST',
+        'BEGIN:VEVENT',
+        'UID:invite@test',
+        'DTSTART:20260105T150000Z',
+        'DTEND:20260105T160000Z',
+        'ORGANIZER;CN=Jane Doe:mailto:jane@example.com',
+        'ATTENDEE;ROLE=OPT-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:bob@example.com',
+        'END:VEVENT'
+      )
+    );
+    expect(calendarData.method).toBe('REQUEST');
+    const [event] = calendarData.events;
+    expect(event.organizer).toEqual({
+      email: 'jane@example.com',
+      displayName: 'Jane Doe',
+    });
+    expect(event.attendees).toEqual([
+      {
+        email: 'bob@example.com',
+        displayName: undefined,
+        responseStatus: 'accepted',
+        optional: true,
+      },
+    ]);
+  });
+});
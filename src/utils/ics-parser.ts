@@ -0,0 +1,490 @@
+// RFC 5545 iCalendar parser: reads VCALENDAR text (e.g. an emailed invite)
+// into events shaped for the Calendar API.
+
+import type { EventAttendee, EventDateTime } from '@services/types';
+import {
+  formatOffset,
+  formatRfc3339,
+  isValidTimeZone,
+  zonedTimeToInstant,
+} from './timezone';
+
+export interface IcsProperty {
+  name: string; // Upper-cased, e.g. "DTSTART"
+  params: Record<string, string>; // Upper-cased names, unquoted values
+  value: string; // Raw value, still escaped
+}
+
+export interface IcsComponent {
+  name: string; // e.g. "VCALENDAR", "VEVENT"
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  start: EventDateTime;
+  end: EventDateTime;
+  recurrence?: string[]; // RRULE/EXRULE/RDATE/EXDATE lines
+  recurrenceId?: EventDateTime; // Set on a changed occurrence of a series
+  status?: 'confirmed' | 'tentative' | 'cancelled';
+  organizer?: { email: string; displayName?: string };
+  attendees: (Pick<
+    EventAttendee,
+    'email' | 'displayName' | 'responseStatus'
+  > & {
+    optional?: boolean;
+  })[];
+  transparency?: 'opaque' | 'transparent';
+  visibility?: 'public' | 'private' | 'confidential';
+  sequence?: number;
+}
+
+export interface IcsCalendar {
+  method?: string; // e.g. "REQUEST" for invites, "CANCEL" for cancellations
+  name?: string; // X-WR-CALNAME
+  events: IcsEvent[];
+}
+
+export interface IcsParseOptions {
+  defaultTimeZone?: string; // For floating times, defaults to UTC
+}
+
+// Outlook and Exchange write Windows time zone names
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'E. South America Standard Time': 'America/Sao_Paulo',
+  'GMT Standard Time': 'Europe/London',
+  'Greenwich Standard Time': 'Atlantic/Reykjavik',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'FLE Standard Time': 'Europe/Kiev',
+  'GTB Standard Time': 'Europe/Bucharest',
+  'Russian Standard Time': 'Europe/Moscow',
+  'Israel Standard Time': 'Asia/Jerusalem',
+  'Arabian Standard Time': 'Asia/Dubai',
+  'India Standard Time': 'Asia/Kolkata',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'China Standard Time': 'Asia/Shanghai',
+  'Taipei Standard Time': 'Asia/Taipei',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'Korea Standard Time': 'Asia/Seoul',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'New Zealand Standard Time': 'Pacific/Auckland',
+  UTC: 'UTC',
+};
+
+const RESPONSE_STATUS: Record<string, EventAttendee['responseStatus']> = {
+  'NEEDS-ACTION': 'needsAction',
+  ACCEPTED: 'accepted',
+  DECLINED: 'declined',
+  TENTATIVE: 'tentative',
+};
+
+const MINUTE = 60000;
+
+/**
+ * Unescape a TEXT value (RFC 5545 section 3.3.11)
+ * @param value - Escaped text
+ */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+function parseContentLine(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator <= 0) {
+    return null;
+  }
+
+  const head = line.substring(0, separator);
+  const parts = head.match(/("[^"]*"|[^;])+/g) || [];
+  const params: Record<string, string> = {};
+  for (const param of parts.slice(1)) {
+    const equals = param.indexOf('=');
+    if (equals > 0) {
+      params[param.substring(0, equals).toUpperCase()] = param
+        .substring(equals + 1)
+        .replace(/^"(.*)"$/, '$1');
+    }
+  }
+  return {
+    name: (parts[0] || '').toUpperCase(),
+    params,
+    value: line.substring(separator + 1),
+  };
+}
+
+/**
+ * Parse iCalendar text into its component tree. Folded lines are joined and
+ * malformed lines are skipped.
+ * @param text - iCalendar text
+ * @returns Top-level components, normally a single VCALENDAR
+ */
+export function parseIcsComponents(text: string): IcsComponent[] {
+  const lines = text
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n');
+
+  const root: IcsComponent = { name: '', properties: [], components: [] };
+  const stack: IcsComponent[] = [root];
+  for (const line of lines) {
+    const property = parseContentLine(line);
+    if (!property) {
+      continue;
+    }
+    const current = stack[stack.length - 1];
+    if (property.name === 'BEGIN') {
+      const component: IcsComponent = {
+        name: property.value.trim().toUpperCase(),
+        properties: [],
+        components: [],
+      };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.length > 1) {
+        stack.pop();
+      }
+    } else {
+      current.properties.push(property);
+    }
+  }
+  return root.components;
+}
+
+function getProperty(
+  component: IcsComponent,
+  name: string
+): IcsProperty | undefined {
+  return component.properties.find(property => property.name === name);
+}
+
+function getText(component: IcsComponent, name: string): string | undefined {
+  const property = getProperty(component, name);
+  return property ? unescapeText(property.value) : undefined;
+}
+
+interface TimeZoneResolver {
+  timeZone?: string; // IANA name
+  fixedOffset?: number; // Minutes, when only the VTIMEZONE is known
+}
+
+function resolveTzid(
+  tzid: string,
+  vtimezones: Map<string, IcsComponent>
+): TimeZoneResolver {
+  if (isValidTimeZone(tzid)) {
+    return { timeZone: tzid };
+  }
+  if (WINDOWS_TIME_ZONES[tzid]) {
+    return { timeZone: WINDOWS_TIME_ZONES[tzid] };
+  }
+  // e.g. "/mozilla.org/20050126_1/America/New_York"
+  const suffix = tzid.match(/([A-Za-z_]+\/[A-Za-z_-]+(\/[A-Za-z_-]+)?)$/)?.[1];
+  if (suffix && isValidTimeZone(suffix)) {
+    return { timeZone: suffix };
+  }
+
+  const vtimezone = vtimezones.get(tzid);
+  const location = vtimezone && getText(vtimezone, 'X-LIC-LOCATION');
+  if (location && isValidTimeZone(location)) {
+    return { timeZone: location };
+  }
+  // Last resort: the standard offset, which is off by DST in summer
+  const standard = vtimezone?.components.find(c => c.name === 'STANDARD');
+  const offset = standard && getProperty(standard, 'TZOFFSETTO')?.value;
+  const match = offset?.match(/^([+-])(\d{2})(\d{2})/);
+  if (match) {
+    const minutes = Number(match[2]) * 60 + Number(match[3]);
+    return { fixedOffset: match[1] === '-' ? -minutes : minutes };
+  }
+  return {};
+}
+
+function parseDateTime(
+  property: IcsProperty,
+  vtimezones: Map<string, IcsComponent>,
+  defaultTimeZone: string
+): EventDateTime | undefined {
+  const value = property.value.trim();
+  const date = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (date || property.params.VALUE === 'DATE') {
+    return date ? { date: `${date[1]}-${date[2]}-${date[3]}` } : undefined;
+  }
+
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/
+  );
+  if (!match) {
+    return undefined;
+  }
+  const [year, month, day, hour, minute, second] = match
+    .slice(1, 7)
+    .map(Number);
+
+  if (match[7] === 'Z') {
+    return {
+      dateTime: new Date(
+        Date.UTC(year, month - 1, day, hour, minute, second)
+      ).toISOString(),
+    };
+  }
+
+  const resolved = property.params.TZID
+    ? resolveTzid(property.params.TZID, vtimezones)
+    : { timeZone: defaultTimeZone };
+  if (resolved.fixedOffset !== undefined) {
+    const local = new Date(Date.UTC(year, month - 1, day, hour, minute, second))
+      .toISOString()
+      .substring(0, 19);
+    return { dateTime: `${local}${formatOffset(resolved.fixedOffset)}` };
+  }
+
+  const timeZone = resolved.timeZone || defaultTimeZone;
+  const instant = zonedTimeToInstant(
+    { year, month, day, hour, minute, second },
+    timeZone
+  );
+  return { dateTime: formatRfc3339(instant, timeZone), timeZone };
+}
+
+/**
+ * Parse an ISO 8601 / RFC 5545 duration such as "PT1H30M" or "P1W"
+ * @param value - Duration value
+ * @returns Duration in milliseconds, or undefined if invalid
+ */
+export function parseDuration(value: string): number | undefined {
+  const match = value
+    .trim()
+    .match(
+      /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+    );
+  if (!match) {
+    return undefined;
+  }
+  const [weeks, days, hours, minutes, seconds] = match
+    .slice(2)
+    .map(part => Number(part || 0));
+  const total =
+    ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+  return match[1] === '-' ? -total : total;
+}
+
+function addDuration(start: EventDateTime, duration: number): EventDateTime {
+  if (start.date) {
+    const end = new Date(Date.parse(`${start.date}T00:00:00Z`) + duration);
+    return { date: end.toISOString().substring(0, 10) };
+  }
+  const instant = Date.parse(start.dateTime!) + duration;
+  return start.timeZone
+    ? {
+        dateTime: formatRfc3339(instant, start.timeZone),
+        timeZone: start.timeZone,
+      }
+    : { dateTime: new Date(instant).toISOString() };
+}
+
+// RDATE/EXDATE values are rewritten in UTC so that the Calendar API does
+// not need to understand the original TZID
+function normalizeDateList(
+  property: IcsProperty,
+  vtimezones: Map<string, IcsComponent>,
+  defaultTimeZone: string
+): string | undefined {
+  const values = property.value
+    .split(',')
+    .map(value =>
+      parseDateTime({ ...property, value }, vtimezones, defaultTimeZone)
+    );
+  if (values.some(value => !value)) {
+    return undefined;
+  }
+  if (values.every(value => value!.date)) {
+    return `${property.name};VALUE=DATE:${values
+      .map(value => value!.date!.replace(/-/g, ''))
+      .join(',')}`;
+  }
+  return `${property.name}:${values
+    .map(value =>
+      new Date(Date.parse(value!.dateTime || `${value!.date}T00:00:00Z`))
+        .toISOString()
+        .replace(/\.\d{3}Z$/, 'Z')
+        .replace(/[-:]/g, '')
+    )
+    .join(',')}`;
+}
+
+function parseAddress(
+  property: IcsProperty
+): { email: string; displayName?: string } | undefined {
+  const email = property.value.replace(/^mailto:/i, '').trim();
+  if (!email.includes('@')) {
+    return undefined;
+  }
+  return { email, displayName: property.params.CN || undefined };
+}
+
+function parseEvent(
+  component: IcsComponent,
+  vtimezones: Map<string, IcsComponent>,
+  defaultTimeZone: string
+): IcsEvent | undefined {
+  const dtstart = getProperty(component, 'DTSTART');
+  const start = dtstart && parseDateTime(dtstart, vtimezones, defaultTimeZone);
+  if (!start) {
+    return undefined;
+  }
+
+  const dtend = getProperty(component, 'DTEND');
+  const duration = getProperty(component, 'DURATION');
+  const durationMs = duration ? parseDuration(duration.value) : undefined;
+  const end =
+    (dtend && parseDateTime(dtend, vtimezones, defaultTimeZone)) ||
+    (durationMs !== undefined
+      ? addDuration(start, durationMs)
+      : addDuration(start, start.date ? 24 * 60 * MINUTE : 0));
+
+  const recurrence: string[] = [];
+  for (const property of component.properties) {
+    if (property.name === 'RRULE' || property.name === 'EXRULE') {
+      recurrence.push(`${property.name}:${property.value.trim()}`);
+    } else if (property.name === 'RDATE' || property.name === 'EXDATE') {
+      const line = normalizeDateList(property, vtimezones, defaultTimeZone);
+      if (line) {
+        recurrence.push(line);
+      }
+    }
+  }
+  // The Calendar API needs a time zone to expand timed recurring events
+  if (recurrence.length > 0 && start.dateTime && !start.timeZone) {
+    start.timeZone = defaultTimeZone;
+    end.timeZone = end.timeZone || defaultTimeZone;
+  }
+
+  const recurrenceIdProperty = getProperty(component, 'RECURRENCE-ID');
+  const status = getText(component, 'STATUS')?.toLowerCase();
+  const transparency = getText(component, 'TRANSP')?.toLowerCase();
+  const visibility = getText(component, 'CLASS')?.toLowerCase();
+  const sequence = Number(getProperty(component, 'SEQUENCE')?.value);
+  const organizer = getProperty(component, 'ORGANIZER');
+
+  return {
+    uid: getText(component, 'UID') || '',
+    summary: getText(component, 'SUMMARY'),
+    description: getText(component, 'DESCRIPTION'),
+    location: getText(component, 'LOCATION'),
+    start,
+    end,
+    recurrence: recurrence.length > 0 ? recurrence : undefined,
+    recurrenceId: recurrenceIdProperty
+      ? parseDateTime(recurrenceIdProperty, vtimezones, defaultTimeZone)
+      : undefined,
+    status:
+      status === 'confirmed' || status === 'tentative' || status === 'cancelled'
+        ? status
+        : undefined,
+    organizer: organizer ? parseAddress(organizer) : undefined,
+    attendees: component.properties
+      .filter(property => property.name === 'ATTENDEE')
+      .flatMap(property => {
+        const address = parseAddress(property);
+        if (!address) {
+          return [];
+        }
+        return [
+          {
+            ...address,
+            responseStatus:
+              RESPONSE_STATUS[(property.params.PARTSTAT || '').toUpperCase()] ||
+              'needsAction',
+            optional:
+              property.params.ROLE?.toUpperCase() === 'OPT-PARTICIPANT' ||
+              undefined,
+          },
+        ];
+      }),
+    transparency:
+      transparency === 'opaque' || transparency === 'transparent'
+        ? transparency
+        : undefined,
+    visibility:
+      visibility === 'public' ||
+      visibility === 'private' ||
+      visibility === 'confidential'
+        ? visibility
+        : undefined,
+    sequence: isNaN(sequence) ? undefined : sequence,
+  };
+}
+
+/**
+ * Parse iCalendar text into events. Times with a TZID are resolved to IANA
+ * time zones (including Windows names and VTIMEZONE locations), floating
+ * times use the default time zone, and a missing DTEND is derived from
+ * DURATION or the RFC 5545 defaults.
+ * @param text - iCalendar text with one or more VCALENDARs
+ * @param options - Time zone for floating times
+ * @returns METHOD, calendar name and the VEVENTs that have a valid start
+ */
+export function parseIcs(
+  text: string,
+  options: IcsParseOptions = {}
+): IcsCalendar {
+  const defaultTimeZone =
+    options.defaultTimeZone && isValidTimeZone(options.defaultTimeZone)
+      ? options.defaultTimeZone
+      : 'UTC';
+  const calendars = parseIcsComponents(text).filter(
+    component => component.name === 'VCALENDAR'
+  );
+
+  const result: IcsCalendar = { events: [] };
+  for (const calendar of calendars) {
+    result.method ??= getText(calendar, 'METHOD')?.toUpperCase();
+    result.name ??= getText(calendar, 'X-WR-CALNAME');
+
+    const vtimezones = new Map<string, IcsComponent>();
+    for (const component of calendar.components) {
+      const tzid = component.name === 'VTIMEZONE' && getText(component, 'TZID');
+      if (tzid) {
+        vtimezones.set(tzid, component);
+      }
+    }
+
+    for (const component of calendar.components) {
+      if (component.name !== 'VEVENT') {
+        continue;
+      }
+      const event = parseEvent(component, vtimezones, defaultTimeZone);
+      if (event) {
+        result.events.push(event);
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,201 @@
+import type { CalendarEvent } from '@services/types';
+import { parseIcs, parseIcsComponents } from './ics-parser';
+import {
+  buildVTimezone,
+  escapeText,
+  foldLine,
+  serializeIcs,
+} from './ics-serializer';
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+function event(overrides: Partial<CalendarEvent>): CalendarEvent {
+  return {
+    id: 'event1',
+    summary: 'Planning',
+    start: { dateTime: '2026-01-05T15:00:00Z' },
+    end: { dateTime: '2026-01-05T16:00:00Z' },
+    htmlLink: 'https://calendar.google.com/event?eid=event1',
+    status: 'confirmed',
+    ...overrides,
+  };
+}
+
+describe('escapeText', () => {
+  it('escapes backslashes, separators and newlines', () => {
+    expect(escapeText('a\\b; c, d\r\ne')).toBe('a\\\\b\\; c\\, d\\ne');
+  });
+});
+
+describe('foldLine', () => {
+  it('leaves short lines alone', () => {
+    expect(foldLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+  });
+
+  it('folds at 75 octets without splitting multi-byte characters', () => {
+    const line = `SUMMARY:${'ü'.repeat(80)}`;
+    const folded = foldLine(line).split('\r\n');
+    expect(folded.length).toBeGreaterThan(1);
+    for (const chunk of folded) {
+      expect(Buffer.byteLength(chunk, 'utf-8')).toBeLessThanOrEqual(75);
+      expect(chunk).not.toContain('�');
+    }
+    expect(
+      folded.map((chunk, i) => (i ? chunk.slice(1) : chunk)).join('')
+    ).toBe(line);
+  });
+});
+
+describe('buildVTimezone', () => {
+  it('lists the DST transitions of a year', () => {
+    const lines = buildVTimezone('America/New_York', 2026, 2026);
+    expect(lines[0]).toBe('BEGIN:VTIMEZONE');
+    expect(lines).toContain('TZID:America/New_York');
+    expect(lines).toContain('DTSTART:20260308T020000');
+    expect(lines).toContain('DTSTART:20261101T020000');
+    expect(lines).toContain('TZOFFSETTO:-0400');
+    expect(lines).toContain('TZOFFSETTO:-0500');
+  });
+});
+
+describe('serializeIcs', () => {
+  it('writes CRLF lines and folds long ones', () => {
+    const ics = serializeIcs([event({ description: 'x'.repeat(200) })], {
+      now: NOW,
+    });
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    for (const line of ics.split('\r\n')) {
+      expect(Buffer.byteLength(line, 'utf-8')).toBeLessThanOrEqual(75);
+    }
+    expect(ics).toContain('DTSTAMP:20260101T000000Z');
+  });
+
+  it('writes zoned times with TZID and a matching VTIMEZONE', () => {
+    const ics = serializeIcs(
+      [
+        event({
+          start: {
+            dateTime: '2026-07-01T09:00:00+02:00',
+            timeZone: 'Europe/Berlin',
+          },
+          end: {
+            dateTime: '2026-07-01T10:00:00+02:00',
+            timeZone: 'Europe/Berlin',
+          },
+        }),
+      ],
+      { now: NOW }
+    );
+    expect(ics).toContain('DTSTART;TZID=Europe/Berlin:20260701T090000');
+    expect(ics).toContain('DTEND;TZID=Europe/Berlin:20260701T100000');
+    expect(ics).toContain('TZID:Europe/Berlin');
+  });
+
+  it('writes all-day events as dates', () => {
+    const ics = serializeIcs(
+      [event({ start: { date: '2026-12-24' }, end: { date: '2026-12-25' } })],
+      { now: NOW }
+    );
+    expect(ics).toContain('DTSTART;VALUE=DATE:20261224');
+    expect(ics).toContain('DTEND;VALUE=DATE:20261225');
+    expect(ics).not.toContain('BEGIN:VTIMEZONE');
+  });
+});
+
+describe('round trip', () => {
+  it('keeps text, times, recurrence and attendees', () => {
+    const original = event({
+      summary: 'Review; budget, Q1 \\ Q2',
+      description: `Agenda:\n1. Numbers\n2. ${'Long notes '.repeat(12)}`,
+      location: 'Room 4, Building B',
+      start: {
+        dateTime: '2026-01-05T09:00:00-05:00',
+        timeZone: 'America/New_York',
+      },
+      end: {
+        dateTime: '2026-01-05T09:30:00-05:00',
+        timeZone: 'America/New_York',
+      },
+      recurrence: [
+        'RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=10',
+        'EXDATE:20260112T140000Z',
+      ],
+      organizer: { email: 'jane@example.com', displayName: 'Doe, Jane' },
+      attendees: [
+        {
+          email: 'bob@example.com',
+          displayName: 'Bob',
+          responseStatus: 'tentative',
+          optional: true,
+        },
+      ],
+    });
+
+    const { events } = parseIcs(serializeIcs([original], { now: NOW }));
+    expect(events).toHaveLength(1);
+    const [parsed] = events;
+    expect(parsed.uid).toBe('event1@google.com');
+    expect(parsed.summary).toBe(original.summary);
+    expect(parsed.description).toBe(original.description);
+    expect(parsed.location).toBe(original.location);
+    expect(parsed.start.timeZone).toBe('America/New_York');
+    expect(Date.parse(parsed.start.dateTime!)).toBe(
+      Date.parse(original.start.dateTime!)
+    );
+    expect(Date.parse(parsed.end.dateTime!)).toBe(
+      Date.parse(original.end.dateTime!)
+    );
+    expect(parsed.recurrence).toEqual(original.recurrence);
+    expect(parsed.organizer).toEqual(original.organizer);
+    expect(parsed.attendees).toEqual([
+      {
+        email: 'bob@example.com',
+        displayName: 'Bob',
+        responseStatus: 'tentative',
+        optional: true,
+      },
+    ]);
+  });
+
+  it('keeps all-day events', () => {
+    const original = event({
+      start: { date: '2026-12-24' },
+      end: { date: '2026-12-26' },
+    });
+    const [parsed] = parseIcs(serializeIcs([original], { now: NOW })).events;
+    expect(parsed.start).toEqual(original.start);
+    expect(parsed.end).toEqual(original.end);
+  });
+
+  it('keeps changed occurrences of a series', () => {
+    const original = event({
+      id: 'series_20260112T140000Z',
+      iCalUID: 'series@google.com',
+      start: {
+        dateTime: '2026-01-12T10:00:00-05:00',
+        timeZone: 'America/New_York',
+      },
+      end: {
+        dateTime: '2026-01-12T10:30:00-05:00',
+        timeZone: 'America/New_York',
+      },
+      recurringEventId: 'series',
+      originalStartTime: {
+        dateTime: '2026-01-12T09:00:00-05:00',
+        timeZone: 'America/New_York',
+      },
+    });
+    const ics = serializeIcs([original], { now: NOW });
+    const [calendar] = parseIcsComponents(ics);
+    expect(calendar.components.map(component => component.name)).toEqual([
+      'VTIMEZONE',
+      'VEVENT',
+    ]);
+
+    const [parsed] = parseIcs(ics).events;
+    expect(parsed.uid).toBe('series@google.com');
+    expect(Date.parse(parsed.recurrenceId!.dateTime!)).toBe(
+      Date.parse('2026-01-12T14:00:00Z')
+    );
+  });
+});
@@ -0,0 +1,343 @@
+// RFC 5545 iCalendar serializer: turns calendar events into a VCALENDAR with
+// a VTIMEZONE for every time zone the events use.
+
+import type {
+  CalendarEvent,
+  EventAttendee,
+  EventDateTime,
+} from '@services/types';
+import {
+  getTimeZoneOffset,
+  getZonedDateTime,
+  isValidTimeZone,
+} from './timezone';
+
+export interface IcsSerializeOptions {
+  calendarName?: string; // Written as X-WR-CALNAME
+  timeZone?: string; // Used for timed events that do not name a time zone
+  method?: string; // e.g. "PUBLISH" (default) or "REQUEST"
+  now?: Date; // DTSTAMP, defaults to the current time
+}
+
+const CRLF = '\r\n';
+const PRODID = '-//mcp-google-assistant//Google Calendar export//EN';
+const MINUTE = 60000;
+const DAY = 24 * 60 * MINUTE;
+
+const PARTSTAT: Record<EventAttendee['responseStatus'], string> = {
+  needsAction: 'NEEDS-ACTION',
+  accepted: 'ACCEPTED',
+  declined: 'DECLINED',
+  tentative: 'TENTATIVE',
+};
+
+const CLASS: Record<string, string> = {
+  public: 'PUBLIC',
+  private: 'PRIVATE',
+  confidential: 'CONFIDENTIAL',
+};
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ * @param value - Raw text
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function paramValue(value: string): string {
+  const clean = value.replace(/["\r\n]/g, '');
+  return /[:;,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+/**
+ * Fold a content line at 75 octets without splitting UTF-8 characters
+ * @param line - Unfolded content line
+ */
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf-8') <= 75) {
+    return line;
+  }
+  const chunks: string[] = [];
+  let chunk = '';
+  let limit = 75;
+  for (const char of line) {
+    if (Buffer.byteLength(chunk + char, 'utf-8') > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      // Continuation lines start with a space, which counts toward the limit
+      limit = 74;
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+  return chunks.join(`${CRLF} `);
+}
+
+function formatUtc(instant: number): string {
+  const date = new Date(instant);
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(
+    date.getUTCDate()
+  )}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(
+    date.getUTCSeconds()
+  )}Z`;
+}
+
+function formatLocal(instant: number, timeZone: string): string {
+  const local = getZonedDateTime(instant, timeZone);
+  return `${local.year}${pad(local.month)}${pad(local.day)}T${pad(
+    local.hour
+  )}${pad(local.minute)}${pad(local.second)}`;
+}
+
+function formatIcsOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+function resolveTimeZone(
+  value: EventDateTime,
+  fallback?: string
+): string | undefined {
+  const timeZone = value.timeZone || fallback;
+  return timeZone && timeZone !== 'UTC' && isValidTimeZone(timeZone)
+    ? timeZone
+    : undefined;
+}
+
+// DTSTART, DTEND and RECURRENCE-ID with the right value type
+function dateTimeProperty(
+  name: string,
+  value: EventDateTime,
+  fallbackTimeZone?: string
+): string {
+  if (value.date && !value.dateTime) {
+    return `${name};VALUE=DATE:${value.date.replace(/-/g, '')}`;
+  }
+  const instant = Date.parse(value.dateTime || '');
+  const timeZone = resolveTimeZone(value, fallbackTimeZone);
+  return timeZone
+    ? `${name};TZID=${paramValue(timeZone)}:${formatLocal(instant, timeZone)}`
+    : `${name}:${formatUtc(instant)}`;
+}
+
+function timeZoneName(instant: number, timeZone: string): string | undefined {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    timeZoneName: 'short',
+  })
+    .formatToParts(new Date(instant))
+    .find(part => part.type === 'timeZoneName')?.value;
+}
+
+/**
+ * Build a VTIMEZONE for an IANA time zone, listing every UTC offset change
+ * between the start of one year and the end of another
+ * @param timeZone - IANA time zone name
+ * @param fromYear - First year to cover
+ * @param toYear - Last year to cover
+ * @returns VTIMEZONE content lines
+ */
+export function buildVTimezone(
+  timeZone: string,
+  fromYear: number,
+  toYear: number
+): string[] {
+  const rangeStart = Date.UTC(fromYear, 0, 1);
+  const rangeEnd = Date.UTC(toYear + 1, 0, 1);
+
+  // Scan day by day, then narrow each change down to the minute
+  const transitions: { instant: number; from: number; to: number }[] = [];
+  let previous = getTimeZoneOffset(rangeStart, timeZone);
+  for (let time = rangeStart + DAY; time <= rangeEnd; time += DAY) {
+    const offset = getTimeZoneOffset(time, timeZone);
+    if (offset === previous) {
+      continue;
+    }
+    let low = time - DAY;
+    let high = time;
+    while (high - low > MINUTE) {
+      const middle = low + Math.floor((high - low) / 2 / MINUTE) * MINUTE;
+      if (getTimeZoneOffset(middle, timeZone) === previous) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    transitions.push({ instant: high, from: previous, to: offset });
+    previous = offset;
+  }
+
+  const initial = getTimeZoneOffset(rangeStart, timeZone);
+  const standardOffset = Math.min(initial, ...transitions.map(t => t.to));
+  const observance = (
+    instant: number,
+    from: number,
+    to: number,
+    localStart: string
+  ): string[] => {
+    const kind = to > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    const name = timeZoneName(instant, timeZone);
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${localStart}`,
+      `TZOFFSETFROM:${formatIcsOffset(from)}`,
+      `TZOFFSETTO:${formatIcsOffset(to)}`,
+      ...(name ? [`TZNAME:${escapeText(name)}`] : []),
+      `END:${kind}`,
+    ];
+  };
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...observance(rangeStart, initial, initial, `${fromYear}0101T000000`),
+    ...transitions.flatMap(transition =>
+      observance(
+        transition.instant,
+        transition.from,
+        transition.to,
+        // DTSTART is the wall-clock time before the change
+        formatUtc(transition.instant + transition.from * MINUTE).replace(
+          'Z',
+          ''
+        )
+      )
+    ),
+    'END:VTIMEZONE',
+  ];
+}
+
+function eventLines(
+  event: CalendarEvent,
+  dtstamp: string,
+  fallbackTimeZone?: string
+): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.iCalUID || `${event.id}@google.com`}`,
+    `DTSTAMP:${dtstamp}`,
+    dateTimeProperty('DTSTART', event.start, fallbackTimeZone),
+    dateTimeProperty('DTEND', event.end, fallbackTimeZone),
+  ];
+  if (event.recurringEventId && event.originalStartTime) {
+    lines.push(
+      dateTimeProperty(
+        'RECURRENCE-ID',
+        event.originalStartTime,
+        event.start.timeZone || fallbackTimeZone
+      )
+    );
+  }
+  lines.push(...(event.recurrence || []));
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.status) {
+    lines.push(`STATUS:${event.status.toUpperCase()}`);
+  }
+  if (event.transparency) {
+    lines.push(`TRANSP:${event.transparency.toUpperCase()}`);
+  }
+  if (event.visibility && CLASS[event.visibility]) {
+    lines.push(`CLASS:${CLASS[event.visibility]}`);
+  }
+  if (event.organizer?.email) {
+    const name = event.organizer.displayName
+      ? `;CN=${paramValue(event.organizer.displayName)}`
+      : '';
+    lines.push(`ORGANIZER${name}:mailto:${event.organizer.email}`);
+  }
+  for (const attendee of event.attendees || []) {
+    const params = [
+      attendee.displayName ? `CN=${paramValue(attendee.displayName)}` : '',
+      `ROLE=${attendee.optional ? 'OPT-PARTICIPANT' : 'REQ-PARTICIPANT'}`,
+      `PARTSTAT=${PARTSTAT[attendee.responseStatus] || 'NEEDS-ACTION'}`,
+    ].filter(Boolean);
+    lines.push(`ATTENDEE;${params.join(';')}:mailto:${attendee.email}`);
+  }
+  const meetLink =
+    event.conference?.entryPoints.find(
+      entryPoint => entryPoint.entryPointType === 'video'
+    )?.uri || event.hangoutLink;
+  if (meetLink) {
+    lines.push(`X-GOOGLE-CONFERENCE:${meetLink}`);
+  }
+  if (event.htmlLink) {
+    lines.push(`URL:${event.htmlLink}`);
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialize events as an RFC 5545 VCALENDAR. Timed events are written in
+ * their own time zone with a matching VTIMEZONE, or in UTC when they have
+ * none; recurring series keep their RRULE/EXDATE/RDATE lines and changed
+ * occurrences are written with a RECURRENCE-ID.
+ * @param events - Events to include
+ * @param options - Calendar name, fallback time zone and METHOD
+ * @returns iCalendar text with CRLF line endings
+ */
+export function serializeIcs(
+  events: CalendarEvent[],
+  options: IcsSerializeOptions = {}
+): string {
+  const dtstamp = formatUtc((options.now ?? new Date()).getTime());
+
+  // Collect the time zones in use and the years their events span
+  const years = new Map<string, { from: number; to: number }>();
+  for (const event of events) {
+    const timeZone = resolveTimeZone(event.start, options.timeZone);
+    if (!timeZone || !event.start.dateTime) {
+      continue;
+    }
+    const from = new Date(Date.parse(event.start.dateTime)).getUTCFullYear();
+    const end = Date.parse(event.end.dateTime || event.start.dateTime);
+    // Open-ended series get a few years of transitions
+    const to = new Date(end).getUTCFullYear() + (event.recurrence ? 5 : 0);
+    const span = years.get(timeZone);
+    years.set(timeZone, {
+      from: Math.min(span?.from ?? from, from),
+      to: Math.max(span?.to ?? to, to),
+    });
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${options.method || 'PUBLISH'}`,
+  ];
+  if (options.calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  }
+  if (options.timeZone) {
+    lines.push(`X-WR-TIMEZONE:${options.timeZone}`);
+  }
+  for (const [timeZone, span] of years) {
+    lines.push(
+      ...buildVTimezone(timeZone, span.from, Math.min(span.to, span.from + 10))
+    );
+  }
+  for (const event of events) {
+    lines.push(...eventLines(event, dtstamp, options.timeZone));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
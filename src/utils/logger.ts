@@ -7,6 +7,21 @@ interface CustomLogger extends winston.Logger {
   setName(name: string): void;
 }
 
+const consoleFormat = winston.format.combine(
+  winston.format.colorize(),
+  winston.format.printf(({ timestamp, level, message, ...rest }) => {
+    let args = '';
+    if (typeof message === 'object') {
+      args = JSON.stringify(message, null, 2);
+      message = '';
+    }
+    const extraArgs = Object.keys(rest).length
+      ? JSON.stringify(rest, null, 2)
+      : '';
+    return `${timestamp} ${level}: ${message} ${args} ${extraArgs}`.trim();
+  })
+);
+
 const logger: CustomLogger = winston.createLogger({
   level: config.logging.level,
   format: winston.format.combine(
@@ -19,22 +34,7 @@ const logger: CustomLogger = winston.createLogger({
     })
   ),
   transports: [
-    new winston.transports.Console({
-      format: winston.format.combine(
-        winston.format.colorize(),
-        winston.format.printf(({ timestamp, level, message, ...rest }) => {
-          let args = '';
-          if (typeof message === 'object') {
-            args = JSON.stringify(message, null, 2);
-            message = '';
-          }
-          const extraArgs = Object.keys(rest).length
-            ? JSON.stringify(rest, null, 2)
-            : '';
-          return `${timestamp} ${level}: ${message} ${args} ${extraArgs}`.trim();
-        })
-      ),
-    }),
+    new winston.transports.Console({ format: consoleFormat }),
     new winston.transports.File({ filename: 'error.log', level: 'error' }),
     new winston.transports.File({ filename: 'combined.log' }),
   ],
@@ -54,4 +54,20 @@ logger.setName = (name: string): void => {
   logger.defaultMeta = { ...logger.defaultMeta, name };
 };
 
+/**
+ * Write console output to stderr instead of stdout, for transports such as
+ * stdio that carry protocol messages on stdout
+ */
+export function logToStderr(): void {
+  logger.transports
+    .filter(transport => transport instanceof winston.transports.Console)
+    .forEach(transport => logger.remove(transport));
+  logger.add(
+    new winston.transports.Console({
+      format: consoleFormat,
+      stderrLevels: Object.keys(logger.levels),
+    })
+  );
+}
+
 export default logger;
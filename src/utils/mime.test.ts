@@ -0,0 +1,86 @@
+import {
+  buildMimeMessage,
+  encodeHeaderValue,
+  formatAddress,
+  parseAddressList,
+} from './mime';
+
+// Header section of a message, before the first blank line
+function headerLines(message: string): string[] {
+  return message.split('\r\n\r\n')[0].split('\r\n');
+}
+
+describe('formatAddress', () => {
+  it('quotes display names with specials', () => {
+    expect(formatAddress('Doe, Jane <jane@example.com>')).toBe(
+      '"Doe, Jane" <jane@example.com>'
+    );
+  });
+
+  it('encodes non-ASCII display names', () => {
+    expect(formatAddress('Jürgen <j@example.com>')).toBe(
+      `${encodeHeaderValue('Jürgen')} <j@example.com>`
+    );
+  });
+
+  it('keeps addresses on a single line', () => {
+    expect(formatAddress('a@example.com\r\nBcc: evil@example.com')).toBe(
+      'a@example.com Bcc: evil@example.com'
+    );
+  });
+});
+
+describe('parseAddressList', () => {
+  it('respects quoted display names', () => {
+    expect(
+      parseAddressList('a@example.com, "Doe, Jane" <jane@example.com>')
+    ).toEqual(['a@example.com', '"Doe, Jane" <jane@example.com>']);
+  });
+});
+
+describe('buildMimeMessage', () => {
+  it('does not let recipients inject headers', () => {
+    const message = buildMimeMessage({
+      to: ['a@example.com\r\nBcc: evil@example.com'],
+      cc: ['b@example.com\nX-Injected: 1'],
+      bcc: ['Name <c@example.com>\rX-Injected: 2'],
+      subject: 'Hello',
+      textBody: 'Hi',
+    });
+    const headers = headerLines(message);
+    expect(headers.some(line => /^(Bcc: evil|X-Injected)/.test(line))).toBe(
+      false
+    );
+  });
+
+  it('does not let attachment metadata inject headers', () => {
+    const message = buildMimeMessage({
+      to: ['a@example.com'],
+      subject: 'Report',
+      textBody: 'Attached',
+      attachments: [
+        {
+          filename: 'report.csv\r\nX-Injected: 1',
+          mimeType: 'text/csv\r\nX-Injected: 2',
+          contentId: 'logo\r\nX-Injected: 3',
+          data: Buffer.from('a,b'),
+        },
+      ],
+    });
+    expect(message.split('\r\n').some(line => line.startsWith('X-'))).toBe(
+      false
+    );
+  });
+
+  it('keeps extra header values on a single line', () => {
+    const message = buildMimeMessage({
+      to: ['a@example.com'],
+      subject: 'Re: Hello',
+      textBody: 'Hi',
+      headers: { 'In-Reply-To': '<id@example.com>\r\nX-Injected: 1' },
+    });
+    expect(headerLines(message)).toContain(
+      'In-Reply-To: <id@example.com> X-Injected: 1'
+    );
+  });
+});
@@ -0,0 +1,260 @@
+// RFC 2822 / MIME message builder used for sending email through the Gmail API
+
+import { randomBytes } from 'node:crypto';
+
+export interface MimeAttachment {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+  contentId?: string; // Set to reference the part from HTML as cid:<contentId>
+}
+
+export interface MimeMessageOptions {
+  from?: string;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  replyTo?: string[];
+  subject: string;
+  textBody?: string;
+  htmlBody?: string;
+  attachments?: MimeAttachment[];
+  headers?: Record<string, string>; // Extra headers, e.g. In-Reply-To
+}
+
+const CRLF = '\r\n';
+
+// RFC 2047 limits an encoded word to 75 characters including delimiters
+const MAX_ENCODED_WORD_LENGTH = 75;
+const ENCODED_WORD_OVERHEAD = '=?UTF-8?B??='.length;
+
+function isAscii(value: string): boolean {
+  return /^[\x20-\x7e]*$/.test(value);
+}
+
+// Header injection guard: values must stay on a single logical line
+function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * Encode a header value as RFC 2047 encoded words when it contains
+ * non-ASCII characters. Words are split on character boundaries so that no
+ * multi-byte UTF-8 sequence is broken across encoded words.
+ * @param value - Raw header value
+ * @returns Header-safe value
+ */
+export function encodeHeaderValue(value: string): string {
+  if (isAscii(value)) {
+    return value;
+  }
+
+  const maxBytes =
+    Math.floor((MAX_ENCODED_WORD_LENGTH - ENCODED_WORD_OVERHEAD) / 4) * 3;
+  const words: string[] = [];
+  let chunk = '';
+
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char, 'utf-8') > maxBytes) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  if (chunk) {
+    words.push(chunk);
+  }
+
+  return words
+    .map(word => `=?UTF-8?B?${Buffer.from(word, 'utf-8').toString('base64')}?=`)
+    .join(`${CRLF} `);
+}
+
+/**
+ * Format a single address ("Name <email>" or "email") for a header, quoting
+ * or encoding the display name as needed
+ * @param address - Address as written by the caller
+ * @returns Header-safe address
+ */
+export function formatAddress(address: string): string {
+  const trimmed = singleLine(address).trim();
+  const match = trimmed.match(/^(.*?)\s*<([^<>]+)>$/);
+  if (!match) {
+    return trimmed;
+  }
+
+  const name = match[1].trim().replace(/^"(.*)"$/, '$1');
+  const email = match[2].trim();
+  if (!name) {
+    return `<${email}>`;
+  }
+  if (!isAscii(name)) {
+    return `${encodeHeaderValue(name)} <${email}>`;
+  }
+  // Quote names containing RFC 5322 specials
+  if (/[()<>[\]:;@\\,."]/.test(name)) {
+    return `"${name.replace(/(["\\])/g, '\\$1')}" <${email}>`;
+  }
+  return `${name} <${email}>`;
+}
+
+/**
+ * Extract the bare email address from an address such as "Name <email>"
+ * @param address - Address as written in a header
+ * @returns Lower-cased email address
+ */
+export function extractEmailAddress(address: string): string {
+  const match = address.match(/<([^<>]+)>/);
+  return (match ? match[1] : address).trim().toLowerCase();
+}
+
+/**
+ * Split an address list header ("a@x.com, "Doe, Jane" <b@y.com>") into
+ * individual addresses, respecting quoted display names
+ * @param header - Address list header value
+ * @returns Individual addresses
+ */
+export function parseAddressList(header: string): string[] {
+  const addresses: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let inAngle = false;
+
+  for (const char of header) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === '<' && !inQuotes) {
+      inAngle = true;
+    } else if (char === '>' && !inQuotes) {
+      inAngle = false;
+    } else if (char === ',' && !inQuotes && !inAngle) {
+      if (current.trim()) {
+        addresses.push(current.trim());
+      }
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) {
+    addresses.push(current.trim());
+  }
+  return addresses;
+}
+
+function formatAddressList(addresses: string[]): string {
+  return addresses.map(formatAddress).join(`,${CRLF} `);
+}
+
+// RFC 2231 parameter encoding for non-ASCII filenames
+function formatFilenameParams(filename: string): {
+  name: string;
+  filename: string;
+} {
+  const safe = filename.replace(/[\r\n"\\]/g, '_');
+  if (isAscii(safe)) {
+    return { name: `name="${safe}"`, filename: `filename="${safe}"` };
+  }
+  const encoded = encodeURIComponent(safe).replace(
+    /['()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return {
+    name: `name="${encodeHeaderValue(safe)}"`,
+    filename: `filename*=UTF-8''${encoded}`,
+  };
+}
+
+function wrapBase64(data: Buffer): string {
+  return (data.toString('base64').match(/.{1,76}/g) || []).join(CRLF);
+}
+
+function createBoundary(prefix: string): string {
+  return `${prefix}_${randomBytes(12).toString('hex')}`;
+}
+
+function textPart(content: string, subtype: 'plain' | 'html'): string {
+  return [
+    `Content-Type: text/${subtype}; charset="UTF-8"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(Buffer.from(content, 'utf-8')),
+  ].join(CRLF);
+}
+
+function attachmentPart(attachment: MimeAttachment): string {
+  const params = formatFilenameParams(attachment.filename);
+  const disposition = attachment.contentId ? 'inline' : 'attachment';
+  const headers = [
+    `Content-Type: ${singleLine(attachment.mimeType)}; ${params.name}`,
+    `Content-Disposition: ${disposition}; ${params.filename}`,
+    'Content-Transfer-Encoding: base64',
+  ];
+  if (attachment.contentId) {
+    headers.push(`Content-ID: <${singleLine(attachment.contentId)}>`);
+  }
+  return [...headers, '', wrapBase64(attachment.data)].join(CRLF);
+}
+
+function multipart(subtype: string, parts: string[]): string {
+  const boundary = createBoundary(subtype);
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    '',
+    ...parts.map(part => `--${boundary}${CRLF}${part}`),
+    `--${boundary}--`,
+  ].join(CRLF);
+}
+
+function bodyPart(options: MimeMessageOptions): string {
+  const { textBody, htmlBody } = options;
+  if (textBody !== undefined && htmlBody !== undefined) {
+    return multipart('alternative', [
+      textPart(textBody, 'plain'),
+      textPart(htmlBody, 'html'),
+    ]);
+  }
+  if (htmlBody !== undefined) {
+    return textPart(htmlBody, 'html');
+  }
+  return textPart(textBody ?? '', 'plain');
+}
+
+/**
+ * Build an RFC 2822 message with a MIME body. A plain and HTML body become
+ * multipart/alternative; attachments wrap the body in multipart/mixed.
+ * @param options - Recipients, subject, bodies, attachments and extra headers
+ * @returns The complete message using CRLF line endings
+ */
+export function buildMimeMessage(options: MimeMessageOptions): string {
+  const headers: string[] = [];
+  if (options.from) {
+    headers.push(`From: ${formatAddress(options.from)}`);
+  }
+  if (options.to.length > 0) {
+    headers.push(`To: ${formatAddressList(options.to)}`);
+  }
+  if (options.cc?.length) {
+    headers.push(`Cc: ${formatAddressList(options.cc)}`);
+  }
+  if (options.bcc?.length) {
+    headers.push(`Bcc: ${formatAddressList(options.bcc)}`);
+  }
+  if (options.replyTo?.length) {
+    headers.push(`Reply-To: ${formatAddressList(options.replyTo)}`);
+  }
+  headers.push(`Subject: ${encodeHeaderValue(options.subject)}`);
+  for (const [name, value] of Object.entries(options.headers || {})) {
+    headers.push(`${singleLine(name)}: ${singleLine(value)}`);
+  }
+  headers.push('MIME-Version: 1.0');
+
+  const body = options.attachments?.length
+    ? multipart('mixed', [
+        bodyPart(options),
+        ...options.attachments.map(attachmentPart),
+      ])
+    : bodyPart(options);
+
+  return `${headers.join(CRLF)}${CRLF}${body}${CRLF}`;
+}
@@ -0,0 +1,58 @@
+import { stripQuotedReply } from './quotes';
+
+describe('stripQuotedReply', () => {
+  it.each([
+    ['On Mon, Jan 5, 2026 at 10:00 AM Jane <jane@example.com> wrote:'],
+    ['Le lun. 5 janv. 2026 à 10:00, Jane <jane@example.com> a écrit :'],
+    ['Am Mo., 5. Jan. 2026 um 10:00 Uhr schrieb Jane <jane@example.com>:'],
+    ['El lun, 5 ene 2026 a las 10:00, Jane (<jane@example.com>) escribió:'],
+    ['2026-01-05 10:00 GMT+01:00 Jane <jane@example.com>:'],
+  ])('removes the history after "%s"', attribution => {
+    const result = stripQuotedReply(
+      `Sounds good.\n\n${attribution}\n> Shall we meet?\n> Jane`
+    );
+    expect(result).toEqual({ text: 'Sounds good.', quoteRemoved: true });
+  });
+
+  it('recognizes an attribution wrapped over two lines', () => {
+    const result = stripQuotedReply(
+      'Thanks!\n\nOn Mon, Jan 5, 2026 at 10:00 AM Jane Doe\n<jane@example.com> wrote:\n\nOld text'
+    );
+    expect(result).toEqual({ text: 'Thanks!', quoteRemoved: true });
+  });
+
+  it.each([
+    ['-----Original Message-----\nFrom: Jane\nSent: Monday\nOld text'],
+    ['________________________________\nFrom: Jane\nSent: Monday\nOld text'],
+    ['From: Jane <jane@example.com>\nSent: Monday\nTo: Bob\nOld text'],
+    ['*From:* Jane\n*Sent:* Monday\n*Subject:* Plans\nOld text'],
+  ])('removes an Outlook header block', history => {
+    expect(stripQuotedReply(`See below.\n\n${history}`)).toEqual({
+      text: 'See below.',
+      quoteRemoved: true,
+    });
+  });
+
+  it('keeps a "From:" line that does not start a header block', () => {
+    const text = 'Notes\nFrom: the team lead\nPlease review.';
+    expect(stripQuotedReply(text)).toEqual({ text, quoteRemoved: false });
+  });
+
+  it('keeps a rule that is not followed by headers', () => {
+    const text = 'Agenda\n----------\n1. Budget';
+    expect(stripQuotedReply(text)).toEqual({ text, quoteRemoved: false });
+  });
+
+  it('removes interleaved quoted lines', () => {
+    expect(
+      stripQuotedReply('> Can you come?\nYes.\n> And bring snacks?\nSure.')
+    ).toEqual({ text: 'Yes.\nSure.', quoteRemoved: true });
+  });
+
+  it('never reduces a message to nothing', () => {
+    expect(stripQuotedReply('> All quoted\n> text')).toEqual({
+      text: '> All quoted\n> text',
+      quoteRemoved: false,
+    });
+  });
+});
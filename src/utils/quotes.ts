@@ -0,0 +1,119 @@
+// Helpers for removing quoted reply history from email bodies so that each
+// message in a conversation only contributes its new content.
+
+// Attribution lines that introduce quoted history, e.g. "On Mon, Jan 1, 2024
+// at 10:00 AM Jane <jane@example.com> wrote:" (may be wrapped over two lines)
+const ATTRIBUTION_PATTERNS = [
+  /^On\s[\s\S]{1,300}?\s(wrote|writes):\s*$/i,
+  /^Le\s[\s\S]{1,300}?\sa écrit\s?:\s*$/i,
+  /^Am\s[\s\S]{1,300}?\sschrieb[\s\S]{0,100}:\s*$/i,
+  /^El\s[\s\S]{1,300}?\sescribió:\s*$/i,
+  /^\d{4}[/.-]\d{1,2}[/.-]\d{1,2}[\s\S]{1,200}?<[^>]+>:?\s*$/,
+];
+
+// Separators Outlook and other clients put above the quoted message
+const SEPARATOR_PATTERNS = [
+  /^-{2,}\s*Original Message\s*-{2,}\s*$/i,
+  /^_{10,}\s*$/,
+  /^-{10,}\s*$/,
+  /^\*?From:\*?\s.+$/i,
+];
+
+// Header lines that follow an Outlook "From:" line in a quoted block
+const OUTLOOK_HEADER_PATTERN = /^\*?(Sent|Date|To|Subject|Cc):\*?\s/i;
+
+export interface QuoteStripResult {
+  text: string;
+  quoteRemoved: boolean;
+}
+
+function isQuoteLine(line: string): boolean {
+  return /^\s*>/.test(line);
+}
+
+function isOutlookHeaderBlock(lines: string[], index: number): boolean {
+  // A "From:" line counts only when followed by Sent/Date/To/Subject headers
+  const following = lines
+    .slice(index + 1, index + 5)
+    .filter(line => line.trim() !== '');
+  return following.some(line => OUTLOOK_HEADER_PATTERN.test(line.trim()));
+}
+
+function findQuoteStart(lines: string[]): number {
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) {
+      continue;
+    }
+
+    // Attribution lines are sometimes wrapped onto a second line
+    const joined = i + 1 < lines.length ? `${line} ${lines[i + 1].trim()}` : '';
+    if (
+      ATTRIBUTION_PATTERNS.some(
+        pattern => pattern.test(line) || (joined && pattern.test(joined))
+      )
+    ) {
+      return i;
+    }
+
+    for (const pattern of SEPARATOR_PATTERNS) {
+      if (!pattern.test(line)) {
+        continue;
+      }
+      if (/From:/i.test(line)) {
+        if (isOutlookHeaderBlock(lines, i)) {
+          return i;
+        }
+        continue;
+      }
+      // Underscore or dash rules only count when a header block follows
+      const next = lines.slice(i + 1).find(l => l.trim() !== '');
+      if (
+        /Original Message/i.test(line) ||
+        (next !== undefined && /^\*?From:\*?\s/i.test(next.trim()))
+      ) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Remove quoted reply history from an email body: attribution lines such as
+ * "On ... wrote:", Outlook "Original Message" and header blocks, and lines
+ * prefixed with ">"
+ * @param text - Plain text or Markdown email body
+ * @returns The new content and whether anything was removed
+ */
+export function stripQuotedReply(text: string): QuoteStripResult {
+  if (!text) {
+    return { text: '', quoteRemoved: false };
+  }
+
+  let lines = text.replace(/\r\n/g, '\n').split('\n');
+  let quoteRemoved = false;
+
+  const quoteStart = findQuoteStart(lines);
+  if (quoteStart > 0) {
+    lines = lines.slice(0, quoteStart);
+    quoteRemoved = true;
+  }
+
+  const withoutQuotedLines = lines.filter(line => !isQuoteLine(line));
+  if (withoutQuotedLines.length !== lines.length) {
+    quoteRemoved = true;
+  }
+
+  const stripped = withoutQuotedLines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  // Never reduce a message to nothing, e.g. a forward that is all quote
+  if (!stripped) {
+    return { text: text.trim(), quoteRemoved: false };
+  }
+
+  return { text: stripped, quoteRemoved };
+}
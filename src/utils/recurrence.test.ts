@@ -0,0 +1,69 @@
+import {
+  findRecurrenceErrors,
+  normalizeRecurrence,
+  parseRecurrenceRule,
+} from './recurrence';
+
+describe('normalizeRecurrence', () => {
+  it('trims lines, drops empty ones and upper-cases property names', () => {
+    expect(
+      normalizeRecurrence([
+        '  rrule:FREQ=WEEKLY;BYDAY=MO ',
+        '',
+        'exdate;TZID=Europe/Berlin:20260112T090000',
+      ])
+    ).toEqual([
+      'RRULE:FREQ=WEEKLY;BYDAY=MO',
+      'EXDATE;TZID=Europe/Berlin:20260112T090000',
+    ]);
+  });
+});
+
+describe('parseRecurrenceRule', () => {
+  it('splits a rule into upper-cased parts', () => {
+    expect(parseRecurrenceRule('RRULE:freq=monthly;byday=-1fr')).toEqual({
+      FREQ: 'MONTHLY',
+      BYDAY: '-1FR',
+    });
+  });
+});
+
+describe('findRecurrenceErrors', () => {
+  it.each([
+    [['RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=10']],
+    [['RRULE:FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20261231T235959Z']],
+    [['RRULE:FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=-1;INTERVAL=2']],
+    [['RRULE:FREQ=DAILY', 'EXDATE;TZID=Europe/Berlin:20260112T090000']],
+    [['RDATE;VALUE=DATE:20260101,20260401']],
+  ])('accepts %j', lines => {
+    expect(findRecurrenceErrors(lines)).toEqual([]);
+  });
+
+  it.each([
+    [['EXDATE:20260112T090000Z'], 'At least one RRULE or RDATE'],
+    [['RRULE:BYDAY=MO'], 'FREQ is required'],
+    [['RRULE:FREQ=FORTNIGHTLY'], 'invalid FREQ value "FORTNIGHTLY"'],
+    [
+      ['RRULE:FREQ=DAILY;COUNT=5;UNTIL=20261231'],
+      'UNTIL and COUNT cannot be used together',
+    ],
+    [['RRULE:FREQ=WEEKLY;BYDAY=XX'], 'invalid BYDAY value "XX"'],
+    [['RRULE:FREQ=MONTHLY;BYMONTHDAY=0'], 'invalid BYMONTHDAY value "0"'],
+    [['RRULE:FREQ=YEARLY;BYMONTH=13'], 'invalid BYMONTH value "13"'],
+    [['RRULE:FREQ=DAILY;COLOR=RED'], 'unknown part COLOR'],
+    [['RRULE;TZID=UTC:FREQ=DAILY'], 'rules do not take parameters'],
+    [
+      ['RRULE:FREQ=DAILY', 'EXDATE;VALUE=DATE:20260112T090000'],
+      'invalid date "20260112T090000"',
+    ],
+    [
+      ['RRULE:FREQ=DAILY', 'EXDATE;X-FOO=1:20260112'],
+      'unsupported parameter X-FOO=1',
+    ],
+    [['RRULE:FREQ=DAILY', 'DTSTART:20260112'], 'expected RRULE, EXRULE'],
+  ])('rejects %j', (lines, message) => {
+    const errors = findRecurrenceErrors(lines);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain(message);
+  });
+});
@@ -0,0 +1,160 @@
+// RFC 5545 recurrence lines (RRULE, EXRULE, RDATE, EXDATE) as used by the
+// Calendar API's "recurrence" field, with validation so that mistakes are
+// reported before a request is sent.
+
+const FREQUENCIES = [
+  'SECONDLY',
+  'MINUTELY',
+  'HOURLY',
+  'DAILY',
+  'WEEKLY',
+  'MONTHLY',
+  'YEARLY',
+];
+
+const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const DATE_PATTERN = /^\d{8}$/;
+const DATE_TIME_PATTERN = /^\d{8}T\d{6}Z?$/;
+
+function isIntegerList(value: string, min: number, max: number): boolean {
+  return value.split(',').every(item => {
+    if (!/^[+-]?\d+$/.test(item)) {
+      return false;
+    }
+    const number = Math.abs(Number(item));
+    return number !== 0 && number >= min && number <= max;
+  });
+}
+
+// Validators for RRULE parts, returning true when the value is acceptable
+const RULE_PARTS: Record<string, (value: string) => boolean> = {
+  FREQ: value => FREQUENCIES.includes(value),
+  UNTIL: value => DATE_PATTERN.test(value) || DATE_TIME_PATTERN.test(value),
+  COUNT: value => /^\d+$/.test(value) && Number(value) > 0,
+  INTERVAL: value => /^\d+$/.test(value) && Number(value) > 0,
+  BYSECOND: value =>
+    value.split(',').every(v => /^\d+$/.test(v) && Number(v) <= 60),
+  BYMINUTE: value =>
+    value.split(',').every(v => /^\d+$/.test(v) && Number(v) <= 59),
+  BYHOUR: value =>
+    value.split(',').every(v => /^\d+$/.test(v) && Number(v) <= 23),
+  BYDAY: value =>
+    value.split(',').every(v => {
+      const match = v.match(/^([+-]?\d{1,2})?([A-Z]{2})$/);
+      return (
+        !!match &&
+        WEEKDAYS.includes(match[2]) &&
+        (!match[1] || isIntegerList(match[1], 1, 53))
+      );
+    }),
+  BYMONTHDAY: value => isIntegerList(value, 1, 31),
+  BYYEARDAY: value => isIntegerList(value, 1, 366),
+  BYWEEKNO: value => isIntegerList(value, 1, 53),
+  BYMONTH: value => isIntegerList(value, 1, 12) && !/[+-]/.test(value),
+  BYSETPOS: value => isIntegerList(value, 1, 366),
+  WKST: value => WEEKDAYS.includes(value),
+};
+
+/**
+ * Split an RRULE value such as "FREQ=WEEKLY;BYDAY=MO" into its parts
+ * @param rule - Rule with or without the "RRULE:" prefix
+ * @returns Upper-cased part names mapped to their values
+ */
+export function parseRecurrenceRule(rule: string): Record<string, string> {
+  const parts: Record<string, string> = {};
+  for (const part of rule.replace(/^(RRULE|EXRULE):/i, '').split(';')) {
+    if (!part) {
+      continue;
+    }
+    const [name, ...value] = part.split('=');
+    parts[name.trim().toUpperCase()] = value.join('=').trim().toUpperCase();
+  }
+  return parts;
+}
+
+function validateRule(rule: string): string[] {
+  const errors: string[] = [];
+  const parts = parseRecurrenceRule(rule);
+
+  if (!parts.FREQ) {
+    errors.push('FREQ is required');
+  }
+  if (parts.UNTIL && parts.COUNT) {
+    errors.push('UNTIL and COUNT cannot be used together');
+  }
+  for (const [name, value] of Object.entries(parts)) {
+    const validate = RULE_PARTS[name];
+    if (!validate) {
+      errors.push(`unknown part ${name}`);
+    } else if (!value || !validate(value)) {
+      errors.push(`invalid ${name} value "${value}"`);
+    }
+  }
+  return errors;
+}
+
+function validateDateList(line: string): string[] {
+  const separator = line.indexOf(':');
+  const params = line.substring(0, separator).split(';').slice(1);
+  const values = line.substring(separator + 1).split(',');
+  const isDateOnly = params.some(param => /^VALUE=DATE$/i.test(param));
+
+  for (const param of params) {
+    if (!/^(TZID=[^;:]+|VALUE=(DATE|DATE-TIME|PERIOD))$/i.test(param)) {
+      return [`unsupported parameter ${param}`];
+    }
+  }
+  const invalid = values.filter(value =>
+    isDateOnly
+      ? !DATE_PATTERN.test(value)
+      : !DATE_TIME_PATTERN.test(value) && !DATE_PATTERN.test(value)
+  );
+  return invalid.length > 0
+    ? [`invalid date ${invalid.map(v => `"${v}"`).join(', ')}`]
+    : [];
+}
+
+/**
+ * Normalize recurrence lines: trim them and upper-case the property name
+ * @param lines - Lines such as "rrule:FREQ=WEEKLY;BYDAY=MO"
+ */
+export function normalizeRecurrence(lines: string[]): string[] {
+  return lines
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const match = line.match(/^([A-Za-z]+)([;:])/);
+      return match
+        ? `${match[1].toUpperCase()}${line.substring(match[1].length)}`
+        : line;
+    });
+}
+
+/**
+ * Check recurrence lines against RFC 5545 as far as the Calendar API uses it
+ * @param lines - Normalized recurrence lines
+ * @returns Human-readable problems; empty when the lines are valid
+ */
+export function findRecurrenceErrors(lines: string[]): string[] {
+  const errors: string[] = [];
+  if (!lines.some(line => /^(RRULE|RDATE)[;:]/.test(line))) {
+    errors.push('At least one RRULE or RDATE line is required');
+  }
+
+  for (const line of lines) {
+    const name = line.match(/^([A-Z]+)[;:]/)?.[1];
+    let lineErrors: string[];
+    if (name === 'RRULE' || name === 'EXRULE') {
+      lineErrors = line.startsWith(`${name}:`)
+        ? validateRule(line)
+        : ['rules do not take parameters'];
+    } else if (name === 'RDATE' || name === 'EXDATE') {
+      lineErrors = validateDateList(line);
+    } else {
+      lineErrors = ['expected RRULE, EXRULE, RDATE or EXDATE'];
+    }
+    errors.push(...lineErrors.map(error => `"${line}": ${error}`));
+  }
+  return errors;
+}
@@ -0,0 +1,181 @@
+import {
+  findFreeSlots,
+  intersectIntervals,
+  mergeIntervals,
+  subtractIntervals,
+  workingIntervals,
+} from './slots';
+
+const at = (iso: string) => Date.parse(iso);
+
+describe('interval helpers', () => {
+  it('merges overlapping and touching intervals', () => {
+    expect(
+      mergeIntervals([
+        { start: 5, end: 8 },
+        { start: 1, end: 3 },
+        { start: 3, end: 4 },
+        { start: 6, end: 7 },
+        { start: 9, end: 9 },
+      ])
+    ).toEqual([
+      { start: 1, end: 4 },
+      { start: 5, end: 8 },
+    ]);
+  });
+
+  it('intersects interval lists', () => {
+    expect(
+      intersectIntervals(
+        [
+          { start: 0, end: 5 },
+          { start: 8, end: 12 },
+        ],
+        [{ start: 3, end: 10 }]
+      )
+    ).toEqual([
+      { start: 3, end: 5 },
+      { start: 8, end: 10 },
+    ]);
+  });
+
+  it('subtracts busy intervals', () => {
+    expect(
+      subtractIntervals(
+        [{ start: 0, end: 10 }],
+        [
+          { start: 2, end: 3 },
+          { start: 5, end: 12 },
+        ]
+      )
+    ).toEqual([
+      { start: 0, end: 2 },
+      { start: 3, end: 5 },
+    ]);
+  });
+});
+
+describe('workingIntervals', () => {
+  it('follows the working hours time zone across a DST change', () => {
+    // Friday before and Monday after the US spring change
+    const intervals = workingIntervals(
+      { start: '09:00', end: '17:00', timeZone: 'America/New_York' },
+      at('2026-03-06T05:00:00Z'),
+      at('2026-03-10T04:00:00Z'),
+      'UTC'
+    );
+    expect(intervals).toEqual([
+      { start: at('2026-03-06T14:00:00Z'), end: at('2026-03-06T22:00:00Z') },
+      { start: at('2026-03-09T13:00:00Z'), end: at('2026-03-09T21:00:00Z') },
+    ]);
+  });
+
+  it('ends overnight shifts on the next day', () => {
+    const intervals = workingIntervals(
+      { start: '22:00', end: '06:00', days: [1] },
+      at('2026-01-05T00:00:00Z'),
+      at('2026-01-07T00:00:00Z'),
+      'UTC'
+    );
+    expect(intervals).toEqual([
+      { start: at('2026-01-05T22:00:00Z'), end: at('2026-01-06T06:00:00Z') },
+    ]);
+  });
+
+  it('rejects invalid times', () => {
+    expect(() =>
+      workingIntervals({ start: '9am', end: '17:00' }, 0, 1, 'UTC')
+    ).toThrow('Invalid time "9am"');
+  });
+});
+
+describe('findFreeSlots', () => {
+  const monday = {
+    rangeStart: at('2026-01-05T14:00:00Z'), // 09:00 in New York
+    rangeEnd: at('2026-01-05T17:00:00Z'), // 12:00 in New York
+    durationMinutes: 60,
+    timeZone: 'America/New_York',
+  };
+  const meeting = {
+    start: at('2026-01-05T15:00:00Z'),
+    end: at('2026-01-05T16:00:00Z'),
+  };
+
+  it('ranks earlier slots next to existing events first', () => {
+    expect(
+      findFreeSlots({
+        ...monday,
+        participants: [{ id: 'a', busy: [meeting] }],
+      })
+    ).toEqual([
+      { start: at('2026-01-05T14:00:00Z'), end: meeting.start, score: 1 },
+      { start: meeting.end, end: at('2026-01-05T17:00:00Z'), score: 0.6 },
+    ]);
+  });
+
+  it('keeps buffers around existing events', () => {
+    const slots = findFreeSlots({
+      ...monday,
+      participants: [{ id: 'a', busy: [meeting] }],
+      bufferBeforeMinutes: 15,
+    });
+    expect(slots.map(slot => slot.start)).toEqual([at('2026-01-05T14:00:00Z')]);
+  });
+
+  it('returns non-overlapping slots', () => {
+    const slots = findFreeSlots({
+      ...monday,
+      participants: [{ id: 'a', busy: [] }],
+      stepMinutes: 15,
+    });
+    expect(slots).toHaveLength(3);
+    for (const slot of slots) {
+      expect(
+        slots.some(
+          other =>
+            other !== slot && slot.start < other.end && other.start < slot.end
+        )
+      ).toBe(false);
+    }
+  });
+
+  it('intersects working hours of participants in different zones', () => {
+    const slots = findFreeSlots({
+      participants: [
+        { id: 'new-york', busy: [] },
+        {
+          id: 'london',
+          busy: [],
+          workingHours: {
+            start: '09:00',
+            end: '17:00',
+            timeZone: 'Europe/London',
+          },
+        },
+      ],
+      rangeStart: at('2026-01-05T00:00:00Z'),
+      rangeEnd: at('2026-01-06T00:00:00Z'),
+      durationMinutes: 60,
+      timeZone: 'America/New_York',
+      stepMinutes: 60,
+    });
+    // 09:00-12:00 in New York is 14:00-17:00 in London
+    expect(
+      slots.map(slot => new Date(slot.start).toISOString()).sort()
+    ).toEqual([
+      '2026-01-05T14:00:00.000Z',
+      '2026-01-05T15:00:00.000Z',
+      '2026-01-05T16:00:00.000Z',
+    ]);
+  });
+
+  it('returns nothing for an empty range', () => {
+    expect(
+      findFreeSlots({
+        ...monday,
+        rangeEnd: monday.rangeStart,
+        participants: [{ id: 'a', busy: [] }],
+      })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,277 @@
+// Pure meeting-slot finder: intersects everyone's free time within their
+// working hours and ranks the candidate slots. Times are epoch milliseconds.
+
+import {
+  getZonedDateTime,
+  getTimeZoneOffset,
+  zonedTimeToInstant,
+} from './timezone';
+
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+export interface WorkingHours {
+  start: string; // Local time "HH:mm", e.g. "09:00"
+  end: string; // Local time "HH:mm"; "24:00" for end of day
+  days?: number[]; // Working weekdays, 0 = Sunday; default Monday to Friday
+  timeZone?: string; // Defaults to the search time zone
+}
+
+export interface Participant {
+  id: string;
+  busy: TimeInterval[];
+  workingHours?: WorkingHours; // Defaults to the search's working hours
+}
+
+export interface SlotSearchOptions {
+  participants: Participant[];
+  rangeStart: number;
+  rangeEnd: number;
+  durationMinutes: number;
+  timeZone: string; // Used for slot alignment and as the default for hours
+  workingHours?: WorkingHours; // Default for participants without their own
+  bufferBeforeMinutes?: number; // Free time required before the meeting
+  bufferAfterMinutes?: number; // Free time required after the meeting
+  stepMinutes?: number; // Slot start granularity, default 30
+  maxSlots?: number; // Default 10
+}
+
+export interface RankedSlot extends TimeInterval {
+  score: number; // 0-1, higher is better
+}
+
+const MINUTE = 60000;
+const DAY = 24 * 60 * MINUTE;
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  start: '09:00',
+  end: '17:00',
+  days: [1, 2, 3, 4, 5],
+};
+
+function parseClock(value: string): number {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    throw new Error(`Invalid time "${value}", expected HH:mm`);
+  }
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  if (Number(match[2]) > 59 || minutes > 24 * 60) {
+    throw new Error(`Invalid time "${value}", expected HH:mm`);
+  }
+  return minutes;
+}
+
+/**
+ * Sort intervals and merge the ones that overlap or touch
+ * @param intervals - Intervals in any order
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = intervals
+    .filter(interval => interval.end > interval.start)
+    .sort((a, b) => a.start - b.start);
+  const merged: TimeInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Intersect two sorted, merged interval lists
+ */
+export function intersectIntervals(
+  a: TimeInterval[],
+  b: TimeInterval[]
+): TimeInterval[] {
+  const result: TimeInterval[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const start = Math.max(a[i].start, b[j].start);
+    const end = Math.min(a[i].end, b[j].end);
+    if (end > start) {
+      result.push({ start, end });
+    }
+    if (a[i].end < b[j].end) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Remove busy intervals from free intervals; both lists sorted and merged
+ */
+export function subtractIntervals(
+  free: TimeInterval[],
+  busy: TimeInterval[]
+): TimeInterval[] {
+  const result: TimeInterval[] = [];
+  for (const interval of free) {
+    let start = interval.start;
+    for (const block of busy) {
+      if (block.end <= start || block.start >= interval.end) {
+        continue;
+      }
+      if (block.start > start) {
+        result.push({ start, end: block.start });
+      }
+      start = Math.max(start, block.end);
+    }
+    if (start < interval.end) {
+      result.push({ start, end: interval.end });
+    }
+  }
+  return result;
+}
+
+/**
+ * Expand working hours into concrete intervals within a range, following the
+ * working hours' own time zone across DST changes
+ * @param hours - Working hours definition
+ * @param rangeStart - Start of the range
+ * @param rangeEnd - End of the range
+ * @param defaultTimeZone - Time zone to use if the hours do not specify one
+ */
+export function workingIntervals(
+  hours: WorkingHours,
+  rangeStart: number,
+  rangeEnd: number,
+  defaultTimeZone: string
+): TimeInterval[] {
+  const timeZone = hours.timeZone || defaultTimeZone;
+  const startMinutes = parseClock(hours.start);
+  const endMinutes = parseClock(hours.end);
+  const days = new Set(hours.days ?? DEFAULT_WORKING_HOURS.days);
+  const intervals: TimeInterval[] = [];
+
+  // Walk local calendar days, starting the day before to cover offsets
+  const first = getZonedDateTime(rangeStart - DAY, timeZone);
+  let cursor = Date.UTC(first.year, first.month - 1, first.day);
+  while (cursor < rangeEnd + DAY) {
+    const day = new Date(cursor);
+    if (days.has(day.getUTCDay())) {
+      const local = {
+        year: day.getUTCFullYear(),
+        month: day.getUTCMonth() + 1,
+        day: day.getUTCDate(),
+      };
+      // Hours past 24 roll over into the next day
+      const at = (minutes: number): number =>
+        zonedTimeToInstant(
+          { ...local, hour: Math.floor(minutes / 60), minute: minutes % 60 },
+          timeZone
+        );
+      // Overnight shifts such as 22:00-06:00 end on the next day
+      const start = at(startMinutes);
+      const end =
+        endMinutes > startMinutes ? at(endMinutes) : at(endMinutes + 24 * 60);
+      const clipped = {
+        start: Math.max(start, rangeStart),
+        end: Math.min(end, rangeEnd),
+      };
+      if (clipped.end > clipped.start) {
+        intervals.push(clipped);
+      }
+    }
+    cursor += DAY;
+  }
+  return mergeIntervals(intervals);
+}
+
+// First slot start at or after a time, aligned to the step in local time
+function alignStart(
+  time: number,
+  stepMinutes: number,
+  timeZone: string
+): number {
+  const offset = getTimeZoneOffset(time, timeZone) * MINUTE;
+  const step = stepMinutes * MINUTE;
+  return Math.ceil((time + offset) / step) * step - offset;
+}
+
+/**
+ * Find meeting slots where every participant is free within their working
+ * hours, leaving the requested buffers around existing events. Candidates
+ * are ranked so that earlier slots and slots adjacent to existing events
+ * (which keep larger blocks of free time intact) come first; overlapping
+ * candidates are dropped in favour of the better ranked one.
+ * @param options - Participants' busy times, range, duration and preferences
+ * @returns Non-overlapping slots, best first
+ */
+export function findFreeSlots(options: SlotSearchOptions): RankedSlot[] {
+  const duration = options.durationMinutes * MINUTE;
+  const bufferBefore = (options.bufferBeforeMinutes ?? 0) * MINUTE;
+  const bufferAfter = (options.bufferAfterMinutes ?? 0) * MINUTE;
+  const stepMinutes = options.stepMinutes ?? 30;
+  const maxSlots = options.maxSlots ?? 10;
+  const { rangeStart, rangeEnd, timeZone } = options;
+
+  if (duration <= 0 || rangeEnd <= rangeStart) {
+    return [];
+  }
+
+  let common: TimeInterval[] = [{ start: rangeStart, end: rangeEnd }];
+  for (const participant of options.participants) {
+    const hours =
+      participant.workingHours ?? options.workingHours ?? DEFAULT_WORKING_HOURS;
+    // Busy blocks grow by the buffers, so a slot keeps its distance
+    const busy = mergeIntervals(
+      participant.busy.map(block => ({
+        start: block.start - bufferAfter,
+        end: block.end + bufferBefore,
+      }))
+    );
+    const free = subtractIntervals(
+      workingIntervals(hours, rangeStart, rangeEnd, timeZone),
+      busy
+    );
+    common = intersectIntervals(common, free);
+  }
+
+  const candidates: RankedSlot[] = [];
+  const span = rangeEnd - rangeStart;
+  for (const interval of common) {
+    for (
+      let start = alignStart(interval.start, stepMinutes, timeZone);
+      start + duration <= interval.end;
+      start += stepMinutes * MINUTE
+    ) {
+      const end = start + duration;
+      const earliness = 1 - (start - rangeStart) / span;
+      // Slots touching the edge of a free period avoid fragmenting it
+      const gap = Math.min(start - interval.start, interval.end - end);
+      const compactness = 1 - Math.min(gap / (2 * duration), 1);
+      candidates.push({
+        start,
+        end,
+        score: Math.round((0.6 * earliness + 0.4 * compactness) * 100) / 100,
+      });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score || a.start - b.start);
+  const selected: RankedSlot[] = [];
+  for (const candidate of candidates) {
+    if (selected.length >= maxSlots) {
+      break;
+    }
+    if (
+      !selected.some(
+        slot => candidate.start < slot.end && slot.start < candidate.end
+      )
+    ) {
+      selected.push(candidate);
+    }
+  }
+  return selected;
+}
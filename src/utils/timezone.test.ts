@@ -0,0 +1,130 @@
+import {
+  formatOffset,
+  formatRfc3339,
+  getTimeZoneOffset,
+  getZonedDateTime,
+  isValidTimeZone,
+  parseZonedDateTime,
+  zonedTimeToInstant,
+} from './timezone';
+
+const NEW_YORK = 'America/New_York';
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA names and rejects others', () => {
+    expect(isValidTimeZone(NEW_YORK)).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
+
+describe('getTimeZoneOffset', () => {
+  it('follows DST', () => {
+    expect(
+      getTimeZoneOffset(Date.parse('2026-01-15T12:00:00Z'), NEW_YORK)
+    ).toBe(-300);
+    expect(
+      getTimeZoneOffset(Date.parse('2026-07-15T12:00:00Z'), NEW_YORK)
+    ).toBe(-240);
+    expect(
+      getTimeZoneOffset(Date.parse('2026-07-15T12:00:00Z'), 'Asia/Kolkata')
+    ).toBe(330);
+  });
+});
+
+describe('getZonedDateTime', () => {
+  it('returns the wall-clock time and weekday', () => {
+    expect(
+      getZonedDateTime(Date.parse('2026-03-08T07:30:00Z'), NEW_YORK)
+    ).toEqual({
+      year: 2026,
+      month: 3,
+      day: 8,
+      hour: 3,
+      minute: 30,
+      second: 0,
+      weekday: 0,
+    });
+  });
+});
+
+describe('zonedTimeToInstant', () => {
+  const local = (day: number, month: number, hour: number, minute = 0) => ({
+    year: 2026,
+    month,
+    day,
+    hour,
+    minute,
+  });
+
+  it('converts ordinary times', () => {
+    expect(zonedTimeToInstant(local(15, 1, 9), NEW_YORK)).toBe(
+      Date.parse('2026-01-15T14:00:00Z')
+    );
+    expect(zonedTimeToInstant(local(15, 7, 9), NEW_YORK)).toBe(
+      Date.parse('2026-07-15T13:00:00Z')
+    );
+  });
+
+  it('moves times skipped by the spring change forward by the gap', () => {
+    const instant = zonedTimeToInstant(local(8, 3, 2, 30), NEW_YORK);
+    expect(formatRfc3339(instant, NEW_YORK)).toBe('2026-03-08T03:30:00-04:00');
+  });
+
+  it('keeps the times around the spring change', () => {
+    expect(
+      formatRfc3339(zonedTimeToInstant(local(8, 3, 1, 59), NEW_YORK), NEW_YORK)
+    ).toBe('2026-03-08T01:59:00-05:00');
+    expect(
+      formatRfc3339(zonedTimeToInstant(local(8, 3, 3), NEW_YORK), NEW_YORK)
+    ).toBe('2026-03-08T03:00:00-04:00');
+  });
+
+  it('resolves times repeated by the autumn change to the first one', () => {
+    const instant = zonedTimeToInstant(local(1, 11, 1, 30), NEW_YORK);
+    expect(instant).toBe(Date.parse('2026-11-01T05:30:00Z'));
+    expect(formatRfc3339(instant, NEW_YORK)).toBe('2026-11-01T01:30:00-04:00');
+  });
+
+  it('handles zones with half-hour DST changes', () => {
+    // Lord Howe Island moves by 30 minutes on 2026-10-04 at 02:00
+    const instant = zonedTimeToInstant(
+      local(4, 10, 2, 15),
+      'Australia/Lord_Howe'
+    );
+    expect(formatRfc3339(instant, 'Australia/Lord_Howe')).toBe(
+      '2026-10-04T02:45:00+11:00'
+    );
+  });
+});
+
+describe('parseZonedDateTime', () => {
+  it('uses the offset when there is one', () => {
+    expect(parseZonedDateTime('2026-07-01T09:00:00+02:00', NEW_YORK)).toBe(
+      Date.parse('2026-07-01T07:00:00Z')
+    );
+    expect(parseZonedDateTime('2026-07-01T09:00:00Z', NEW_YORK)).toBe(
+      Date.parse('2026-07-01T09:00:00Z')
+    );
+  });
+
+  it('reads times without offset in the time zone', () => {
+    expect(parseZonedDateTime('2026-07-01T09:00:00', NEW_YORK)).toBe(
+      Date.parse('2026-07-01T13:00:00Z')
+    );
+    expect(parseZonedDateTime('2026-07-01T09:00')).toBe(
+      Date.parse('2026-07-01T09:00:00Z')
+    );
+  });
+
+  it('rejects other values', () => {
+    expect(parseZonedDateTime('tomorrow')).toBeNaN();
+  });
+});
+
+describe('formatOffset', () => {
+  it('formats positive, negative and half-hour offsets', () => {
+    expect(formatOffset(-420)).toBe('-07:00');
+    expect(formatOffset(330)).toBe('+05:30');
+    expect(formatOffset(0)).toBe('+00:00');
+  });
+});
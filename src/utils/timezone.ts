@@ -0,0 +1,200 @@
+// IANA time zone helpers built on Intl, so that wall-clock times in any zone
+// can be converted to instants and back without extra dependencies
+
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+const DAY = 24 * 60 * 60000;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Check whether a string is a time zone name that Intl understands
+ * @param timeZone - IANA name, e.g. "America/New_York"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock date and time of an instant in a time zone
+ * @param instant - Milliseconds since the epoch
+ * @param timeZone - IANA time zone name
+ */
+export function getZonedDateTime(
+  instant: number,
+  timeZone: string
+): ZonedDateTime {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(instant))) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Get the UTC offset of a time zone at an instant
+ * @param instant - Milliseconds since the epoch
+ * @param timeZone - IANA time zone name
+ * @returns Offset in minutes, e.g. -420 for PDT
+ */
+export function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const zoned = getZonedDateTime(instant, timeZone);
+  const asUtc = Date.UTC(
+    zoned.year,
+    zoned.month - 1,
+    zoned.day,
+    zoned.hour,
+    zoned.minute,
+    zoned.second
+  );
+  return Math.round((asUtc - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+/**
+ * Convert a wall-clock time in a time zone to an instant. Times skipped by a
+ * DST change are read with the offset from before the change, so they move
+ * forward by the size of the gap (02:30 becomes 03:30); repeated times
+ * resolve to the first occurrence.
+ * @param local - Wall-clock date and time; month is 1-12
+ * @param timeZone - IANA time zone name
+ * @returns Milliseconds since the epoch
+ */
+export function zonedTimeToInstant(
+  local: Omit<ZonedDateTime, 'weekday' | 'second'> & { second?: number },
+  timeZone: string
+): number {
+  const asUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second ?? 0
+  );
+  // Offsets on either side of a DST change near the time, if there is one
+  const before = getTimeZoneOffset(asUtc - DAY, timeZone);
+  const after = getTimeZoneOffset(asUtc + DAY, timeZone);
+  const valid = [before, after]
+    .map(offset => ({ offset, instant: asUtc - offset * 60000 }))
+    .filter(
+      candidate =>
+        getTimeZoneOffset(candidate.instant, timeZone) === candidate.offset
+    )
+    .map(candidate => candidate.instant);
+  // A repeated time fits both offsets and takes the earlier instant; a
+  // skipped time fits neither and keeps the offset from before the change
+  return valid.length > 0 ? Math.min(...valid) : asUtc - before * 60000;
+}
+
+/**
+ * Parse an RFC 3339 date-time. One without a UTC offset, which the Calendar
+ * API accepts together with a timeZone, is read as wall-clock time in the
+ * given time zone.
+ * @param value - e.g. "2024-07-20T15:00:00-07:00" or "2024-07-20T15:00:00"
+ * @param timeZone - IANA time zone name for values without an offset
+ * @returns Milliseconds since the epoch, or NaN if invalid
+ */
+export function parseZonedDateTime(value: string, timeZone = 'UTC'): number {
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+    return Date.parse(value);
+  }
+  const match = value.match(
+    /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?$/
+  );
+  if (!match) {
+    return NaN;
+  }
+  return zonedTimeToInstant(
+    {
+      year: Number(match[1]),
+      month: Number(match[2]),
+      day: Number(match[3]),
+      hour: Number(match[4]),
+      minute: Number(match[5]),
+      second: Number(match[6] || 0),
+    },
+    timeZone
+  );
+}
+
+function pad(value: number, length = 2): string {
+  return String(Math.abs(value)).padStart(length, '0');
+}
+
+/**
+ * Format an offset in minutes as used in RFC 3339, e.g. "-07:00"
+ * @param offsetMinutes - Offset from UTC in minutes
+ */
+export function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  return `${sign}${pad(Math.floor(Math.abs(offsetMinutes) / 60))}:${pad(
+    Math.abs(offsetMinutes) % 60
+  )}`;
+}
+
+/**
+ * Format an instant as an RFC 3339 date-time with the time zone's offset,
+ * e.g. "2024-07-20T15:00:00-07:00"
+ * @param instant - Milliseconds since the epoch
+ * @param timeZone - IANA time zone name
+ */
+export function formatRfc3339(instant: number, timeZone: string): string {
+  const zoned = getZonedDateTime(instant, timeZone);
+  return `${pad(zoned.year, 4)}-${pad(zoned.month)}-${pad(zoned.day)}T${pad(
+    zoned.hour
+  )}:${pad(zoned.minute)}:${pad(zoned.second)}${formatOffset(
+    getTimeZoneOffset(instant, timeZone)
+  )}`;
+}
+
+/**
+ * Format the calendar date of an instant in a time zone, e.g. "2024-07-20"
+ * @param instant - Milliseconds since the epoch
+ * @param timeZone - IANA time zone name
+ */
+export function formatDate(instant: number, timeZone: string): string {
+  const zoned = getZonedDateTime(instant, timeZone);
+  return `${pad(zoned.year, 4)}-${pad(zoned.month)}-${pad(zoned.day)}`;
+}